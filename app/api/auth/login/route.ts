@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, createSession, getApiKeyRole, isAuthEnabled } from "@/lib/auth";
+
+// Exchange an API key for a dashboard session cookie
+export async function POST(request: NextRequest) {
+  if (!isAuthEnabled()) {
+    return NextResponse.json({ message: "Access control is not enabled" }, { status: 400 });
+  }
+
+  let apiKey: unknown;
+  try {
+    apiKey = (await request.json())?.apiKey;
+  } catch {
+    return NextResponse.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+  if (typeof apiKey !== "string" || !apiKey) {
+    return NextResponse.json({ message: "apiKey is required" }, { status: 400 });
+  }
+
+  const role = getApiKeyRole(apiKey.trim());
+  if (!role) {
+    return NextResponse.json({ message: "Invalid API key" }, { status: 401 });
+  }
+
+  const session = createSession(role);
+  const response = NextResponse.json({ role });
+  response.cookies.set(SESSION_COOKIE, session.value, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: request.nextUrl.protocol === "https:",
+    path: "/",
+    maxAge: session.maxAge,
+  });
+  return response;
+}
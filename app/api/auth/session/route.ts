@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, isAuthEnabled } from "@/lib/auth";
+
+// Whether access control is enabled and the role of the current credentials
+export async function GET(request: NextRequest) {
+  const enabled = isAuthEnabled();
+  return NextResponse.json({ enabled, role: enabled ? authenticateRequest(request) : null });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteBin, getBinById, requireBinAccess, toPublicBin } from "@/lib/bins";
+import { clearWebhookLogs } from "@/lib/store";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const denied = requireBinAccess(request, id);
+  if (denied) return denied;
+
+  const bin = getBinById(id)!;
+  return NextResponse.json({ bin: toPublicBin(bin) });
+}
+
+// Delete a bin together with all of its logs
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const denied = requireBinAccess(request, id);
+  if (denied) return denied;
+
+  clearWebhookLogs(id);
+  deleteBin(id);
+  return NextResponse.json({ message: "Bin deleted successfully" });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createBin } from "@/lib/bins";
+
+// Create a new bin. The token is only returned here, so clients must keep it.
+export async function POST(request: NextRequest) {
+  let name: string | undefined;
+  try {
+    const body = await request.json();
+    name = typeof body?.name === "string" ? body.name : undefined;
+  } catch {
+    // Body is optional
+  }
+
+  const bin = createBin(name);
+  const webhookPath = `/webhooks/b/${bin.id}`;
+
+  return NextResponse.json(
+    {
+      bin,
+      path: webhookPath,
+      url: `${request.nextUrl.origin}${webhookPath}`,
+    },
+    { status: 201 },
+  );
+}
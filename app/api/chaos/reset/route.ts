@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resetChaosSequences } from "@/lib/chaos";
+
+// Restart the outcome sequence of a seed (?seed=...), or of every seed
+export async function POST(request: NextRequest) {
+  const seed = request.nextUrl.searchParams.get("seed") || undefined;
+  resetChaosSequences(seed);
+  return NextResponse.json({
+    message: seed ? `Chaos sequence for seed "${seed}" reset` : "All chaos sequences reset",
+  });
+}
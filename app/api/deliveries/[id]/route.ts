@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDeliveryById } from "@/lib/sender";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const delivery = getDeliveryById(id);
+  if (!delivery) {
+    return NextResponse.json({ message: "Delivery not found" }, { status: 404 });
+  }
+  return NextResponse.json({ delivery });
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { clearDeliveries, getDeliveries } from "@/lib/sender";
+
+// Outbound deliveries, newest first
+export async function GET() {
+  return NextResponse.json({ deliveries: getDeliveries() });
+}
+
+export async function DELETE() {
+  clearDeliveries();
+  return NextResponse.json({ message: "Deliveries cleared successfully" });
+}
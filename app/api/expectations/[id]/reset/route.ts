@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resetExpectation } from "@/lib/expectations";
+
+// Restart an expectation's window from now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const expectation = resetExpectation(id);
+
+  if (!expectation) {
+    return NextResponse.json({ message: "Expectation not found" }, { status: 404 });
+  }
+  return NextResponse.json({ expectation });
+}
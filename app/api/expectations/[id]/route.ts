@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { expectationResource } from "@/lib/expectations";
+
+export const { GET, PUT, DELETE } = createCrudHandlers(expectationResource).item;
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireBinAccess } from "@/lib/bins";
+import { getExpectationById, toJUnitXml, verifyExpectation } from "@/lib/expectations";
+
+// Verify one expectation. Responds 200 either way; the outcome is in `passed`,
+// or in the JUnit report with ?format=junit.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const expectation = getExpectationById(id);
+  if (!expectation) {
+    return NextResponse.json({ message: "Expectation not found" }, { status: 404 });
+  }
+  if (expectation.binId) {
+    const denied = requireBinAccess(request, expectation.binId);
+    if (denied) return denied;
+  }
+
+  const result = verifyExpectation(expectation);
+  if (request.nextUrl.searchParams.get("format") === "junit") {
+    return new NextResponse(toJUnitXml([result]), {
+      headers: { "Content-Type": "application/xml; charset=utf-8" },
+    });
+  }
+  return NextResponse.json(result);
+}
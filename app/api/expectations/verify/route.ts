@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireBinAccess } from "@/lib/bins";
+import { getExpectations, toJUnitXml, verifyExpectation } from "@/lib/expectations";
+
+// Verify every expectation of the shared namespace, or of one bin with
+// ?binId. With ?format=junit the results are one JUnit test suite.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const binId = searchParams.get("binId") || undefined;
+  if (binId) {
+    const denied = requireBinAccess(request, binId);
+    if (denied) return denied;
+  }
+
+  const now = Date.now();
+  const results = getExpectations()
+    .filter((expectation) => expectation.binId === binId)
+    .map((expectation) => verifyExpectation(expectation, now));
+
+  if (searchParams.get("format") === "junit") {
+    return new NextResponse(toJUnitXml(results), {
+      headers: { "Content-Type": "application/xml; charset=utf-8" },
+    });
+  }
+  return NextResponse.json({
+    passed: results.every((result) => result.passed),
+    results,
+  });
+}
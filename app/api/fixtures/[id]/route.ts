@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFixtureById } from "@/lib/fixtures";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const fixture = getFixtureById(id);
+  if (!fixture) {
+    return NextResponse.json({ message: "Fixture not found" }, { status: 404 });
+  }
+  return NextResponse.json({ fixture });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildFixtureSendInput,
+  getFixtureById,
+  validateFixtureSendInput,
+} from "@/lib/fixtures";
+import { sendWebhook, validateSendInput } from "@/lib/sender";
+
+// Fire a fixture at a /webhooks path on this server or at an external URL.
+// The request goes through the outbound sender and shows up in its delivery log.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const fixture = getFixtureById(id);
+  if (!fixture) {
+    return NextResponse.json({ message: "Fixture not found" }, { status: 404 });
+  }
+
+  let input: any;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const fixtureError = validateFixtureSendInput(input);
+  if (fixtureError) {
+    return NextResponse.json({ message: fixtureError }, { status: 400 });
+  }
+
+  const url = input.path ? `${request.nextUrl.origin}${input.path}` : input.url;
+  const sendInput = buildFixtureSendInput(fixture, url, {
+    secret: input.secret,
+    headers: input.headers,
+    retry: input.retry,
+    timeoutSeconds: input.timeoutSeconds,
+  });
+  const error = validateSendInput(sendInput);
+  if (error) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  const { delivery, completion } = sendWebhook(sendInput);
+
+  if (request.nextUrl.searchParams.get("wait") === "true") {
+    return NextResponse.json({ delivery: await completion });
+  }
+
+  return NextResponse.json({ delivery }, { status: 202 });
+}
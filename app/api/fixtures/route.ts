@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFixtures } from "@/lib/fixtures";
+
+// Provider fixtures with freshly generated sample payloads
+export async function GET(request: NextRequest) {
+  const provider = request.nextUrl.searchParams.get("provider");
+  const fixtures = getFixtures().filter(
+    (fixture) => !provider || fixture.provider === provider
+  );
+  return NextResponse.json({ fixtures });
+}
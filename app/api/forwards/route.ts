@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { forwardResource } from "@/lib/forwarding";
+
+export const { GET, POST } = createCrudHandlers(forwardResource).collection;
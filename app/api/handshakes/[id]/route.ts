@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { handshakeResource } from "@/lib/handshakes";
+
+export const { GET, PUT, DELETE } = createCrudHandlers(handshakeResource).item;
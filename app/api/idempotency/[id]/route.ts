@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { idempotencyResource } from "@/lib/idempotency";
+
+export const { GET, PUT, DELETE } = createCrudHandlers(idempotencyResource).item;
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookLogBlob, getWebhookLogById } from "@/lib/store";
+import { requireLogAccess } from "@/lib/bins";
+
+// Download a file uploaded in a multipart request. When a field holds
+// several files, ?index= selects one (zero-based, default 0).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; field: string }> }
+) {
+  const { id, field } = await params;
+  const log = getWebhookLogById(id);
+  const denied = requireLogAccess(request, log);
+  if (denied) return denied;
+
+  const index = parseInt(request.nextUrl.searchParams.get("index") || "0", 10);
+  const file = (log!.files || []).filter((f) => f.field === field)[isNaN(index) ? 0 : index];
+  if (!file) {
+    return NextResponse.json({ message: "File not found" }, { status: 404 });
+  }
+
+  const data = file.blob ? getWebhookLogBlob(id, file.blob) : undefined;
+  if (!data) {
+    return NextResponse.json(
+      { message: "File content not available for this log" },
+      { status: 404 },
+    );
+  }
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Length": String(data.length),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+    },
+  });
+}
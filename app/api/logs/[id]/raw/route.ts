@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookLogBlob, getWebhookLogById } from "@/lib/store";
+import { requireLogAccess } from "@/lib/bins";
+import { getHeaderValue } from "@/lib/match";
+
+// Download the exact raw request body of a log
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const log = getWebhookLogById(id);
+  const denied = requireLogAccess(request, log);
+  if (denied) return denied;
+
+  const data = log!.rawBodyBlob ? getWebhookLogBlob(id, log!.rawBodyBlob) : undefined;
+  if (!data) {
+    return NextResponse.json(
+      { message: "Raw body not available for this log" },
+      { status: 404 },
+    );
+  }
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      "Content-Type":
+        getHeaderValue(log!.headers, "content-type") || "application/octet-stream",
+      "Content-Length": String(data.length),
+      "Content-Disposition": `attachment; filename="${id}.body"`,
+    },
+  });
+}
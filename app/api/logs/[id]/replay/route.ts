@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookLogById } from "@/lib/store";
+import { requireLogAccess } from "@/lib/bins";
+import {
+  getReplaysForLog,
+  replayWebhookLog,
+  validateReplayInput,
+} from "@/lib/replay";
+
+// Previous replays of a log, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const denied = requireLogAccess(request, getWebhookLogById(id));
+  if (denied) return denied;
+
+  return NextResponse.json({ replays: getReplaysForLog(id) });
+}
+
+// Re-send a captured webhook to a target URL
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const log = getWebhookLogById(id);
+  const denied = requireLogAccess(request, log);
+  if (denied) return denied;
+
+  let input: any;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const error = validateReplayInput(input);
+  if (error) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  const replay = await replayWebhookLog(log!, input.url, {
+    method: input.method,
+    headers: input.headers,
+    body: input.body,
+    includeQuery: input.includeQuery,
+  });
+
+  console.log(
+    `[Replay] ${replay.request.method} ${replay.request.url} -> ${
+      replay.response.statusCode ?? replay.response.error
+    } (${replay.response.durationMs}ms)`,
+  );
+
+  return NextResponse.json({ replay });
+}
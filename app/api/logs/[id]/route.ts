@@ -1,16 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { deleteWebhookLog } from "@/lib/store";
+import { deleteWebhookLog, getWebhookLogById } from "@/lib/store";
+import { requireLogAccess } from "@/lib/bins";
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  const deleted = deleteWebhookLog(id);
-  
-  if (deleted) {
-    return NextResponse.json({ message: "Log deleted successfully" });
-  } else {
-    return NextResponse.json({ message: "Log not found" }, { status: 404 });
-  }
+  const log = getWebhookLogById(id);
+
+  // Logs captured in a bin can only be deleted with the bin token
+  const denied = requireLogAccess(request, log);
+  if (denied) return denied;
+
+  deleteWebhookLog(id);
+  return NextResponse.json({ message: "Log deleted successfully" });
 }
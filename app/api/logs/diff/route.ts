@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookLogById } from "@/lib/store";
+import { requireLogAccess } from "@/lib/bins";
+import { diffWebhookLogs, parseIgnorePaths } from "@/lib/log-diff";
+
+// Structural diff of two captured webhooks: GET /api/logs/diff?a={id}&b={id}
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const aId = searchParams.get("a");
+  const bId = searchParams.get("b");
+  if (!aId || !bId) {
+    return NextResponse.json({ message: "a and b log ids are required" }, { status: 400 });
+  }
+
+  const a = getWebhookLogById(aId);
+  const b = getWebhookLogById(bId);
+  const denied = requireLogAccess(request, a) || requireLogAccess(request, b);
+  if (denied) return denied;
+
+  const summarize = (log: NonNullable<typeof a>) => ({
+    id: log.id,
+    timestamp: log.timestamp,
+    method: log.method,
+    path: log.path,
+    statusCode: log.statusCode,
+  });
+
+  return NextResponse.json({
+    a: summarize(a!),
+    b: summarize(b!),
+    ...diffWebhookLogs(a!, b!, parseIgnorePaths(searchParams)),
+  });
+}
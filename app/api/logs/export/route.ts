@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookLogs } from "@/lib/store";
+import { requireBinAccess } from "@/lib/bins";
+import { parseLogQuery, queryWebhookLogs } from "@/lib/log-query";
+import { EXPORT_FORMATS, exportWebhookLogs, type ExportFormat } from "@/lib/log-export";
+
+// Download the logs matching the list filters as HAR, NDJSON, Postman or curl
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const binId = searchParams.get("binId") || undefined;
+  if (binId) {
+    const denied = requireBinAccess(request, binId);
+    if (denied) return denied;
+  }
+
+  const format = (searchParams.get("format") || "har") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { message: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const { query, error } = parseLogQuery(searchParams);
+  if (error) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  const { logs } = queryWebhookLogs(getWebhookLogs(binId), query);
+  const exported = exportWebhookLogs(logs, format);
+  return new NextResponse(exported.body, {
+    headers: {
+      "Content-Type": exported.contentType,
+      "Content-Disposition": `attachment; filename="${exported.filename}"`,
+    },
+  });
+}
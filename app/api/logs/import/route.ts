@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireBinAccess } from "@/lib/bins";
+import { importWebhookLogs } from "@/lib/log-export";
+
+// Load a HAR archive, Postman collection or NDJSON export as new logs
+export async function POST(request: NextRequest) {
+  const binId = request.nextUrl.searchParams.get("binId") || undefined;
+  if (binId) {
+    const denied = requireBinAccess(request, binId);
+    if (denied) return denied;
+  }
+
+  const text = await request.text();
+  if (!text.trim()) {
+    return NextResponse.json({ message: "Request body is empty" }, { status: 400 });
+  }
+
+  const result = await importWebhookLogs(text, binId);
+  if ("error" in result) {
+    return NextResponse.json({ message: result.error }, { status: 400 });
+  }
+
+  console.log(`[Import] ${result.logs.length} logs from ${result.format} (${result.skipped} skipped)`);
+  return NextResponse.json(
+    { format: result.format, imported: result.logs.length, skipped: result.skipped },
+    { status: 201 },
+  );
+}
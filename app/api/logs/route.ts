@@ -1,12 +1,31 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getWebhookLogs, clearWebhookLogs } from "@/lib/store";
+import { requireBinAccess } from "@/lib/bins";
+import { parseLogQuery, queryWebhookLogs } from "@/lib/log-query";
 
-export async function GET() {
-  const logs = getWebhookLogs();
-  return NextResponse.json({ logs });
+export async function GET(request: NextRequest) {
+  const binId = request.nextUrl.searchParams.get("binId") || undefined;
+  if (binId) {
+    const denied = requireBinAccess(request, binId);
+    if (denied) return denied;
+  }
+
+  const { query, error } = parseLogQuery(request.nextUrl.searchParams);
+  if (error) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  const { logs, total, nextCursor } = queryWebhookLogs(getWebhookLogs(binId), query);
+  return NextResponse.json({ logs, total, nextCursor });
 }
 
-export async function DELETE() {
-  clearWebhookLogs();
+export async function DELETE(request: NextRequest) {
+  const binId = request.nextUrl.searchParams.get("binId") || undefined;
+  if (binId) {
+    const denied = requireBinAccess(request, binId);
+    if (denied) return denied;
+  }
+
+  clearWebhookLogs(binId);
   return NextResponse.json({ message: "Logs cleared successfully" });
 }
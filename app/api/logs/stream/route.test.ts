@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it } from "vitest";
+import { GET } from "./route";
+import { createBin, deleteBin } from "@/lib/bins";
+import { addWebhookLog, clearWebhookLogs, deleteWebhookLog, type WebhookLog } from "@/lib/store";
+
+// Helper function to build a stored log
+function makeLog(id: string, binId?: string): WebhookLog {
+  return {
+    id,
+    binId,
+    timestamp: new Date().toISOString(),
+    method: "POST",
+    path: "/webhooks/orders",
+    url: "http://localhost/webhooks/orders",
+    statusCode: 200,
+    headers: {},
+    queryParams: {},
+    body: null,
+  };
+}
+
+// Helper function to open the stream. readUntil reads it until the text contains `until`.
+async function openStream(query = "") {
+  const controller = new AbortController();
+  const response = await GET(new NextRequest(`http://localhost/api/logs/stream${query}`, { signal: controller.signal }));
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  const readUntil = async (until: string) => {
+    while (!text.includes(until)) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    return text;
+  };
+  return { response, readUntil, close: () => controller.abort() };
+}
+
+afterEach(() => {
+  clearWebhookLogs();
+});
+
+describe("GET /api/logs/stream", () => {
+  it("sends log changes as named events", async () => {
+    const stream = await openStream();
+    expect(stream.response.headers.get("content-type")).toBe("text/event-stream");
+    expect(await stream.readUntil("\n\n")).toBe("retry: 3000\n\n");
+
+    addWebhookLog(makeLog("a"));
+    deleteWebhookLog("a");
+    const text = await stream.readUntil("event: deleted");
+    stream.close();
+
+    expect(text).toContain('event: added\ndata: {"type":"added","log":{"id":"a"');
+    expect(text).toContain('event: deleted\ndata: {"type":"deleted","id":"a"}\n\n');
+  });
+
+  it("only sends events of the requested bin", async () => {
+    const bin = createBin();
+    const stream = await openStream(`?binId=${bin.id}&token=${bin.token}`);
+    addWebhookLog(makeLog("shared"));
+    addWebhookLog(makeLog("binned", bin.id));
+    const text = await stream.readUntil('"id":"binned"');
+    stream.close();
+
+    expect(text).not.toContain('"id":"shared"');
+    clearWebhookLogs(bin.id);
+    deleteBin(bin.id);
+  });
+
+  it("requires the bin token", async () => {
+    const bin = createBin();
+    const response = await GET(new NextRequest(`http://localhost/api/logs/stream?binId=${bin.id}`));
+    expect(response.status).toBe(401);
+    deleteBin(bin.id);
+  });
+});
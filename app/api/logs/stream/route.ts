@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import { requireBinAccess } from "@/lib/bins";
+import { getLogEventBinId, subscribeToLogEvents } from "@/lib/events";
+
+// Constants
+const HEARTBEAT_INTERVAL_MS = 15000; // Keeps proxies from closing idle connections
+const RECONNECT_DELAY_MS = 3000;
+
+export const dynamic = "force-dynamic";
+
+// Server-Sent Events stream of log changes. Each event is sent with its type
+// as the event name ("added", "deleted", "cleared") and the event as JSON data.
+// EventSource cannot send headers, so bins pass their token as ?token=.
+export async function GET(request: NextRequest) {
+  const binId = request.nextUrl.searchParams.get("binId") || undefined;
+  if (binId) {
+    const denied = requireBinAccess(request, binId);
+    if (denied) return denied;
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client disconnected; cleanup runs from the abort handler
+        }
+      };
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const unsubscribe = subscribeToLogEvents((event) => {
+        if (getLogEventBinId(event) !== binId) return;
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
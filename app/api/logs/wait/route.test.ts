@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+import { addWebhookLog, clearWebhookLogs, type WebhookLog } from "@/lib/store";
+
+// Helper function to build a stored log
+function makeLog(id: string, overrides: Partial<WebhookLog> = {}): WebhookLog {
+  return {
+    id,
+    timestamp: new Date().toISOString(),
+    method: "POST",
+    path: "/webhooks/orders",
+    url: "http://localhost/webhooks/orders",
+    statusCode: 200,
+    headers: {},
+    queryParams: {},
+    body: { type: "order.created" },
+    ...overrides,
+  };
+}
+
+// Helper function to call the wait endpoint with a query string
+const wait = (query: string) => GET(new NextRequest(`http://localhost/api/logs/wait?${query}`));
+
+afterEach(() => {
+  vi.useRealTimers();
+  clearWebhookLogs();
+});
+
+describe("GET /api/logs/wait", () => {
+  it("resolves with the next matching log", async () => {
+    const pending = wait("body.type=order.paid");
+    addWebhookLog(makeLog("created"));
+    addWebhookLog(makeLog("paid", { body: { type: "order.paid" } }));
+
+    const response = await pending;
+    expect(response.status).toBe(200);
+    expect((await response.json()).log.id).toBe("paid");
+  });
+
+  it("returns the earliest log received since the given time", async () => {
+    addWebhookLog(makeLog("old", { timestamp: "2024-01-01T00:00:00.000Z" }));
+    addWebhookLog(makeLog("first", { timestamp: "2024-01-02T00:00:00.000Z" }));
+    addWebhookLog(makeLog("second", { timestamp: "2024-01-03T00:00:00.000Z" }));
+
+    const response = await wait("since=2024-01-01T12:00:00Z");
+    expect((await response.json()).log.id).toBe("first");
+  });
+
+  it("answers 408 when nothing arrives in time", async () => {
+    vi.useFakeTimers();
+    const pending = wait("timeout=5");
+    await vi.advanceTimersByTimeAsync(5000);
+
+    const response = await pending;
+    expect(response.status).toBe(408);
+    expect(await response.json()).toEqual({ message: "No matching webhook received within 5 seconds" });
+  });
+
+  it("rejects invalid timeouts and filters", async () => {
+    expect((await wait("timeout=301")).status).toBe(400);
+    expect((await wait("status=abc")).status).toBe(400);
+  });
+});
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookLogs } from "@/lib/store";
+import { requireBinAccess } from "@/lib/bins";
+import { waitForLog } from "@/lib/events";
+import { matchesLogFilter, parseLogFilter } from "@/lib/log-query";
+
+// Constants
+const MIN_WAIT_SECONDS = 1;
+const MAX_WAIT_SECONDS = 300; // 5 minutes
+const DEFAULT_WAIT_SECONDS = 30;
+
+export const dynamic = "force-dynamic";
+
+// Helper function to validate and parse the wait timeout
+function validateWaitTimeout(timeoutParam: string | null): number | undefined {
+  if (!timeoutParam) return DEFAULT_WAIT_SECONDS;
+
+  const parsed = parseInt(timeoutParam, 10);
+  if (isNaN(parsed) || parsed < MIN_WAIT_SECONDS || parsed > MAX_WAIT_SECONDS) {
+    return undefined;
+  }
+  return parsed;
+}
+
+// Long-poll until a webhook matching the filters (same parameters as
+// GET /api/logs) is received. With `since`, a log that already arrived
+// after that time is returned immediately.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const binId = searchParams.get("binId") || undefined;
+  if (binId) {
+    const denied = requireBinAccess(request, binId);
+    if (denied) return denied;
+  }
+
+  const timeoutSeconds = validateWaitTimeout(searchParams.get("timeout"));
+  if (timeoutSeconds === undefined) {
+    return NextResponse.json(
+      { message: `timeout must be between ${MIN_WAIT_SECONDS} and ${MAX_WAIT_SECONDS} seconds` },
+      { status: 400 },
+    );
+  }
+
+  const { filter, error } = parseLogFilter(searchParams);
+  if (error) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  // Only look at past logs when the caller asked for them with `since`.
+  // Logs are newest first, so the earliest match is the last one found.
+  if (filter.since !== undefined) {
+    const existing = getWebhookLogs(binId)
+      .filter((log) => matchesLogFilter(log, filter))
+      .pop();
+    if (existing) {
+      return NextResponse.json({ log: existing });
+    }
+  }
+
+  const log = await waitForLog(
+    (candidate) => candidate.binId === binId && matchesLogFilter(candidate, filter),
+    timeoutSeconds * 1000,
+    request.signal,
+  );
+
+  if (!log) {
+    return NextResponse.json(
+      { message: `No matching webhook received within ${timeoutSeconds} seconds` },
+      { status: 408 },
+    );
+  }
+  return NextResponse.json({ log });
+}
@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { notificationResource } from "@/lib/notifications";
+
+export const { GET, PUT, DELETE } = createCrudHandlers(notificationResource).item;
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookLogById, getWebhookLogs, type WebhookLog } from "@/lib/store";
+import { requireBinAccess, requireLogAccess } from "@/lib/bins";
+import { getNotificationRuleById, sendNotification } from "@/lib/notifications";
+
+// Send a notification right away, ignoring the rule's criteria and throttle.
+// Uses the log given as `logId`, the newest log the rule watches, or a sample.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const rule = getNotificationRuleById(id);
+  if (!rule) {
+    return NextResponse.json({ message: "Notification rule not found" }, { status: 404 });
+  }
+  if (rule.binId) {
+    const denied = requireBinAccess(request, rule.binId);
+    if (denied) return denied;
+  }
+
+  let input: any = {};
+  const text = await request.text();
+  if (text) {
+    try {
+      input = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ message: "Invalid JSON body" }, { status: 400 });
+    }
+  }
+
+  let log: WebhookLog | undefined;
+  if (input.logId !== undefined) {
+    log = getWebhookLogById(String(input.logId));
+    const denied = requireLogAccess(request, log);
+    if (denied) return denied;
+  } else {
+    log = getWebhookLogs(rule.binId)[0];
+  }
+  log ??= {
+    id: "test",
+    binId: rule.binId,
+    timestamp: new Date().toISOString(),
+    method: "POST",
+    path: "/webhooks/test",
+    url: `${request.nextUrl.origin}/webhooks/test`,
+    statusCode: 200,
+    headers: { "content-type": "application/json" },
+    queryParams: {},
+    body: { message: "Test notification from mock-webhooks" },
+  };
+
+  const delivery = await sendNotification(rule, log, { test: true });
+  return NextResponse.json({ delivery });
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearNotificationHistory, getNotificationHistory } from "@/lib/notifications";
+
+// Sent and failed notifications, newest first (optionally ?ruleId=)
+export async function GET(request: NextRequest) {
+  const ruleId = request.nextUrl.searchParams.get("ruleId") || undefined;
+  return NextResponse.json({ history: getNotificationHistory(ruleId) });
+}
+
+export async function DELETE() {
+  clearNotificationHistory();
+  return NextResponse.json({ message: "Notification history cleared successfully" });
+}
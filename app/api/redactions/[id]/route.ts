@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { redactionResource } from "@/lib/redaction";
+
+export const { GET, PUT, DELETE } = createCrudHandlers(redactionResource).item;
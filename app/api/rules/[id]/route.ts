@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { ruleResource } from "@/lib/rules";
+
+export const { GET, PUT, DELETE } = createCrudHandlers(ruleResource).item;
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resetScenario } from "@/lib/scenarios";
+
+// Start a scenario's response sequence over
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const scenario = resetScenario(id);
+
+  if (!scenario) {
+    return NextResponse.json({ message: "Scenario not found" }, { status: 404 });
+  }
+  return NextResponse.json({ scenario });
+}
@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { scenarioResource } from "@/lib/scenarios";
+
+export const { GET, PUT, DELETE } = createCrudHandlers(scenarioResource).item;
@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { scenarioResource } from "@/lib/scenarios";
+
+export const { GET, POST } = createCrudHandlers(scenarioResource).collection;
@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { schemaResource } from "@/lib/schemas";
+
+export const { GET, POST } = createCrudHandlers(schemaResource).collection;
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookLogById } from "@/lib/store";
+import { requireLogAccess } from "@/lib/bins";
+import { sendWebhook, validateSendInput } from "@/lib/sender";
+
+// Deliver a webhook to a target URL, retrying according to the retry policy.
+// Responds with 202 right away, or once the delivery finishes with ?wait=true.
+export async function POST(request: NextRequest) {
+  let input: any;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const error = validateSendInput(input);
+  if (error) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  // Captured requests used as a template are subject to their bin's token
+  if (input.fromLogId) {
+    const denied = requireLogAccess(request, getWebhookLogById(input.fromLogId));
+    if (denied) return denied;
+  }
+
+  const { delivery, completion } = sendWebhook(input);
+
+  if (request.nextUrl.searchParams.get("wait") === "true") {
+    return NextResponse.json({ delivery: await completion });
+  }
+
+  return NextResponse.json({ delivery }, { status: 202 });
+}
@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { signatureResource } from "@/lib/signatures";
+
+export const { GET, POST } = createCrudHandlers(signatureResource).collection;
@@ -0,0 +1,4 @@
+import { createCrudHandlers } from "@/lib/crud";
+import { mockSpecResource } from "@/lib/openapi";
+
+export const { GET, PUT, DELETE } = createCrudHandlers(mockSpecResource).item;
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { DiffChange } from "@/lib/log-diff";
+
+const DIFF_IGNORE_STORAGE_KEY = "mock-webhooks:diff-ignore";
+
+interface DiffPanelProps {
+  baseLogId: string; // Earlier capture ("a")
+  logId: string; // Capture compared against it ("b")
+  binToken?: string; // Token of the bin the logs belong to, if any
+  onClose: () => void;
+}
+
+interface DiffSummary {
+  id: string;
+  timestamp: string;
+  method: string;
+  path: string;
+}
+
+interface DiffResult {
+  a: DiffSummary;
+  b: DiffSummary;
+  identical: boolean;
+  changes: DiffChange[];
+  truncated?: boolean;
+}
+
+export default function DiffPanel({ baseLogId, logId, binToken, onClose }: DiffPanelProps) {
+  const [ignore, setIgnore] = useState("");
+  const [ignoreLoaded, setIgnoreLoaded] = useState(false);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIgnore(localStorage.getItem(DIFF_IGNORE_STORAGE_KEY) || "");
+    setIgnoreLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!ignoreLoaded) return;
+    localStorage.setItem(DIFF_IGNORE_STORAGE_KEY, ignore);
+
+    // Debounced so typing an ignore path does not refetch on every key
+    const timer = setTimeout(async () => {
+      const query = new URLSearchParams({ a: baseLogId, b: logId });
+      if (ignore.trim()) query.set("ignore", ignore);
+      try {
+        const response = await fetch(`/api/logs/diff?${query}`, {
+          headers: binToken ? { "x-bin-token": binToken } : {},
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.message || "Diff failed");
+          setDiff(null);
+          return;
+        }
+        setError(null);
+        setDiff(data);
+      } catch (error) {
+        console.error("Error diffing logs:", error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [baseLogId, logId, binToken, ignore, ignoreLoaded]);
+
+  const formatValue = (value: any) =>
+    value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value);
+
+  const kindStyles: Record<DiffChange["kind"], string> = {
+    added: "bg-green-50 text-green-800",
+    removed: "bg-red-50 text-red-800",
+    changed: "bg-amber-50 text-amber-800",
+  };
+  const kindSymbols: Record<DiffChange["kind"], string> = {
+    added: "+",
+    removed: "−",
+    changed: "~",
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">Compare</h3>
+        <button
+          onClick={onClose}
+          className="text-xs text-slate-500 hover:text-slate-700 cursor-pointer"
+        >
+          ✕ Close
+        </button>
+      </div>
+      {diff && (
+        <div className="text-xs text-slate-600 mb-2 space-y-0.5">
+          <div className="truncate">
+            <span className="font-semibold">A</span> {diff.a.method} {diff.a.path} •{" "}
+            {new Date(diff.a.timestamp).toLocaleString()}
+          </div>
+          <div className="truncate">
+            <span className="font-semibold">B</span> {diff.b.method} {diff.b.path} •{" "}
+            {new Date(diff.b.timestamp).toLocaleString()}
+          </div>
+        </div>
+      )}
+      <input
+        type="text"
+        value={ignore}
+        onChange={(e) => setIgnore(e.target.value)}
+        placeholder="Ignore paths, e.g. body.**.id, body.created_at, headers.*-signature"
+        className="w-full px-3 py-2 border border-slate-300 rounded-lg text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {diff && diff.identical && (
+        <p className="mt-3 text-xs text-green-700 font-medium">
+          No differences in body, headers or query parameters
+        </p>
+      )}
+      {diff && !diff.identical && (
+        <div className="mt-3 rounded-lg border border-slate-200 overflow-hidden">
+          {diff.changes.map((change) => (
+            <div
+              key={change.path}
+              className={`px-3 py-1.5 text-xs font-mono border-b border-slate-100 last:border-b-0 ${kindStyles[change.kind]}`}
+            >
+              <div className="font-semibold break-all">
+                {kindSymbols[change.kind]} {change.path}
+              </div>
+              {change.kind !== "added" && (
+                <div className="break-all opacity-80">A: {formatValue(change.before)}</div>
+              )}
+              {change.kind !== "removed" && (
+                <div className="break-all">B: {formatValue(change.after)}</div>
+              )}
+            </div>
+          ))}
+          {diff.truncated && (
+            <div className="px-3 py-1.5 text-xs text-slate-500">… more changes not shown</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
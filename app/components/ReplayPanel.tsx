@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import type { ReplayRecord } from "@/lib/replay";
+
+const REPLAY_URL_STORAGE_KEY = "mock-webhooks:replay-url";
+
+interface ReplayPanelProps {
+  logId: string;
+  binToken?: string; // Token of the bin the log belongs to, if any
+}
+
+export default function ReplayPanel({ logId, binToken }: ReplayPanelProps) {
+  const [targetUrl, setTargetUrl] = useState("");
+  const [replays, setReplays] = useState<ReplayRecord[]>([]);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const binHeaders: Record<string, string> = binToken ? { "x-bin-token": binToken } : {};
+
+  const fetchReplays = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/logs/${logId}/replay`, {
+        headers: binToken ? { "x-bin-token": binToken } : {},
+      });
+      const data = await response.json();
+      setReplays(data.replays || []);
+    } catch (error) {
+      console.error("Error fetching replays:", error);
+    }
+  }, [logId, binToken]);
+
+  useEffect(() => {
+    setTargetUrl(localStorage.getItem(REPLAY_URL_STORAGE_KEY) || "http://localhost:8080/webhook");
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+    fetchReplays();
+  }, [fetchReplays]);
+
+  const replay = async () => {
+    setSending(true);
+    setError(null);
+    localStorage.setItem(REPLAY_URL_STORAGE_KEY, targetUrl);
+    try {
+      const response = await fetch(`/api/logs/${logId}/replay`, {
+        method: "POST",
+        headers: { ...binHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ url: targetUrl }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || "Replay failed");
+        return;
+      }
+      setReplays((prev) => [data.replay, ...prev]);
+    } catch (error) {
+      console.error("Error replaying request:", error);
+      setError(error instanceof Error ? error.message : "Replay failed");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const getResultColor = (statusCode: number | null) => {
+    if (statusCode === null) return "text-red-700";
+    if (statusCode >= 200 && statusCode < 300) return "text-green-700";
+    if (statusCode >= 400) return "text-red-700";
+    return "text-blue-700";
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide">
+        Replay
+      </h3>
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={targetUrl}
+          onChange={(e) => setTargetUrl(e.target.value)}
+          placeholder="http://localhost:8080/webhook"
+          className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={replay}
+          disabled={sending || !targetUrl}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium text-sm cursor-pointer disabled:opacity-50"
+        >
+          {sending ? "Sending..." : "↪ Replay"}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {replays.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {replays.map((record) => (
+            <details key={record.id} className="bg-slate-50 rounded-lg border border-slate-200">
+              <summary className="px-3 py-2 cursor-pointer text-xs flex justify-between gap-2">
+                <span className="font-mono text-slate-700 truncate">
+                  {record.request.method} {record.request.url}
+                </span>
+                <span className={`font-semibold shrink-0 ${getResultColor(record.response.statusCode)}`}>
+                  {record.response.statusCode ?? record.response.error} • {record.response.durationMs}ms
+                </span>
+              </summary>
+              <div className="px-3 pb-3 space-y-2">
+                <div className="text-[10px] text-slate-500">
+                  {new Date(record.timestamp).toLocaleString()}
+                </div>
+                {Object.keys(record.response.headers).length > 0 && (
+                  <pre className="bg-slate-900 text-slate-100 p-2 rounded text-xs overflow-x-auto">
+                    {JSON.stringify(record.response.headers, null, 2)}
+                  </pre>
+                )}
+                <pre className="bg-slate-900 text-slate-100 p-2 rounded text-xs overflow-x-auto max-h-64">
+                  {record.response.body || "(empty body)"}
+                  {record.response.bodyTruncated && "\n… (truncated)"}
+                </pre>
+              </div>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
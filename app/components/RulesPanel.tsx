@@ -0,0 +1,373 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import type { ResponseRule, RuleBodyType } from "@/lib/rules";
+
+const METHODS = ["*", "GET", "POST", "PUT", "PATCH", "DELETE"];
+
+interface RuleForm {
+  name: string;
+  method: string;
+  path: string;
+  matchHeaders: string;
+  matchQuery: string;
+  matchBody: string;
+  statusCode: string;
+  bodyType: RuleBodyType;
+  responseHeaders: string;
+  responseBody: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  method: "*",
+  path: "/webhooks/**",
+  matchHeaders: "",
+  matchQuery: "",
+  matchBody: "",
+  statusCode: "200",
+  bodyType: "json",
+  responseHeaders: "",
+  responseBody: '{\n  "ok": true\n}',
+};
+
+// Helper function to parse an optional JSON object textarea
+function parseJsonField(label: string, value: string): Record<string, any> | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = JSON.parse(value);
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${label} must be a JSON object`);
+  }
+  return parsed;
+}
+
+// Helper function to pretty-print an optional object for a textarea
+function formatJsonField(value?: Record<string, any>): string {
+  return value && Object.keys(value).length > 0 ? JSON.stringify(value, null, 2) : "";
+}
+
+function toForm(rule: ResponseRule): RuleForm {
+  return {
+    name: rule.name,
+    method: rule.match.method || "*",
+    path: rule.match.path || "",
+    matchHeaders: formatJsonField(rule.match.headers),
+    matchQuery: formatJsonField(rule.match.query),
+    matchBody: formatJsonField(rule.match.body),
+    statusCode: String(rule.response.statusCode),
+    bodyType: rule.response.bodyType,
+    responseHeaders: formatJsonField(rule.response.headers),
+    responseBody:
+      rule.response.bodyType === "json"
+        ? JSON.stringify(rule.response.body ?? null, null, 2)
+        : rule.response.body ?? "",
+  };
+}
+
+export default function RulesPanel() {
+  const [rules, setRules] = useState<ResponseRule[]>([]);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/rules");
+      const data = await response.json();
+      setRules(data.rules || []);
+    } catch (error) {
+      console.error("Error fetching rules:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const updateForm = (field: keyof RuleForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const saveRule = async () => {
+    let payload;
+    try {
+      payload = {
+        name: form.name,
+        match: {
+          method: form.method === "*" ? undefined : form.method,
+          path: form.path || undefined,
+          headers: parseJsonField("Match headers", form.matchHeaders),
+          query: parseJsonField("Match query", form.matchQuery),
+          body: parseJsonField("Match body", form.matchBody),
+        },
+        response: {
+          statusCode: parseInt(form.statusCode, 10),
+          bodyType: form.bodyType,
+          headers: parseJsonField("Response headers", form.responseHeaders),
+          body:
+            form.bodyType === "json"
+              ? form.responseBody.trim()
+                ? JSON.parse(form.responseBody)
+                : null
+              : form.responseBody,
+        },
+      };
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Invalid JSON");
+      return;
+    }
+
+    try {
+      const response = await fetch(editingId ? `/api/rules/${editingId}` : "/api/rules", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || "Failed to save rule");
+        return;
+      }
+      resetForm();
+      fetchRules();
+    } catch (error) {
+      console.error("Error saving rule:", error);
+    }
+  };
+
+  const toggleRule = async (rule: ResponseRule) => {
+    try {
+      await fetch(`/api/rules/${rule.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...rule, enabled: !rule.enabled }),
+      });
+      fetchRules();
+    } catch (error) {
+      console.error("Error updating rule:", error);
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    if (confirm("Are you sure you want to delete this rule?")) {
+      try {
+        await fetch(`/api/rules/${id}`, { method: "DELETE" });
+        if (editingId === id) resetForm();
+        fetchRules();
+      } catch (error) {
+        console.error("Error deleting rule:", error);
+      }
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const textareaClass = `${inputClass} font-mono text-xs`;
+  const labelClass = "block text-xs font-medium text-slate-600 mb-1";
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 mb-6">
+      <div className="p-4 border-b border-slate-200 bg-slate-50">
+        <h2 className="text-lg font-semibold text-slate-900">Response Rules</h2>
+        <p className="text-xs text-slate-500">
+          Matching requests get the rule&apos;s response instead of the default JSON envelope.
+          Rules are evaluated by priority; the first match wins.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4">
+        {/* Rules List */}
+        <div>
+          {rules.length === 0 ? (
+            <p className="text-sm text-slate-500">No rules configured yet</p>
+          ) : (
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {rules.map((rule) => (
+                <div key={rule.id} className="p-2 flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-slate-800 truncate">
+                      {rule.name}
+                    </div>
+                    <div className="text-xs font-mono text-slate-500 truncate">
+                      {rule.match.method || "*"} {rule.match.path || "/webhooks/**"} →{" "}
+                      {rule.response.statusCode} {rule.response.bodyType}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => toggleRule(rule)}
+                      className={`px-2 py-1 rounded text-xs font-medium cursor-pointer ${
+                        rule.enabled
+                          ? "bg-green-100 text-green-700"
+                          : "bg-slate-100 text-slate-500"
+                      }`}
+                    >
+                      {rule.enabled ? "Enabled" : "Disabled"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setForm(toForm(rule));
+                        setEditingId(rule.id);
+                        setError(null);
+                      }}
+                      className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule.id)}
+                      className="text-xs text-red-600 hover:text-red-700 cursor-pointer"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Rule Form */}
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label className={labelClass}>Name</label>
+              <input
+                value={form.name}
+                onChange={(e) => updateForm("name", e.target.value)}
+                className={inputClass}
+                placeholder="Orders API success"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Method</label>
+              <select
+                value={form.method}
+                onChange={(e) => updateForm("method", e.target.value)}
+                className={inputClass}
+              >
+                {METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {method === "*" ? "Any" : method}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Path glob</label>
+            <input
+              value={form.path}
+              onChange={(e) => updateForm("path", e.target.value)}
+              className={`${inputClass} font-mono`}
+              placeholder="/webhooks/orders/*"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Match headers</label>
+              <textarea
+                value={form.matchHeaders}
+                onChange={(e) => updateForm("matchHeaders", e.target.value)}
+                className={textareaClass}
+                rows={3}
+                placeholder='{"x-event": "created"}'
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Match query</label>
+              <textarea
+                value={form.matchQuery}
+                onChange={(e) => updateForm("matchQuery", e.target.value)}
+                className={textareaClass}
+                rows={3}
+                placeholder='{"env": "test"}'
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Match body fields</label>
+              <textarea
+                value={form.matchBody}
+                onChange={(e) => updateForm("matchBody", e.target.value)}
+                className={textareaClass}
+                rows={3}
+                placeholder='{"data.status": "PAID"}'
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Status code</label>
+              <input
+                type="number"
+                value={form.statusCode}
+                onChange={(e) => updateForm("statusCode", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Body type</label>
+              <select
+                value={form.bodyType}
+                onChange={(e) => updateForm("bodyType", e.target.value)}
+                className={inputClass}
+              >
+                <option value="json">JSON</option>
+                <option value="text">Text</option>
+                <option value="xml">XML</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Response headers</label>
+              <textarea
+                value={form.responseHeaders}
+                onChange={(e) => updateForm("responseHeaders", e.target.value)}
+                className={textareaClass}
+                rows={1}
+                placeholder='{"x-mock": "1"}'
+              />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>
+              Response body{" "}
+              <span className="font-normal text-slate-400">
+                (templates: {"{{body.eventId}}"}, {"{{query.x}}"}, {"{{headers.x-request-id}}"},{" "}
+                {"{{path.0}}"}, {"{{uuid}}"}, {"{{now}}"})
+              </span>
+            </label>
+            <textarea
+              value={form.responseBody}
+              onChange={(e) => updateForm("responseBody", e.target.value)}
+              className={textareaClass}
+              rows={5}
+            />
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={saveRule}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium text-sm cursor-pointer"
+            >
+              {editingId ? "Update Rule" : "Add Rule"}
+            </button>
+            {editingId && (
+              <button
+                onClick={resetForm}
+                className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition font-medium text-sm cursor-pointer"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
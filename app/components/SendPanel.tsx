@@ -0,0 +1,443 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import type { Delivery, DeliveryStatus } from "@/lib/sender";
+import type { SignatureScheme } from "@/lib/signatures";
+import type { Fixture } from "@/lib/fixtures";
+
+const SEND_URL_STORAGE_KEY = "mock-webhooks:send-url";
+const METHODS = ["POST", "PUT", "PATCH", "DELETE", "GET"];
+const SCHEMES: SignatureScheme[] = ["github", "stripe", "shopify", "slack", "hmac-sha256", "hmac-sha1"];
+
+interface SendForm {
+  fixtureId: string;
+  url: string;
+  method: string;
+  headers: string;
+  body: string;
+  scheme: SignatureScheme | "";
+  secret: string;
+  maxAttempts: string;
+  initialDelayMs: string;
+  backoffFactor: string;
+  retryOn: string;
+  useTemplate: boolean;
+}
+
+const EMPTY_FORM: SendForm = {
+  fixtureId: "",
+  url: "",
+  method: "POST",
+  headers: "",
+  body: '{\n  "event": "test.created"\n}',
+  scheme: "",
+  secret: "",
+  maxAttempts: "3",
+  initialDelayMs: "1000",
+  backoffFactor: "2",
+  retryOn: "408, 429, 5xx",
+  useTemplate: false,
+};
+
+interface SendPanelProps {
+  templateLog?: { id: string; method: string; path: string } | null; // Selected request
+  binToken?: string; // Token of the bin the template log belongs to, if any
+}
+
+// Helper function to resolve a /webhooks path against this dashboard's origin
+function resolveTargetUrl(target: string): string {
+  return target.startsWith("/") ? `${window.location.origin}${target}` : target;
+}
+
+// Helper function to parse the comma-separated retry-on list
+function parseRetryOn(value: string): (number | string)[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => (/^\d+$/.test(entry) ? parseInt(entry, 10) : entry));
+}
+
+const STATUS_COLORS: Record<DeliveryStatus, string> = {
+  pending: "bg-slate-100 text-slate-700",
+  retrying: "bg-yellow-100 text-yellow-800",
+  succeeded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+export default function SendPanel({ templateLog, binToken }: SendPanelProps) {
+  const [form, setForm] = useState<SendForm>(EMPTY_FORM);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [fixtures, setFixtures] = useState<Fixture[]>([]);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await fetch("/api/deliveries");
+      const data = await response.json();
+      setDeliveries(data.deliveries || []);
+    } catch (error) {
+      console.error("Error fetching deliveries:", error);
+    }
+  }, []);
+
+  const fetchFixtures = useCallback(async () => {
+    try {
+      const response = await fetch("/api/fixtures");
+      const data = await response.json();
+      setFixtures(data.fixtures || []);
+    } catch (error) {
+      console.error("Error fetching fixtures:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFixtures();
+  }, [fetchFixtures]);
+
+  useEffect(() => {
+    setForm((prev) => ({
+      ...prev,
+      url: localStorage.getItem(SEND_URL_STORAGE_KEY) || "http://localhost:8080/webhook",
+    }));
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  // Keep polling while deliveries are still being retried
+  const inFlight = deliveries.some((d) => d.status === "pending" || d.status === "retrying");
+  useEffect(() => {
+    if (!inFlight) return;
+    const interval = setInterval(fetchDeliveries, 1000);
+    return () => clearInterval(interval);
+  }, [inFlight, fetchDeliveries]);
+
+  const updateForm = (field: keyof SendForm, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const fixture = fixtures.find((f) => f.id === form.fixtureId);
+  const providers = Array.from(new Set(fixtures.map((f) => f.provider)));
+
+  const send = async () => {
+    const useTemplate = form.useTemplate && !!templateLog && !fixture;
+    let payload;
+    try {
+      const headers = form.headers.trim() ? JSON.parse(form.headers) : undefined;
+      if (headers !== undefined && (typeof headers !== "object" || Array.isArray(headers))) {
+        throw new Error("Headers must be a JSON object");
+      }
+      const retry = {
+        maxAttempts: parseInt(form.maxAttempts, 10),
+        initialDelayMs: parseInt(form.initialDelayMs, 10),
+        backoffFactor: parseFloat(form.backoffFactor),
+        retryOn: parseRetryOn(form.retryOn),
+      };
+      // Fixtures are generated and signed server-side; /webhooks paths are
+      // sent to this server
+      payload = fixture
+        ? {
+            path: form.url.startsWith("/") ? form.url : undefined,
+            url: form.url.startsWith("/") ? undefined : form.url,
+            headers,
+            secret: form.secret || undefined,
+            retry,
+          }
+        : {
+            url: resolveTargetUrl(form.url),
+            method: useTemplate ? undefined : form.method,
+            headers,
+            // With a template, an empty body keeps the captured one
+            body: form.body.trim() ? JSON.parse(form.body) : useTemplate ? undefined : null,
+            fromLogId: useTemplate ? templateLog!.id : undefined,
+            signing: form.scheme ? { scheme: form.scheme, secret: form.secret } : undefined,
+            retry,
+          };
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Invalid JSON");
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+    localStorage.setItem(SEND_URL_STORAGE_KEY, form.url);
+    try {
+      const response = await fetch(fixture ? `/api/fixtures/${fixture.id}/send` : "/api/send", {
+        method: "POST",
+        headers: {
+          ...(useTemplate && binToken ? { "x-bin-token": binToken } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || "Send failed");
+        return;
+      }
+      setDeliveries((prev) => [data.delivery, ...prev]);
+    } catch (error) {
+      console.error("Error sending webhook:", error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const getAttemptColor = (statusCode: number | null) => {
+    if (statusCode === null) return "text-red-700";
+    if (statusCode >= 200 && statusCode < 300) return "text-green-700";
+    if (statusCode >= 400) return "text-red-700";
+    return "text-blue-700";
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const textareaClass = `${inputClass} font-mono text-xs`;
+  const labelClass = "block text-xs font-medium text-slate-600 mb-1";
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 mb-6">
+      <div className="p-4 border-b border-slate-200 bg-slate-50">
+        <h2 className="text-lg font-semibold text-slate-900">Send Webhook</h2>
+        <p className="text-xs text-slate-500">
+          Deliver a payload or a provider fixture to your own receiver with optional signing.
+          Failed attempts are retried with exponential backoff.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-4">
+        {/* Send Form */}
+        <div className="space-y-3">
+          <div>
+            <label className={labelClass}>Fixture</label>
+            <select
+              value={form.fixtureId}
+              onChange={(e) => updateForm("fixtureId", e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Custom payload</option>
+              {providers.map((provider) => (
+                <optgroup key={provider} label={provider}>
+                  {fixtures
+                    .filter((f) => f.provider === provider)
+                    .map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.name}
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+            {fixture && <p className="mt-1 text-xs text-slate-500">{fixture.description}</p>}
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            <div>
+              <label className={labelClass}>Method</label>
+              <select
+                value={fixture ? fixture.method : form.method}
+                onChange={(e) => updateForm("method", e.target.value)}
+                disabled={!!fixture || (form.useTemplate && !!templateLog)}
+                className={inputClass}
+              >
+                {METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-3">
+              <label className={labelClass}>Target URL or /webhooks path</label>
+              <input
+                type="text"
+                value={form.url}
+                onChange={(e) => updateForm("url", e.target.value)}
+                className={`${inputClass} font-mono`}
+                placeholder="http://localhost:8080/webhook"
+              />
+            </div>
+          </div>
+          {templateLog && !fixture && (
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={form.useTemplate}
+                onChange={(e) => updateForm("useTemplate", e.target.checked)}
+              />
+              Use selected request as template{" "}
+              <span className="font-mono text-slate-500 truncate">
+                ({templateLog.method} {templateLog.path})
+              </span>
+            </label>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Headers</label>
+              <textarea
+                value={form.headers}
+                onChange={(e) => updateForm("headers", e.target.value)}
+                className={textareaClass}
+                rows={5}
+                placeholder='{"x-event": "created"}'
+              />
+            </div>
+            <div>
+              <label className={labelClass}>
+                Body{" "}
+                {fixture ? (
+                  <span className="font-normal text-slate-400">(ids and timestamps regenerated on send)</span>
+                ) : (
+                  form.useTemplate &&
+                  templateLog && (
+                    <span className="font-normal text-slate-400">(empty keeps captured body)</span>
+                  )
+                )}
+              </label>
+              <textarea
+                value={fixture ? JSON.stringify(fixture.body, null, 2) : form.body}
+                onChange={(e) => updateForm("body", e.target.value)}
+                readOnly={!!fixture}
+                className={textareaClass}
+                rows={5}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Signing</label>
+              {fixture ? (
+                <input
+                  value={fixture.signatureScheme || "None"}
+                  readOnly
+                  className={`${inputClass} bg-slate-50`}
+                />
+              ) : (
+                <select
+                  value={form.scheme}
+                  onChange={(e) => updateForm("scheme", e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">None</option>
+                  {SCHEMES.map((scheme) => (
+                    <option key={scheme} value={scheme}>
+                      {scheme}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div>
+              <label className={labelClass}>Secret</label>
+              <input
+                value={form.secret}
+                onChange={(e) => updateForm("secret", e.target.value)}
+                disabled={fixture ? !fixture.signatureScheme : !form.scheme}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            <div>
+              <label className={labelClass}>Max attempts</label>
+              <input
+                type="number"
+                value={form.maxAttempts}
+                onChange={(e) => updateForm("maxAttempts", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Initial delay (ms)</label>
+              <input
+                type="number"
+                value={form.initialDelayMs}
+                onChange={(e) => updateForm("initialDelayMs", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Backoff factor</label>
+              <input
+                type="number"
+                value={form.backoffFactor}
+                onChange={(e) => updateForm("backoffFactor", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Retry on</label>
+              <input
+                value={form.retryOn}
+                onChange={(e) => updateForm("retryOn", e.target.value)}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <button
+            onClick={send}
+            disabled={sending || !form.url}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium text-sm cursor-pointer disabled:opacity-50"
+          >
+            {sending ? "Sending..." : "📤 Send"}
+          </button>
+        </div>
+
+        {/* Delivery Log */}
+        <div>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-slate-500">No deliveries yet</p>
+          ) : (
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {deliveries.map((delivery) => (
+                <details key={delivery.id} className="bg-slate-50 rounded-lg border border-slate-200">
+                  <summary className="px-3 py-2 cursor-pointer text-xs flex justify-between gap-2">
+                    <span className="font-mono text-slate-700 truncate">
+                      {delivery.request.method} {delivery.request.url}
+                    </span>
+                    <span className="flex items-center gap-2 shrink-0">
+                      <span className="text-slate-500">
+                        {delivery.attempts.length}/{delivery.retry.maxAttempts}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded font-semibold ${STATUS_COLORS[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                    </span>
+                  </summary>
+                  <div className="px-3 pb-3 space-y-2">
+                    <div className="text-[10px] text-slate-500">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                      {delivery.signingScheme && ` • signed (${delivery.signingScheme})`}
+                      {delivery.nextAttemptAt &&
+                        ` • next attempt ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                    </div>
+                    {delivery.attempts.map((attempt) => (
+                      <div key={attempt.number} className="border-t border-slate-200 pt-2">
+                        <div className="text-xs flex justify-between gap-2">
+                          <span className="text-slate-600">
+                            Attempt {attempt.number} •{" "}
+                            {new Date(attempt.timestamp).toLocaleTimeString()}
+                          </span>
+                          <span className={`font-semibold ${getAttemptColor(attempt.response.statusCode)}`}>
+                            {attempt.response.statusCode ?? attempt.response.error} •{" "}
+                            {attempt.response.durationMs}ms
+                          </span>
+                        </div>
+                        {attempt.response.body && (
+                          <pre className="mt-1 bg-slate-900 text-slate-100 p-2 rounded text-xs overflow-x-auto max-h-32">
+                            {attempt.response.body}
+                            {attempt.response.bodyTruncated && "\n… (truncated)"}
+                          </pre>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+
+// Sign-in form shown when access control is enabled (see lib/auth)
+export default function LoginPage() {
+  const [apiKey, setApiKey] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || "Sign-in failed");
+        return;
+      }
+      window.location.href = "/";
+    } catch (error) {
+      console.error("Error signing in:", error);
+      setError("Sign-in failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 flex items-center justify-center p-6">
+      <form
+        onSubmit={signIn}
+        className="w-full max-w-sm bg-white rounded-lg shadow-sm border border-slate-200 p-6"
+      >
+        <h1 className="text-2xl font-bold text-slate-900 mb-1">Webhook Logs</h1>
+        <p className="text-sm text-slate-500 mb-4">Sign in with an admin or read-only API key</p>
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key"
+          autoFocus
+          className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting || !apiKey}
+          className="mt-4 w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium text-sm cursor-pointer disabled:opacity-50"
+        >
+          {submitting ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,33 +1,136 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
+import RulesPanel from "./components/RulesPanel";
+import SendPanel from "./components/SendPanel";
+import ReplayPanel from "./components/ReplayPanel";
+import DiffPanel from "./components/DiffPanel";
 
 interface WebhookLog {
   id: string;
+  binId?: string;
   timestamp: string;
   method: string;
   path: string;
   url: string;
-  statusCode: number;
+  statusCode?: number; // Unset when chaos dropped or reset the connection
+  signature?: {
+    scheme: string;
+    valid: boolean;
+    reason?: string;
+  };
+  validation?: {
+    schemaId: string;
+    valid: boolean;
+    errors: { pointer: string; keyword: string; message: string }[];
+  };
+  forward?: {
+    configId: string;
+    url: string;
+    response: {
+      statusCode: number | null;
+      headers: Record<string, string>;
+      body: string | null;
+      bodyTruncated?: boolean;
+      durationMs: number;
+      error?: string;
+    };
+  };
+  handshake?: {
+    provider: string;
+    configId?: string;
+    challenge: string;
+    verified: boolean;
+  };
+  idempotencyKey?: string;
+  deliveryCount?: number;
+  duplicateOf?: string;
+  scenario?: {
+    scenarioId: string;
+    call: number;
+    step: number;
+    totalSteps: number;
+  };
+  mock?: {
+    specId: string;
+    operationId?: string;
+    pathTemplate?: string;
+    valid: boolean;
+    errors: { pointer: string; keyword: string; message: string }[];
+    error?: string;
+  };
+  chaos?: {
+    seed?: string;
+    sequence?: number;
+    latencyMs?: number;
+    failed: boolean;
+    fail?: string;
+    slow?: { delayMs: number; chunkSize: number };
+  };
   timeout?: number;
   startTime?: string;
   endTime?: string;
   headers: Record<string, string>;
   queryParams: Record<string, string>;
   body: any;
+  bodySize?: number;
+  rawBodyBlob?: string;
+  files?: {
+    field: string;
+    filename: string;
+    contentType: string;
+    size: number;
+    blob?: string;
+  }[];
+  redaction?: {
+    ruleIds: string[];
+    fields: string[];
+  };
+}
+
+// Bin created from this browser (the token is only known client-side)
+interface SavedBin {
+  id: string;
+  name: string;
+  token: string;
 }
 
+const BINS_STORAGE_KEY = "mock-webhooks:bins";
+const ACTIVE_BIN_STORAGE_KEY = "mock-webhooks:active-bin";
+
 export default function LogsPage() {
   const [logs, setLogs] = useState<WebhookLog[]>([]);
+  const [bins, setBins] = useState<SavedBin[]>([]);
+  const [activeBinId, setActiveBinId] = useState<string | null>(null);
+  const [binsLoaded, setBinsLoaded] = useState(false);
   const [loading, setLoading] = useState(true);
   const [selectedLog, setSelectedLog] = useState<WebhookLog | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [groupDuplicates, setGroupDuplicates] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [showRules, setShowRules] = useState(false);
+  const [showSend, setShowSend] = useState(false);
+  const [compareLogId, setCompareLogId] = useState<string | null>(null); // Base log of the compare view
+  const [liveMode, setLiveMode] = useState<"stream" | "polling" | null>(null);
+  const [session, setSession] = useState<{ enabled: boolean; role: "admin" | "read" | null } | null>(null);
+
+  const activeBin = bins.find((bin) => bin.id === activeBinId) || null;
+
+  // Query string and headers scoping API calls to the active bin
+  const binQuery = activeBin ? `?binId=${encodeURIComponent(activeBin.id)}` : "";
+  const binHeaders: Record<string, string> = activeBin
+    ? { "x-bin-token": activeBin.token }
+    : {};
 
   const fetchLogs = useCallback(async () => {
     try {
-      const response = await fetch("/api/logs");
+      const response = await fetch(`/api/logs${binQuery}`, {
+        headers: binHeaders,
+      });
       const data = await response.json();
+      if (!response.ok) {
+        console.error("Error fetching logs:", data.message);
+      }
       setLogs(data.logs || []);
       setSelectedLog((prev) => {
         if (data.logs && data.logs.length > 0 && !prev) {
@@ -40,12 +143,102 @@ export default function LogsPage() {
     } finally {
       setLoading(false);
     }
+  }, [activeBin]);
+
+  // Role of the signed-in user when access control is enabled
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => response.json())
+      .then(setSession)
+      .catch((error) => console.error("Error fetching session:", error));
+  }, []);
+
+  const canModify = session?.role !== "read";
+
+  const signOut = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+      window.location.href = "/login";
+    } catch (error) {
+      console.error("Error signing out:", error);
+    }
+  };
+
+  // Restore the bins created from this browser
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(BINS_STORAGE_KEY) || "[]");
+      setBins(Array.isArray(saved) ? saved : []);
+      setActiveBinId(localStorage.getItem(ACTIVE_BIN_STORAGE_KEY));
+    } catch (error) {
+      console.error("Error restoring bins:", error);
+    } finally {
+      setBinsLoaded(true);
+    }
   }, []);
 
+  const saveBins = (nextBins: SavedBin[], nextActiveBinId: string | null) => {
+    setBins(nextBins);
+    setActiveBinId(nextActiveBinId);
+    localStorage.setItem(BINS_STORAGE_KEY, JSON.stringify(nextBins));
+    if (nextActiveBinId) {
+      localStorage.setItem(ACTIVE_BIN_STORAGE_KEY, nextActiveBinId);
+    } else {
+      localStorage.removeItem(ACTIVE_BIN_STORAGE_KEY);
+    }
+  };
+
+  const selectBin = (binId: string | null) => {
+    setLogs([]);
+    setSelectedLog(null);
+    setCompareLogId(null);
+    setLoading(true);
+    saveBins(bins, binId);
+  };
+
+  const createBin = async () => {
+    const name = prompt("Bin name (optional):");
+    if (name === null) return;
+    try {
+      const response = await fetch("/api/bins", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+      const { id, name: binName, token } = data.bin;
+      setLogs([]);
+      setSelectedLog(null);
+      saveBins([...bins, { id, name: binName, token }], id);
+    } catch (error) {
+      console.error("Error creating bin:", error);
+    }
+  };
+
+  const deleteBin = async () => {
+    if (!activeBin) return;
+    if (confirm(`Delete bin "${activeBin.name}" and all of its logs?`)) {
+      try {
+        await fetch(`/api/bins/${activeBin.id}`, {
+          method: "DELETE",
+          headers: binHeaders,
+        });
+        setLogs([]);
+        setSelectedLog(null);
+        saveBins(bins.filter((bin) => bin.id !== activeBin.id), null);
+      } catch (error) {
+        console.error("Error deleting bin:", error);
+      }
+    }
+  };
+
   const clearLogs = async () => {
     if (confirm("Are you sure you want to clear all logs?")) {
       try {
-        await fetch("/api/logs", { method: "DELETE" });
+        await fetch(`/api/logs${binQuery}`, {
+          method: "DELETE",
+          headers: binHeaders,
+        });
         setLogs([]);
         setSelectedLog(null);
       } catch (error) {
@@ -58,7 +251,10 @@ export default function LogsPage() {
     e.stopPropagation(); // Prevent row selection when clicking delete
     if (confirm("Are you sure you want to delete this log?")) {
       try {
-        await fetch(`/api/logs/${id}`, { method: "DELETE" });
+        await fetch(`/api/logs/${id}`, {
+          method: "DELETE",
+          headers: binHeaders,
+        });
         setLogs((prev) => prev.filter((log) => log.id !== id));
         if (selectedLog?.id === id) {
           setSelectedLog(null);
@@ -69,6 +265,38 @@ export default function LogsPage() {
     }
   };
 
+  const resetScenario = async (scenarioId: string) => {
+    try {
+      await fetch(`/api/scenarios/${scenarioId}/reset`, { method: "POST" });
+    } catch (error) {
+      console.error("Error resetting scenario:", error);
+    }
+  };
+
+  // Download links cannot send headers, so bins pass their token as a query parameter
+  const getDownloadUrl = (path: string, params: Record<string, string> = {}) => {
+    const query = new URLSearchParams(params);
+    if (activeBin) {
+      query.set("token", activeBin.token);
+    }
+    const queryString = query.toString();
+    return queryString ? `${path}?${queryString}` : path;
+  };
+
+  // Download every log of the active bin in an export format
+  const exportLogs = (format: string) => {
+    window.location.href = getDownloadUrl(
+      "/api/logs/export",
+      activeBin ? { format, binId: activeBin.id } : { format },
+    );
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     alert("Copied to clipboard!");
@@ -77,7 +305,9 @@ export default function LogsPage() {
   const getWebhookUrl = () => {
     if (typeof window !== "undefined") {
       const baseUrl = window.location.origin;
-      return `${baseUrl}/webhooks/test`;
+      return activeBin
+        ? `${baseUrl}/webhooks/b/${activeBin.id}/test`
+        : `${baseUrl}/webhooks/test`;
     }
     return "";
   };
@@ -100,20 +330,79 @@ export default function LogsPage() {
   };
 
   useEffect(() => {
+    if (!binsLoaded) {
+      return;
+    }
+
     fetchLogs();
     
     if (!autoRefresh) {
+      setLiveMode(null);
       return;
     }
 
-    const interval = setInterval(() => {
+    // Polling is the fallback while the event stream is unavailable
+    let interval: ReturnType<typeof setInterval> | undefined;
+    const startPolling = () => {
+      setLiveMode("polling");
+      if (!interval) {
+        interval = setInterval(() => {
+          fetchLogs();
+        }, 2000);
+      }
+    };
+    const stopPolling = () => {
+      clearInterval(interval);
+      interval = undefined;
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+      return () => stopPolling();
+    }
+
+    const params = new URLSearchParams();
+    if (activeBin) {
+      params.set("binId", activeBin.id);
+      params.set("token", activeBin.token);
+    }
+    const query = params.toString();
+    const source = new EventSource(`/api/logs/stream${query ? `?${query}` : ""}`);
+
+    source.onopen = () => {
+      stopPolling();
+      setLiveMode("stream");
+      // Catch up on anything missed while disconnected
       fetchLogs();
-    }, 2000);
+    };
+    source.onerror = () => {
+      // EventSource keeps reconnecting on its own; poll in the meantime
+      startPolling();
+    };
 
-    return () => clearInterval(interval);
-  }, [autoRefresh, fetchLogs]);
+    source.addEventListener("added", (e) => {
+      const { log } = JSON.parse((e as MessageEvent).data) as { log: WebhookLog };
+      setLogs((prev) => [log, ...prev.filter((item) => item.id !== log.id)]);
+      setSelectedLog((prev) => prev || log);
+    });
+    source.addEventListener("deleted", (e) => {
+      const { id } = JSON.parse((e as MessageEvent).data) as { id: string };
+      setLogs((prev) => prev.filter((log) => log.id !== id));
+      setSelectedLog((prev) => (prev?.id === id ? null : prev));
+    });
+    source.addEventListener("cleared", () => {
+      setLogs([]);
+      setSelectedLog(null);
+    });
 
-  const getStatusColor = (statusCode: number) => {
+    return () => {
+      source.close();
+      stopPolling();
+    };
+  }, [autoRefresh, fetchLogs, binsLoaded, activeBin]);
+
+  const getStatusColor = (statusCode?: number) => {
+    if (statusCode === undefined) return "bg-rose-100 text-rose-800 border-rose-200";
     if (statusCode >= 200 && statusCode < 300) return "bg-green-100 text-green-800 border-green-200";
     if (statusCode >= 300 && statusCode < 400) return "bg-blue-100 text-blue-800 border-blue-200";
     if (statusCode >= 400 && statusCode < 500) return "bg-yellow-100 text-yellow-800 border-yellow-200";
@@ -158,13 +447,35 @@ export default function LogsPage() {
     return formatTimestamp(timestamp);
   };
 
+  // Failing JSON pointers of a schema validation, e.g. "/amount, /items/0 +2"
+  const formatSchemaPointers = (errors: { pointer: string }[]) => {
+    const pointers = Array.from(new Set(errors.map((error) => error.pointer || "/")));
+    const shown = pointers.slice(0, 2).join(", ");
+    return pointers.length > 2 ? `${shown} +${pointers.length - 2}` : shown;
+  };
+
+  // Deliveries sharing an idempotency key, grouped by the first delivery's id
+  const duplicateGroups = new Map<string, WebhookLog[]>();
+  for (const log of logs) {
+    if (!log.idempotencyKey) continue;
+    const groupId = log.duplicateOf || log.id;
+    duplicateGroups.set(groupId, [...(duplicateGroups.get(groupId) || []), log]);
+  }
+  const getDuplicateGroup = (log: WebhookLog) =>
+    duplicateGroups.get(log.duplicateOf || log.id) || [];
+  const hasDuplicates = logs.some((log) => log.duplicateOf);
+
   const filteredLogs = logs.filter((log) => {
+    // Grouped duplicates are listed under their first delivery
+    if (groupDuplicates && log.duplicateOf && logs.some((other) => other.id === log.duplicateOf)) {
+      return false;
+    }
     if (!searchQuery) return true;
     const query = searchQuery.toLowerCase();
     return (
       log.method.toLowerCase().includes(query) ||
       log.path.toLowerCase().includes(query) ||
-      log.statusCode.toString().includes(query) ||
+      String(log.statusCode ?? log.chaos?.fail).includes(query) ||
       log.url.toLowerCase().includes(query)
     );
   });
@@ -179,6 +490,7 @@ export default function LogsPage() {
               <h1 className="text-3xl font-bold text-slate-900 mb-1">Webhook Logs</h1>
               <p className="text-sm text-slate-500">
                 Monitor all incoming webhook requests in real-time
+                {autoRefresh && liveMode === "polling" && " (polling every 2s)"}
               </p>
             </div>
             <div className="flex flex-wrap gap-2">
@@ -190,21 +502,112 @@ export default function LogsPage() {
                     : "bg-slate-100 text-slate-700 hover:bg-slate-200"
                 }`}
               >
-                {autoRefresh ? "🔄 Auto-refresh ON" : "⏸ Auto-refresh OFF"}
+                {autoRefresh
+                  ? liveMode === "stream"
+                    ? "🟢 Live"
+                    : "🔄 Auto-refresh ON"
+                  : "⏸ Auto-refresh OFF"}
               </button>
+              <button
+                onClick={() => setShowRules(!showRules)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition cursor-pointer ${
+                  showRules
+                    ? "bg-blue-100 text-blue-700 hover:bg-blue-200"
+                    : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                }`}
+              >
+                ⚙ Rules
+              </button>
+              <button
+                onClick={() => setShowSend(!showSend)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition cursor-pointer ${
+                  showSend
+                    ? "bg-blue-100 text-blue-700 hover:bg-blue-200"
+                    : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                }`}
+              >
+                📤 Send
+              </button>
+              <select
+                value=""
+                onChange={(e) => exportLogs(e.target.value)}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 transition cursor-pointer"
+              >
+                <option value="" disabled>
+                  ⬇ Export
+                </option>
+                <option value="har">HAR</option>
+                <option value="ndjson">NDJSON</option>
+                <option value="postman">Postman collection</option>
+                <option value="curl">curl script</option>
+              </select>
               <button
                 onClick={fetchLogs}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium text-sm cursor-pointer"
               >
                 ↻ Refresh
               </button>
+              {canModify && (
+                <button
+                  onClick={clearLogs}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-medium text-sm cursor-pointer"
+                >
+                  🗑 Clear All
+                </button>
+              )}
+              {session?.enabled && (
+                <button
+                  onClick={signOut}
+                  className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 transition cursor-pointer"
+                  title={session.role === "read" ? "Signed in read-only" : "Signed in as admin"}
+                >
+                  {session.role === "read" ? "👁 Read-only" : "🔑 Admin"} · Sign out
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Bin selector */}
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+            <label className="text-sm font-medium text-slate-600" htmlFor="bin-select">
+              Bin
+            </label>
+            <select
+              id="bin-select"
+              value={activeBin?.id || ""}
+              onChange={(e) => selectBin(e.target.value || null)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Shared (no bin)</option>
+              {bins.map((bin) => (
+                <option key={bin.id} value={bin.id}>
+                  {bin.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={createBin}
+              className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition font-medium text-sm cursor-pointer"
+            >
+              + New Bin
+            </button>
+            {activeBin && (
               <button
-                onClick={clearLogs}
-                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-medium text-sm cursor-pointer"
+                onClick={deleteBin}
+                className="px-3 py-2 bg-slate-100 text-red-600 rounded-lg hover:bg-red-50 transition font-medium text-sm cursor-pointer"
               >
-                🗑 Clear All
+                Delete Bin
               </button>
-            </div>
+            )}
+            <code className="flex-1 min-w-0 truncate bg-slate-100 px-3 py-2 rounded text-xs text-slate-700">
+              {binsLoaded && getWebhookUrl()}
+            </code>
+            <button
+              onClick={() => copyToClipboard(getWebhookUrl())}
+              className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+            >
+              Copy URL
+            </button>
           </div>
 
           {/* Search */}
@@ -221,6 +624,11 @@ export default function LogsPage() {
           )}
         </div>
 
+        {showRules && <RulesPanel />}
+        {showSend && (
+          <SendPanel templateLog={selectedLog} binToken={activeBin?.token} />
+        )}
+
         {loading ? (
           <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-12 text-center">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -235,7 +643,7 @@ export default function LogsPage() {
             </p>
             <div className="flex flex-col items-center gap-3">
               <code className="bg-slate-100 px-3 py-1 rounded text-sm text-slate-700">
-                POST /webhooks/test
+                POST {activeBin ? `/webhooks/b/${activeBin.id}/test` : "/webhooks/test"}
               </code>
               <button
                 onClick={copyCurlCommand}
@@ -265,6 +673,16 @@ export default function LogsPage() {
                   <span className="ml-1.5 text-xs font-normal text-slate-500">
                     ({filteredLogs.length} {filteredLogs.length !== logs.length && `of ${logs.length}`})
                   </span>
+                  {hasDuplicates && (
+                    <label className="float-right flex items-center gap-1 text-xs font-normal text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={groupDuplicates}
+                        onChange={(e) => setGroupDuplicates(e.target.checked)}
+                      />
+                      Group duplicates
+                    </label>
+                  )}
                 </h2>
               </div>
               <div className="max-h-[calc(100vh-200px)] overflow-y-auto">
@@ -299,13 +717,121 @@ export default function LogsPage() {
                                   log.statusCode
                                 )}`}
                               >
-                                {log.statusCode}
+                                {log.statusCode ?? log.chaos?.fail}
                               </span>
                               {log.timeout && (
                                 <span className="px-1 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-700 border border-orange-200">
                                   ⏱ {log.timeout}s
                                 </span>
                               )}
+                              {log.forward && (
+                                <span
+                                  className="px-1 py-0.5 rounded text-xs font-medium bg-indigo-50 text-indigo-700 border border-indigo-200"
+                                  title={`Forwarded to ${log.forward.url}`}
+                                >
+                                  ⇄ forwarded
+                                </span>
+                              )}
+                              {log.chaos?.failed && (
+                                <span
+                                  className="px-1 py-0.5 rounded text-xs font-medium bg-rose-50 text-rose-700 border border-rose-200"
+                                  title="Failed by chaos mode"
+                                >
+                                  💥 {log.chaos.fail}
+                                </span>
+                              )}
+                              {log.duplicateOf ? (
+                                <span
+                                  className="px-1 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200"
+                                  title={`Duplicate of ${log.duplicateOf} (key ${log.idempotencyKey})`}
+                                >
+                                  ⧉ duplicate #{log.deliveryCount}
+                                </span>
+                              ) : (
+                                getDuplicateGroup(log).length > 1 && (
+                                  <span
+                                    className="px-1 py-0.5 rounded text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200"
+                                    title={`Delivered ${getDuplicateGroup(log).length} times (key ${log.idempotencyKey})`}
+                                  >
+                                    ⧉ ×{getDuplicateGroup(log).length}
+                                  </span>
+                                )
+                              )}
+                              {log.scenario && (
+                                <span
+                                  className="px-1 py-0.5 rounded text-xs font-medium bg-cyan-50 text-cyan-700 border border-cyan-200"
+                                  title={`Scenario call ${log.scenario.call}`}
+                                >
+                                  ↻ {log.scenario.step}/{log.scenario.totalSteps}
+                                </span>
+                              )}
+                              {log.mock && (
+                                <span
+                                  className={`px-1 py-0.5 rounded text-xs font-medium border max-w-[12rem] truncate ${
+                                    log.mock.valid
+                                      ? "bg-indigo-50 text-indigo-700 border-indigo-200"
+                                      : "bg-red-50 text-red-700 border-red-200"
+                                  }`}
+                                  title={
+                                    log.mock.error ||
+                                    (log.mock.valid
+                                      ? `Mocked ${log.mock.pathTemplate}`
+                                      : log.mock.errors
+                                          .map((error) => `${error.pointer}: ${error.message}`)
+                                          .join("\n"))
+                                  }
+                                >
+                                  ⚡ {log.mock.operationId || log.mock.pathTemplate || "no operation"}
+                                </span>
+                              )}
+                              {log.handshake && (
+                                <span
+                                  className="px-1 py-0.5 rounded text-xs font-medium bg-purple-50 text-purple-700 border border-purple-200"
+                                  title={`Answered ${log.handshake.provider} verification handshake`}
+                                >
+                                  🤝 {log.handshake.provider}
+                                </span>
+                              )}
+                              {log.signature && (
+                                <span
+                                  className={`px-1 py-0.5 rounded text-xs font-medium border ${
+                                    log.signature.valid
+                                      ? "bg-green-50 text-green-700 border-green-200"
+                                      : "bg-red-50 text-red-700 border-red-200"
+                                  }`}
+                                  title={log.signature.reason || `Valid ${log.signature.scheme} signature`}
+                                >
+                                  {log.signature.valid ? "✓ signed" : "✗ signature"}
+                                </span>
+                              )}
+                              {log.validation && (
+                                <span
+                                  className={`px-1 py-0.5 rounded text-xs font-medium border max-w-[12rem] truncate ${
+                                    log.validation.valid
+                                      ? "bg-green-50 text-green-700 border-green-200"
+                                      : "bg-red-50 text-red-700 border-red-200"
+                                  }`}
+                                  title={
+                                    log.validation.valid
+                                      ? "Payload matches schema"
+                                      : log.validation.errors
+                                          .map((error) => `${error.pointer || "/"}: ${error.message}`)
+                                          .join("\n")
+                                  }
+                                >
+                                  {log.validation.valid
+                                    ? "✓ schema"
+                                    : `✗ schema ${formatSchemaPointers(log.validation.errors)}`}
+                                </span>
+                              )}
+                              {log.redaction && (
+                                <span
+                                  className="px-1 py-0.5 rounded text-xs font-medium border bg-slate-50 text-slate-600 border-slate-200"
+                                  title={`Redacted: ${log.redaction.fields.join(", ")}`}
+                                >
+                                  🔒 {log.redaction.fields.length}
+                                </span>
+                              )}
                             </div>
                             <div className="text-xs font-mono text-slate-700 truncate mb-0">
                               {log.path}
@@ -316,15 +842,17 @@ export default function LogsPage() {
                               <span>{formatTimestamp(log.timestamp)}</span>
                             </div>
                           </div>
-                          <button
-                            onClick={(e) => deleteLog(log.id, e)}
-                            className="text-gray-400 hover:text-red-500 transition shrink-0 ml-1 cursor-pointer"
-                            title="Delete"
-                          >
-                            <svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
-                              <path d="M5.5 4.5h-1a1 1 0 00-1 1v8a1 1 0 001 1h7a1 1 0 001-1v-8a1 1 0 00-1-1h-1M5.5 4.5V3a1 1 0 011-1h3a1 1 0 011 1v1.5M5.5 4.5h5M6.5 7.5v4M9.5 7.5v4" />
-                            </svg>
-                          </button>
+                          {canModify && (
+                            <button
+                              onClick={(e) => deleteLog(log.id, e)}
+                              className="text-gray-400 hover:text-red-500 transition shrink-0 ml-1 cursor-pointer"
+                              title="Delete"
+                            >
+                              <svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+                                <path d="M5.5 4.5h-1a1 1 0 00-1 1v8a1 1 0 001 1h7a1 1 0 001-1v-8a1 1 0 00-1-1h-1M5.5 4.5V3a1 1 0 011-1h3a1 1 0 011 1v1.5M5.5 4.5h5M6.5 7.5v4M9.5 7.5v4" />
+                              </svg>
+                            </button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -335,14 +863,40 @@ export default function LogsPage() {
 
             {/* Details Panel */}
             <div className="bg-white rounded-lg shadow-sm border border-slate-200">
-              <div className="p-4 border-b border-slate-200 bg-slate-50">
+              <div className="p-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
                 <h2 className="text-lg font-semibold text-slate-900">
                   Request Details
                 </h2>
+                {selectedLog && (
+                  <button
+                    onClick={() =>
+                      setCompareLogId(compareLogId === selectedLog.id ? null : selectedLog.id)
+                    }
+                    className={`px-3 py-1 rounded-lg text-xs font-medium transition cursor-pointer ${
+                      compareLogId === selectedLog.id
+                        ? "bg-blue-100 text-blue-700 hover:bg-blue-200"
+                        : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                    }`}
+                    title="Compare other requests with this one"
+                  >
+                    {compareLogId === selectedLog.id
+                      ? "⇄ Select another request…"
+                      : "⇄ Compare"}
+                  </button>
+                )}
               </div>
               {selectedLog ? (
                 <div className="max-h-[calc(100vh-250px)] overflow-y-auto p-6">
                   <div className="space-y-6">
+                    {compareLogId && compareLogId !== selectedLog.id && (
+                      <DiffPanel
+                        baseLogId={compareLogId}
+                        logId={selectedLog.id}
+                        binToken={activeBin?.token}
+                        onClose={() => setCompareLogId(null)}
+                      />
+                    )}
+
                     {/* Basic Info */}
                     <div>
                       <h3 className="text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide">
@@ -364,7 +918,7 @@ export default function LogsPage() {
                         <div className="flex justify-between items-start">
                           <span className="text-sm font-medium text-slate-600">Status</span>
                           <span className={`px-2 py-1 rounded text-xs font-semibold border ${getStatusColor(selectedLog.statusCode)}`}>
-                            {selectedLog.statusCode}
+                            {selectedLog.statusCode ?? `no response (${selectedLog.chaos?.fail})`}
                           </span>
                         </div>
                         <div className="flex justify-between items-start">
@@ -373,6 +927,160 @@ export default function LogsPage() {
                             {formatTimestamp(selectedLog.timestamp)}
                           </span>
                         </div>
+                        {selectedLog.signature && (
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Signature</span>
+                            <span
+                              className={`text-xs font-medium text-right ${
+                                selectedLog.signature.valid ? "text-green-700" : "text-red-700"
+                              }`}
+                            >
+                              {selectedLog.signature.scheme}:{" "}
+                              {selectedLog.signature.valid
+                                ? "valid"
+                                : `invalid - ${selectedLog.signature.reason}`}
+                            </span>
+                          </div>
+                        )}
+                        {selectedLog.validation && (
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Schema</span>
+                            {selectedLog.validation.valid ? (
+                              <span className="text-xs font-medium text-right text-green-700">
+                                valid
+                              </span>
+                            ) : (
+                              <ul className="text-xs font-medium text-right text-red-700">
+                                {selectedLog.validation.errors.map((error, index) => (
+                                  <li key={index}>
+                                    <span className="font-mono">{error.pointer || "/"}</span>{" "}
+                                    {error.message}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
+                        {selectedLog.redaction && (
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Redacted</span>
+                            <ul className="text-xs font-mono text-right text-slate-700">
+                              {selectedLog.redaction.fields.map((field) => (
+                                <li key={field}>{field}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {selectedLog.handshake && (
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Handshake</span>
+                            <span
+                              className={`text-xs font-medium text-right ${
+                                selectedLog.handshake.verified ? "text-purple-700" : "text-red-700"
+                              }`}
+                            >
+                              {selectedLog.handshake.provider}:{" "}
+                              {selectedLog.handshake.verified
+                                ? "challenge answered"
+                                : "verify token mismatch"}
+                            </span>
+                          </div>
+                        )}
+                        {selectedLog.idempotencyKey && (
+                          <div className="flex justify-between items-start gap-2">
+                            <span className="text-sm font-medium text-slate-600">Idempotency Key</span>
+                            <span className="text-xs font-mono text-slate-700 text-right break-all">
+                              {selectedLog.idempotencyKey}
+                            </span>
+                          </div>
+                        )}
+                        {getDuplicateGroup(selectedLog).length > 1 && (
+                          <div className="flex justify-between items-start gap-2">
+                            <span className="text-sm font-medium text-slate-600">Deliveries</span>
+                            <span className="text-xs text-right space-y-0.5">
+                              {getDuplicateGroup(selectedLog)
+                                .slice()
+                                .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+                                .map((delivery, index) => (
+                                  <button
+                                    key={delivery.id}
+                                    onClick={() => setSelectedLog(delivery)}
+                                    className={`block ml-auto cursor-pointer hover:underline ${
+                                      delivery.id === selectedLog.id
+                                        ? "font-semibold text-amber-700"
+                                        : "text-blue-600"
+                                    }`}
+                                  >
+                                    #{index + 1} • {formatTimestamp(delivery.timestamp)} • {delivery.statusCode}
+                                  </button>
+                                ))}
+                            </span>
+                          </div>
+                        )}
+                        {selectedLog.scenario && (
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Scenario</span>
+                            <span className="text-xs text-cyan-700 font-medium text-right">
+                              step {selectedLog.scenario.step} of {selectedLog.scenario.totalSteps} (call{" "}
+                              {selectedLog.scenario.call}){" "}
+                              <button
+                                onClick={() => resetScenario(selectedLog.scenario!.scenarioId)}
+                                className="ml-1 text-blue-600 hover:text-blue-700 cursor-pointer"
+                              >
+                                Reset
+                              </button>
+                            </span>
+                          </div>
+                        )}
+                        {selectedLog.mock && (
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Mock</span>
+                            <div className="text-xs font-medium text-right">
+                              <div className={selectedLog.mock.valid ? "text-indigo-700" : "text-red-700"}>
+                                {selectedLog.mock.error ||
+                                  [
+                                    selectedLog.mock.operationId,
+                                    selectedLog.mock.pathTemplate &&
+                                      `${selectedLog.method} ${selectedLog.mock.pathTemplate}`,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" · ")}
+                              </div>
+                              {selectedLog.mock.errors.length > 0 && (
+                                <ul className="text-red-700">
+                                  {selectedLog.mock.errors.map((error, index) => (
+                                    <li key={index}>
+                                      <span className="font-mono">{error.pointer}</span>{" "}
+                                      {error.message}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                        {selectedLog.chaos && (
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Chaos</span>
+                            <span
+                              className={`text-xs font-medium text-right ${
+                                selectedLog.chaos.failed ? "text-rose-700" : "text-slate-700"
+                              }`}
+                            >
+                              {[
+                                selectedLog.chaos.failed ? `failed (${selectedLog.chaos.fail})` : "passed",
+                                selectedLog.chaos.latencyMs !== undefined &&
+                                  `+${selectedLog.chaos.latencyMs}ms latency`,
+                                selectedLog.chaos.slow &&
+                                  `slow ${selectedLog.chaos.slow.chunkSize}B/${selectedLog.chaos.slow.delayMs}ms`,
+                                selectedLog.chaos.seed &&
+                                  `seed ${selectedLog.chaos.seed} #${selectedLog.chaos.sequence}`,
+                              ]
+                                .filter(Boolean)
+                                .join(" • ")}
+                            </span>
+                          </div>
+                        )}
                         {selectedLog.timeout && (
                           <div className="flex justify-between items-start">
                             <span className="text-sm font-medium text-slate-600">Timeout</span>
@@ -440,35 +1148,141 @@ export default function LogsPage() {
                       </div>
                     )}
 
+                    {/* Files */}
+                    {selectedLog.files && selectedLog.files.length > 0 && (
+                      <div>
+                        <h3 className="text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide">
+                          Files
+                        </h3>
+                        <div className="bg-slate-50 rounded-lg p-4 space-y-2">
+                          {selectedLog.files.map((file, index) => (
+                            <div key={`${file.field}-${index}`} className="flex justify-between items-center gap-2">
+                              <div className="min-w-0">
+                                <div className="text-sm text-slate-800 truncate">{file.filename}</div>
+                                <div className="text-xs text-slate-500">
+                                  {file.field} • {file.contentType} • {formatBytes(file.size)}
+                                </div>
+                              </div>
+                              {file.blob ? (
+                                <a
+                                  href={getDownloadUrl(
+                                    `/api/logs/${selectedLog.id}/files/${encodeURIComponent(file.field)}`,
+                                    {
+                                      index: String(
+                                        selectedLog.files!
+                                          .slice(0, index)
+                                          .filter((f) => f.field === file.field).length
+                                      ),
+                                    }
+                                  )}
+                                  className="text-xs text-blue-600 hover:text-blue-700 shrink-0"
+                                >
+                                  Download
+                                </a>
+                              ) : (
+                                <span className="text-xs text-slate-400 shrink-0">Too large to keep</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Body */}
                     <div>
                       <div className="flex justify-between items-center mb-3">
                         <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">
                           Request Body
+                          {selectedLog.bodySize !== undefined && (
+                            <span className="ml-2 text-xs font-normal normal-case text-slate-500">
+                              {formatBytes(selectedLog.bodySize)}
+                            </span>
+                          )}
                         </h3>
-                        <button
-                          onClick={() =>
-                            copyToClipboard(
-                              selectedLog.body === null
-                                ? "null"
-                                : typeof selectedLog.body === "string"
-                                ? selectedLog.body
-                                : JSON.stringify(selectedLog.body, null, 2)
-                            )
-                          }
-                          className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
-                        >
-                          Copy
-                        </button>
+                        <div className="flex gap-3">
+                          {selectedLog.rawBodyBlob && (
+                            <a
+                              href={getDownloadUrl(`/api/logs/${selectedLog.id}/raw`)}
+                              className="text-xs text-blue-600 hover:text-blue-700"
+                            >
+                              Download raw
+                            </a>
+                          )}
+                          <button
+                            onClick={() =>
+                              copyToClipboard(
+                                selectedLog.body === null
+                                  ? "null"
+                                  : typeof selectedLog.body === "string"
+                                  ? selectedLog.body
+                                  : JSON.stringify(selectedLog.body, null, 2)
+                              )
+                            }
+                            className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+                          >
+                            Copy
+                          </button>
+                        </div>
                       </div>
                       <pre className="bg-slate-900 text-slate-100 p-4 rounded-lg text-xs overflow-x-auto border border-slate-700 min-h-[100px]">
-                        {selectedLog.body === null
+                        {selectedLog.body === null && selectedLog.bodySize
+                          ? `Binary body (${formatBytes(selectedLog.bodySize)}) - use "Download raw"`
+                          : selectedLog.body === null
                           ? "null"
                           : typeof selectedLog.body === "string"
                           ? selectedLog.body
                           : JSON.stringify(selectedLog.body, null, 2)}
                       </pre>
                     </div>
+
+                    {/* Upstream Response */}
+                    {selectedLog.forward && (
+                      <div>
+                        <h3 className="text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide">
+                          Upstream Response
+                        </h3>
+                        <div className="bg-slate-50 rounded-lg p-4 space-y-3 mb-3">
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Forwarded To</span>
+                            <code className="text-xs text-slate-800 bg-white px-2 py-1 rounded border border-slate-200 max-w-[70%] break-all text-right">
+                              {selectedLog.forward.url}
+                            </code>
+                          </div>
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Result</span>
+                            {selectedLog.forward.response.statusCode !== null ? (
+                              <span className={`px-2 py-1 rounded text-xs font-semibold border ${getStatusColor(selectedLog.forward.response.statusCode)}`}>
+                                {selectedLog.forward.response.statusCode}
+                              </span>
+                            ) : (
+                              <span className="text-xs text-red-700 font-medium">
+                                {selectedLog.forward.response.error}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex justify-between items-start">
+                            <span className="text-sm font-medium text-slate-600">Latency</span>
+                            <span className="text-xs text-slate-700">
+                              {selectedLog.forward.response.durationMs}ms
+                            </span>
+                          </div>
+                        </div>
+                        {Object.keys(selectedLog.forward.response.headers).length > 0 && (
+                          <pre className="bg-slate-900 text-slate-100 p-4 rounded-lg text-xs overflow-x-auto border border-slate-700 mb-3">
+                            {JSON.stringify(selectedLog.forward.response.headers, null, 2)}
+                          </pre>
+                        )}
+                        {selectedLog.forward.response.body !== null && (
+                          <pre className="bg-slate-900 text-slate-100 p-4 rounded-lg text-xs overflow-x-auto border border-slate-700">
+                            {selectedLog.forward.response.body || "(empty body)"}
+                            {selectedLog.forward.response.bodyTruncated && "\n… (truncated)"}
+                          </pre>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Replay */}
+                    <ReplayPanel logId={selectedLog.id} binToken={activeBin?.token} />
                   </div>
                 </div>
               ) : (
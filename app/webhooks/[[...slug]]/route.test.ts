@@ -0,0 +1,359 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { NextRequest } from "next/server";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+import { GET as getRawBody } from "@/app/api/logs/[id]/raw/route";
+import { GET as getFile } from "@/app/api/logs/[id]/files/[field]/route";
+import { clearWebhookLogs, getWebhookLogs } from "@/lib/store";
+import { createForwardConfig, deleteForwardConfig, getForwardConfigs } from "@/lib/forwarding";
+import { createSignatureConfig, deleteSignatureConfig, getSignatureConfigs, signPayload } from "@/lib/signatures";
+import { createSchemaConfig, deleteSchemaConfig, getSchemaConfigs } from "@/lib/schemas";
+import { createIdempotencyConfig, deleteIdempotencyConfig, getIdempotencyConfigs } from "@/lib/idempotency";
+import { createScenario, deleteScenario, getScenarios } from "@/lib/scenarios";
+import { createRule, deleteRule, getRules } from "@/lib/rules";
+import { createBin, deleteBin } from "@/lib/bins";
+import { createHandshakeConfig, deleteHandshakeConfig, getHandshakeConfigs } from "@/lib/handshakes";
+import { createMockSpec, deleteMockSpec } from "@/lib/openapi";
+
+// Request received by the upstream test server
+interface UpstreamRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+let upstream: http.Server;
+let upstreamUrl: string;
+const upstreamRequests: UpstreamRequest[] = [];
+
+// Helper function to send a webhook through the route handler
+async function sendWebhook(
+  path: string,
+  init: { headers?: Record<string, string>; body?: BodyInit; signal?: AbortSignal } = {},
+): Promise<Response> {
+  const url = new URL(path, "http://localhost:3000");
+  const request = new NextRequest(url, { method: "POST", ...init });
+  const slug = url.pathname.split("/").filter(Boolean).slice(1);
+  return POST(request, { params: Promise.resolve({ slug }) });
+}
+
+beforeAll(async () => {
+  // Answers with the status given in the X-Upstream-Status header, 200 by default
+  upstream = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => {
+      upstreamRequests.push({
+        method: request.method!,
+        url: request.url!,
+        headers: request.headers,
+        body: Buffer.concat(chunks),
+      });
+      response.statusCode = Number(request.headers["x-upstream-status"] ?? 200);
+      response.setHeader("x-upstream", "yes");
+      response.end("upstream");
+    });
+  });
+  await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+  upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => upstream.close(resolve));
+});
+
+afterEach(() => {
+  clearWebhookLogs();
+  getForwardConfigs().forEach((config) => deleteForwardConfig(config.id));
+  getSignatureConfigs().forEach((config) => deleteSignatureConfig(config.id));
+  getSchemaConfigs().forEach((config) => deleteSchemaConfig(config.id));
+  getIdempotencyConfigs().forEach((config) => deleteIdempotencyConfig(config.id));
+  getScenarios().forEach((scenario) => deleteScenario(scenario.id));
+  getRules().forEach((rule) => deleteRule(rule.id));
+  getHandshakeConfigs().forEach((config) => deleteHandshakeConfig(config.id));
+  upstreamRequests.length = 0;
+});
+
+describe("bins", () => {
+  it("log requests under /webhooks/b/{binId} in the bin only", async () => {
+    const bin = createBin();
+    const response = await sendWebhook(`/webhooks/b/${bin.id}/orders`, { body: "{}" });
+    expect(response.status).toBe(200);
+
+    expect(getWebhookLogs()).toHaveLength(0);
+    expect(getWebhookLogs(bin.id)).toMatchObject([{ binId: bin.id, path: `/webhooks/b/${bin.id}/orders` }]);
+    clearWebhookLogs(bin.id);
+    deleteBin(bin.id);
+  });
+
+  it("answer requests to unknown bins with 404 without logging them", async () => {
+    const response = await sendWebhook("/webhooks/b/missing/orders", { body: "{}" });
+    expect(response.status).toBe(404);
+    expect(getWebhookLogs("missing")).toHaveLength(0);
+  });
+});
+
+describe("raw bodies and files", () => {
+  it("keeps the exact bytes of binary bodies", async () => {
+    const bytes = new Uint8Array([0xff, 0x00, 0x7b, 0x0a]);
+    await sendWebhook("/webhooks/orders", { headers: { "content-type": "application/json" }, body: bytes });
+
+    const [log] = getWebhookLogs();
+    expect(log).toMatchObject({ body: null, bodySize: 4, rawBodyBlob: "raw" });
+    const response = await getRawBody(new NextRequest(`http://localhost/api/logs/${log.id}/raw`), {
+      params: Promise.resolve({ id: log.id }),
+    });
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(bytes);
+  });
+
+  it("records uploaded files and serves their content", async () => {
+    const form = new FormData();
+    form.append("doc", new Blob(["%PDF"], { type: "application/pdf" }), "invoice.pdf");
+    await sendWebhook("/webhooks/uploads", { body: form });
+
+    const [log] = getWebhookLogs();
+    expect(log.files).toEqual([
+      { field: "doc", filename: "invoice.pdf", contentType: "application/pdf", size: 4, blob: "file-0" },
+    ]);
+    const response = await getFile(new NextRequest(`http://localhost/api/logs/${log.id}/files/doc`), {
+      params: Promise.resolve({ id: log.id, field: "doc" }),
+    });
+    expect(response.headers.get("content-disposition")).toBe("attachment; filename*=UTF-8''invoice.pdf");
+    expect(await response.text()).toBe("%PDF");
+  });
+
+  it("does not keep bodies over LOG_RAW_BODY_MAX_BYTES", async () => {
+    vi.stubEnv("LOG_RAW_BODY_MAX_BYTES", "4");
+    await sendWebhook("/webhooks/orders", { body: "too long" });
+    vi.unstubAllEnvs();
+
+    expect(getWebhookLogs()[0]).toMatchObject({ body: "too long", bodySize: 8, rawBodyBlob: undefined });
+  });
+});
+
+describe("response rules", () => {
+  it("answer with their templated response and are recorded on the log", async () => {
+    const rule = createRule({
+      match: { path: "orders/*", body: { type: "order.created" } },
+      response: { statusCode: 201, bodyType: "json", body: { received: "{{body.id}}", order: "{{path.1}}" } },
+    });
+    const response = await sendWebhook("/webhooks/orders/42", {
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ id: 7, type: "order.created" }),
+    });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ received: 7, order: "42" });
+    expect(getWebhookLogs()[0]).toMatchObject({ statusCode: 201, ruleId: rule.id });
+  });
+});
+
+describe("handshakes", () => {
+  it("answer the challenge instead of forwarding it, and are recorded on the log", async () => {
+    createHandshakeConfig({ path: "/webhooks/slack/**" });
+    createForwardConfig({ path: "/webhooks/**", targetUrl: upstreamUrl });
+    const response = await sendWebhook("/webhooks/slack/events", {
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ type: "url_verification", challenge: "3eZbrw1aB" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ challenge: "3eZbrw1aB" });
+    expect(upstreamRequests).toHaveLength(0);
+    expect(getWebhookLogs()[0].handshake).toMatchObject({ provider: "slack", challenge: "3eZbrw1aB", verified: true });
+  });
+});
+
+describe("forwarding", () => {
+  it("relays the request and answers with the upstream response", async () => {
+    const config = createForwardConfig({
+      path: "/webhooks/github/**",
+      targetUrl: `${upstreamUrl}/hooks`,
+      appendPath: true,
+    });
+    const response = await sendWebhook("/webhooks/github/push?ref=main", {
+      headers: { "content-type": "application/json", "x-upstream-status": "418" },
+      body: '{"ok":true}',
+    });
+
+    expect(response.status).toBe(418);
+    expect(response.headers.get("x-upstream")).toBe("yes");
+    expect(await response.text()).toBe("upstream");
+    expect(upstreamRequests[0]).toMatchObject({ method: "POST", url: "/hooks/push?ref=main" });
+    expect(upstreamRequests[0].body.toString()).toBe('{"ok":true}');
+    expect(getWebhookLogs()[0]).toMatchObject({
+      statusCode: 418,
+      forward: { configId: config.id, url: `${upstreamUrl}/hooks/push?ref=main`, response: { statusCode: 418 } },
+    });
+  });
+
+  it("answers 502 when the upstream cannot be reached", async () => {
+    createForwardConfig({ path: "/webhooks/**", targetUrl: "http://127.0.0.1:1/" });
+    const response = await sendWebhook("/webhooks/orders", { body: "x" });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ message: "Failed to forward webhook" });
+    expect(getWebhookLogs()[0].forward?.response).toMatchObject({ statusCode: null, error: expect.any(String) });
+  });
+});
+
+describe("OpenAPI mocks", () => {
+  it("answer requests under /webhooks/mock/{specId} from the document", async () => {
+    const spec = createMockSpec({
+      spec: {
+        openapi: "3.1.0",
+        info: { title: "Orders", version: "1" },
+        paths: {
+          "/orders": {
+            post: {
+              operationId: "createOrder",
+              requestBody: {
+                content: { "application/json": { schema: { type: "object", required: ["sku"] } } },
+              },
+              responses: { "201": { description: "Created", content: { "application/json": { example: { id: 1 } } } } },
+            },
+          },
+        },
+      },
+    });
+    const send = (body: object) =>
+      sendWebhook(`/webhooks/mock/${spec.id}/orders`, {
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    const created = await send({ sku: "a" });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toEqual({ id: 1 });
+    expect(getWebhookLogs()[0]).toMatchObject({ statusCode: 201, mock: { operationId: "createOrder", valid: true } });
+
+    expect((await send({})).status).toBe(422);
+    expect(getWebhookLogs()[0].mock).toMatchObject({ valid: false, errors: [{ keyword: "required" }] });
+    deleteMockSpec(spec.id);
+  });
+});
+
+describe("ingest tokens", () => {
+  it("are left out of the captured headers, query parameters and URL", async () => {
+    await sendWebhook("/webhooks/orders?ingest_token=secret&page=2", {
+      headers: { "X-Ingest-Token": "secret", "content-type": "application/json" },
+      body: "{}",
+    });
+
+    const [log] = getWebhookLogs();
+    expect(log.headers["x-ingest-token"]).toBeUndefined();
+    expect(log.queryParams).toEqual({ page: "2" });
+    expect(log.url).toBe("http://localhost:3000/webhooks/orders?page=2");
+  });
+
+  it("are not forwarded upstream", async () => {
+    createForwardConfig({ path: "/webhooks/**", targetUrl: upstreamUrl });
+    await sendWebhook("/webhooks/orders?ingest_token=secret", {
+      headers: { "x-ingest-token": "secret" },
+      body: "x",
+    });
+
+    expect(upstreamRequests).toHaveLength(1);
+    expect(upstreamRequests[0].headers["x-ingest-token"]).toBeUndefined();
+    expect(upstreamRequests[0].url).not.toContain("secret");
+    expect(getWebhookLogs()[0].forward?.url).not.toContain("secret");
+  });
+});
+
+describe("chaos", () => {
+  it("logs reset connections without a status code", async () => {
+    const response = await sendWebhook("/webhooks/orders?fail=reset&statusCode=201", { body: "{}" });
+    await expect(response.text()).rejects.toThrow();
+
+    const [log] = getWebhookLogs();
+    expect(log.statusCode).toBeUndefined();
+    expect(log.chaos).toMatchObject({ failed: true, fail: "reset" });
+  });
+
+  it("logs dropped connections without a status code while holding them", async () => {
+    const controller = new AbortController();
+    const response = sendWebhook("/webhooks/orders?fail=drop", { body: "{}", signal: controller.signal });
+    await vi.waitFor(() => expect(getWebhookLogs()).toHaveLength(1));
+
+    const [log] = getWebhookLogs();
+    expect(log.statusCode).toBeUndefined();
+    expect(log.chaos?.fail).toBe("drop");
+    controller.abort();
+    await response;
+  });
+
+  it("still answers with the failure status in status mode", async () => {
+    const response = await sendWebhook("/webhooks/orders?fail=status&failStatus=503", { body: "{}" });
+    expect(response.status).toBe(503);
+    expect(getWebhookLogs()[0].statusCode).toBe(503);
+  });
+});
+
+describe("handling order", () => {
+  const SECRET = "whsec_test";
+
+  // Helper function to send a signed order event
+  const sendOrder = (order: object, signed = true) => {
+    const body = JSON.stringify(order);
+    const signature = signed ? signPayload({ scheme: "hmac-sha256", secret: SECRET }, body) : {};
+    const headers = { "content-type": "application/json", ...signature };
+    return sendWebhook("/webhooks/orders", { headers, body });
+  };
+
+  // Every feature covers the path; tests remove the ones that answer earlier
+  let scenarioId: string;
+  let forwardId: string;
+  beforeEach(() => {
+    createSignatureConfig({ path: "/webhooks/**", scheme: "hmac-sha256", secret: SECRET, rejectInvalid: true });
+    createSchemaConfig({ path: "/webhooks/**", schema: { required: ["id"] }, rejectInvalid: true });
+    createIdempotencyConfig({ path: "/webhooks/**", keySource: "body", keyName: "id", onDuplicate: "reject" });
+    scenarioId = createScenario({
+      path: "/webhooks/**",
+      steps: [{ statusCode: 503, bodyType: "text", body: "scenario" }],
+    }).id;
+    forwardId = createForwardConfig({ path: "/webhooks/**", targetUrl: upstreamUrl }).id;
+    createRule({ match: { path: "/webhooks/**" }, response: { statusCode: 201, bodyType: "text", body: "rule" } });
+  });
+
+  it("checks the signature first", async () => {
+    const response = await sendOrder({}, false);
+    expect(response.status).toBe(401);
+    const [log] = getWebhookLogs();
+    expect(log.signature?.valid).toBe(false);
+    expect(log.scenario).toBeUndefined();
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it("validates the payload before detecting duplicates", async () => {
+    expect((await sendOrder({ amount: 1 })).status).toBe(422);
+    expect((await sendOrder({ amount: 1 })).status).toBe(422);
+    expect(getWebhookLogs()[0]).toMatchObject({ signature: { valid: true }, validation: { valid: false } });
+  });
+
+  it("answers duplicates before the scenario advances", async () => {
+    expect((await sendOrder({ id: "evt_1" })).status).toBe(503);
+    const duplicate = await sendOrder({ id: "evt_1" });
+    expect(duplicate.status).toBe(409);
+    const [log] = getWebhookLogs();
+    expect(log.duplicateOf).toBeDefined();
+    expect(log.scenario).toBeUndefined();
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it("forwards only when no scenario answers, and applies rules last", async () => {
+    deleteScenario(scenarioId);
+    const forwarded = await sendOrder({ id: "evt_2" });
+    expect(forwarded.status).toBe(200);
+    expect(await forwarded.text()).toBe("upstream");
+    expect(getWebhookLogs()[0].ruleId).toBeUndefined();
+
+    deleteForwardConfig(forwardId);
+    const ruled = await sendOrder({ id: "evt_3" });
+    expect(ruled.status).toBe(201);
+    expect(await ruled.text()).toBe("rule");
+    expect(upstreamRequests).toHaveLength(1);
+  });
+});
@@ -1,5 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
-import { addWebhookLog } from "@/lib/store";
+import { addWebhookLog, createLogId, type WebhookFile } from "@/lib/store";
+import { parseBodyBytes, RAW_BODY_BLOB, type UploadedFile } from "@/lib/request-body";
+import { getRawBodyLimit, type LogBlobs } from "@/lib/storage";
+import { getBinById, getBinIdFromSlug } from "@/lib/bins";
+import { findMatchingRule, renderRuleResponse } from "@/lib/rules";
+import { findSignatureConfig, verifySignature } from "@/lib/signatures";
+import { findForwardConfig, forwardWebhook } from "@/lib/forwarding";
+import { respondToHandshake } from "@/lib/handshakes";
+import { advanceScenario } from "@/lib/scenarios";
+import { findSchemaConfig, validatePayload } from "@/lib/schemas";
+import { respondFromSpec } from "@/lib/openapi";
+import { redactWebhookLog } from "@/lib/redaction";
+import { notifyForLog } from "@/lib/notifications";
+import { INGEST_TOKEN_HEADER, INGEST_TOKEN_PARAM } from "@/lib/auth";
+import {
+  cacheResponse,
+  checkDuplicate,
+  findIdempotencyConfig,
+  getCachedResponse,
+  getIdempotencyKey,
+} from "@/lib/idempotency";
+import {
+  applyChaosToResponse,
+  holdConnection,
+  parseChaosOptions,
+  rollChaos,
+} from "@/lib/chaos";
 
 // Constants
 const MIN_STATUS_CODE = 100;
@@ -9,6 +35,7 @@ const MIN_TIMEOUT_SECONDS = 0;
 const MAX_TIMEOUT_SECONDS = 300; // 5 minutes
 const DEFAULT_TIMEOUT_SECONDS = 0;
 const MAX_BODY_SIZE = 10 * 1024 * 1024; // 10MB
+const NULL_BODY_STATUS_CODES = [101, 204, 205, 304]; // Responses that cannot have a body
 
 // Type definitions
 type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
@@ -53,11 +80,17 @@ function validateTimeout(timeoutParam: string | null): number {
     : DEFAULT_TIMEOUT_SECONDS;
 }
 
-// Helper function to parse request body based on content type
+// Helper function to read the request body. The raw bytes are read once
+// and returned alongside the parsed body.
 async function parseRequestBody(
   request: NextRequest,
   contentType: string,
-): Promise<{ body: any; error?: string }> {
+): Promise<{
+  body: any;
+  rawBody: Buffer | null;
+  files?: UploadedFile[];
+  error?: string;
+}> {
   try {
     // Check content length if available
     const contentLength = request.headers.get("content-length");
@@ -66,89 +99,67 @@ async function parseRequestBody(
       if (!isNaN(size) && size > MAX_BODY_SIZE) {
         return {
           body: null,
+          rawBody: null,
           error: `Body size (${size} bytes) exceeds maximum allowed size (${MAX_BODY_SIZE} bytes)`,
         };
       }
     }
 
-    // Handle form data (must be checked before text() to avoid consuming the stream)
-    if (
-      contentType.includes("application/x-www-form-urlencoded") ||
-      contentType.includes("multipart/form-data")
-    ) {
-      try {
-        const formData = await request.formData();
-        const entries: Record<string, string | File> = {};
-        formData.forEach((value, key) => {
-          entries[key] = value instanceof File ? value.name : value;
-        });
-        return { body: entries };
-      } catch (error) {
-        return {
-          body: null,
-          error: `Failed to parse form data: ${error instanceof Error ? error.message : "Unknown error"}`,
-        };
-      }
-    }
+    const rawBody = Buffer.from(await request.arrayBuffer());
 
-    // For JSON and other content types, read as text first
-    const text = await request.text();
-    
     // Check size after reading
-    if (text.length > MAX_BODY_SIZE) {
+    if (rawBody.length > MAX_BODY_SIZE) {
       return {
         body: null,
-        error: `Body size (${text.length} bytes) exceeds maximum allowed size (${MAX_BODY_SIZE} bytes)`,
+        rawBody: null,
+        error: `Body size (${rawBody.length} bytes) exceeds maximum allowed size (${MAX_BODY_SIZE} bytes)`,
       };
     }
 
-    // Parse JSON if content type indicates JSON
-    if (contentType.includes("application/json")) {
-      if (!text) {
-        return { body: null };
-      }
-      try {
-        return { body: JSON.parse(text) };
-      } catch (parseError) {
-        return {
-          body: text,
-          error: `Failed to parse JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`,
-        };
-      }
-    }
-
-    // Default: return as text
-    return { body: text || null };
+    return { ...(await parseBodyBytes(rawBody, contentType)), rawBody };
   } catch (error) {
     return {
       body: null,
+      rawBody: null,
       error: error instanceof Error ? error.message : "Unknown error parsing body",
     };
   }
 }
 
-// Helper function to extract headers (excluding x-vercel headers)
+// Helper function to extract headers (excluding x-vercel headers and the
+// ingest token, which must not be visible to anyone reading the logs)
 function extractHeaders(request: NextRequest): Record<string, string> {
   const headers: Record<string, string> = {};
   request.headers.forEach((value, key) => {
-    if (!key.toLowerCase().startsWith("x-vercel")) {
+    const name = key.toLowerCase();
+    if (!name.startsWith("x-vercel") && name !== INGEST_TOKEN_HEADER) {
       headers[key] = value;
     }
   });
   return headers;
 }
 
-// Helper function to extract query parameters
+// Helper function to extract query parameters (excluding the ingest token)
 function extractQueryParams(
   searchParams: URLSearchParams,
 ): Record<string, string> {
   const queryParams: Record<string, string> = {};
   searchParams.forEach((value, key) => {
-    queryParams[key] = value;
+    if (key !== INGEST_TOKEN_PARAM) {
+      queryParams[key] = value;
+    }
   });
   return queryParams;
 }
 
+// Helper function to get the request URL without the ingest token
+function extractUrl(request: NextRequest): string {
+  const url = new URL(request.url);
+  if (!url.searchParams.has(INGEST_TOKEN_PARAM)) return request.url;
+  url.searchParams.delete(INGEST_TOKEN_PARAM);
+  return url.toString();
+}
+
 // Helper function to build webhook path
 function buildWebhookPath(slug?: string[]): string {
   return slug && slug.length > 0
@@ -161,7 +172,7 @@ async function handleRequest(
   request: NextRequest,
   method: HttpMethod,
   slug?: string[],
-): Promise<NextResponse<WebhookResponse>> {
+): Promise<NextResponse> {
   return handleWebhook(request, method, slug);
 }
 
@@ -209,9 +220,29 @@ async function handleWebhook(
   request: NextRequest,
   method: HttpMethod,
   slug?: string[],
-): Promise<NextResponse<WebhookResponse>> {
+): Promise<NextResponse> {
   try {
     const path = buildWebhookPath(slug);
+
+    // Requests to /webhooks/b/{binId}/... are logged in that bin
+    const binId = getBinIdFromSlug(slug);
+    if (binId && !getBinById(binId)) {
+      const notFoundResponse: WebhookResponse = {
+        success: false,
+        message: "Bin not found",
+        path,
+        method,
+        statusCode: 404,
+        timeout: 0,
+        timestamp: new Date().toISOString(),
+        data: {
+          body: null,
+        },
+        error: `No bin exists with id "${binId}"`,
+      };
+      return NextResponse.json(notFoundResponse, { status: 404 });
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const queryParams = extractQueryParams(searchParams);
 
@@ -235,47 +266,501 @@ async function handleWebhook(
       console.log(`[Webhook] Wait completed at ${endTime}`);
     }
 
+    // Chaos parameters add random latency, failures and response faults
+    const chaosOptions = parseChaosOptions(searchParams);
+    const chaos = chaosOptions ? rollChaos(chaosOptions) : undefined;
+    const chaosLatencyMs = chaos?.latencyMs ?? 0;
+    if (chaosLatencyMs > 0) {
+      console.log(`[Webhook] Adding ${chaosLatencyMs}ms of simulated latency...`);
+      await new Promise((resolve) => setTimeout(resolve, chaosLatencyMs));
+    }
+    // Simulated failures answer (or drop) the request without further processing
+    const chaosFailure =
+      chaos?.fail === "status" || chaos?.fail === "drop" || chaos?.fail === "reset";
+    // Dropped and reset connections never send a response, whatever it would have been
+    const connectionDropped = chaos?.fail === "drop" || chaos?.fail === "reset";
+
     // Extract headers and body
     const headers = extractHeaders(request);
     const contentType = request.headers.get("content-type") || "";
-    const { body, error: bodyError } = await parseRequestBody(
-      request,
-      contentType,
-    );
+    const {
+      body,
+      rawBody,
+      files: uploadedFiles,
+      error: bodyError,
+    } = await parseRequestBody(request, contentType);
+
+    // Keep the exact bytes of the body and uploaded files when small enough
+    const rawBodyLimit = getRawBodyLimit();
+    const blobs: LogBlobs = {};
+    let rawBodyBlob: string | undefined;
+    if (rawBody && rawBody.length > 0 && rawBody.length <= rawBodyLimit) {
+      rawBodyBlob = RAW_BODY_BLOB;
+      blobs[RAW_BODY_BLOB] = rawBody;
+    }
+    const files: WebhookFile[] | undefined = uploadedFiles?.map((file, index) => {
+      const blob = file.data.length <= rawBodyLimit ? `file-${index}` : undefined;
+      if (blob) {
+        blobs[blob] = file.data;
+      }
+      return {
+        field: file.field,
+        filename: file.filename,
+        contentType: file.contentType,
+        size: file.data.length,
+        blob,
+      };
+    });
 
     const timestamp = new Date().toISOString();
 
-    // Log webhook data
-    console.log("=== Webhook Received ===");
-    console.log("Path:", path);
-    console.log("Method:", method);
-    console.log("URL:", request.url);
-    console.log("Status Code:", statusCode);
-    console.log("Timeout (seconds):", timeoutSeconds);
-    if (bodyError) {
-      console.warn("Body parsing warning:", bodyError);
+    // Verify the signature when a configuration covers this path
+    const signatureConfig = findSignatureConfig(path);
+    const signature = signatureConfig
+      ? verifySignature(signatureConfig, rawBody ?? Buffer.alloc(0), headers)
+      : undefined;
+    const rejectSignature =
+      signatureConfig?.rejectInvalid === true && signature?.valid === false;
+
+    // Validate the payload against the schema configured for the path
+    const schemaConfig = findSchemaConfig(path);
+    const validation = schemaConfig ? validatePayload(schemaConfig, body) : undefined;
+    const rejectPayload =
+      !rejectSignature && schemaConfig?.rejectInvalid === true && validation?.valid === false;
+    const rejected = rejectSignature || rejectPayload;
+
+    // Requests under /webhooks/mock/{specId}/... are matched against an OpenAPI
+    // document; its response is used when nothing else answers the request
+    const mock = respondFromSpec({
+      method,
+      slug,
+      headers,
+      queryParams,
+      body,
+      rawBody,
+      contentType,
+    });
+
+    // Redeliveries are detected by the idempotency key configured for the path.
+    // The delivery is recorded under its log id as soon as it is checked.
+    const logId = createLogId();
+    const idempotencyConfig = findIdempotencyConfig(path);
+    const idempotencyKey = idempotencyConfig
+      ? getIdempotencyKey(idempotencyConfig, { headers, body, rawBody })
+      : undefined;
+    const duplicate =
+      idempotencyConfig && idempotencyKey
+        ? checkDuplicate(idempotencyConfig, idempotencyKey, binId, logId)
+        : undefined;
+    const handleDuplicate =
+      !!duplicate?.duplicateOf && !rejected && !chaosFailure;
+    const rejectDuplicate =
+      handleDuplicate && idempotencyConfig!.onDuplicate === "reject";
+    // Duplicates are processed normally when the original response is not cached
+    const cachedResponse =
+      handleDuplicate && idempotencyConfig!.onDuplicate === "cached"
+        ? getCachedResponse(idempotencyConfig!, binId, duplicate!.key)
+        : undefined;
+    const duplicateAnswered = rejectDuplicate || !!cachedResponse;
+
+    // Provider verification handshakes are answered the way the provider expects
+    const handshake =
+      rejected || chaosFailure || duplicateAnswered
+        ? undefined
+        : respondToHandshake({ method, path, queryParams, body });
+
+    // A scenario returns the next response of its sequence
+    const scenario =
+      rejected || chaosFailure || duplicateAnswered || handshake
+        ? undefined
+        : advanceScenario(method, path);
+
+    // A forwarding configuration relays the request to its upstream
+    const forwardConfig =
+      rejected || chaosFailure || duplicateAnswered || handshake || scenario
+        ? undefined
+        : findForwardConfig(path);
+    const forwarded = forwardConfig
+      ? await forwardWebhook(forwardConfig, {
+          method,
+          path,
+          headers,
+          queryParams,
+          rawBody,
+        })
+      : undefined;
+
+    // A matching response rule replaces the default response
+    const rule =
+      rejected ||
+      chaosFailure ||
+      duplicateAnswered ||
+      handshake ||
+      scenario ||
+      forwarded
+        ? undefined
+        : findMatchingRule({
+            method,
+            path,
+            headers,
+            queryParams,
+            body,
+          });
+
+    let responseStatusCode = statusCode;
+    if (rejectSignature) {
+      responseStatusCode = 401;
+    } else if (rejectPayload) {
+      responseStatusCode = 422;
+    } else if (chaos?.fail === "status") {
+      responseStatusCode = chaosOptions!.failStatus;
+    } else if (rejectDuplicate) {
+      responseStatusCode = idempotencyConfig!.duplicateStatus;
+    } else if (cachedResponse) {
+      responseStatusCode = cachedResponse.statusCode;
+    } else if (handshake) {
+      responseStatusCode = handshake.statusCode;
+    } else if (scenario) {
+      responseStatusCode = scenario.response.statusCode;
+    } else if (forwarded) {
+      responseStatusCode = forwarded.result.response.statusCode ?? 502;
+    } else if (rule) {
+      responseStatusCode = rule.response.statusCode;
+    } else if (mock) {
+      responseStatusCode = mock.statusCode;
     }
-    console.log("Headers:", headers);
-    console.log("Query Params:", queryParams);
-    console.log("Body:", body);
-    console.log("=======================");
 
-    // Save webhook log
-    const logId = `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-    addWebhookLog({
+    // Build the webhook log, with sensitive values masked by the redaction rules.
+    // Values printed below come from it, so masked values stay out of the console.
+    const log = redactWebhookLog({
       id: logId,
+      binId,
       timestamp,
       method,
       path,
-      url: request.url,
-      statusCode,
+      url: extractUrl(request),
+      statusCode: connectionDropped ? undefined : responseStatusCode,
+      ruleId: rule?.id,
+      signature,
+      validation,
+      forward: forwarded?.result,
+      handshake: handshake?.result,
+      scenario: scenario?.result,
+      mock: mock?.result,
+      idempotencyKey: duplicate?.key,
+      idempotencyKeyHash: duplicate?.keyHash,
+      deliveryCount: duplicate?.deliveryCount,
+      duplicateOf: duplicate?.duplicateOf,
+      chaos,
       timeout: timeoutSeconds > 0 ? timeoutSeconds : undefined,
       startTime,
       endTime,
       headers,
       queryParams,
       body,
-    });
+      bodySize: rawBody?.length,
+      rawBodyBlob,
+      files: files && files.length > 0 ? files : undefined,
+    }, blobs);
+
+    // Log webhook data
+    console.log("=== Webhook Received ===");
+    console.log("Path:", path);
+    if (binId) {
+      console.log("Bin:", binId);
+    }
+    console.log("Method:", method);
+    console.log("URL:", log.url);
+    console.log("Status Code:", log.statusCode ?? `none (connection ${chaos!.fail})`);
+    if (rule) {
+      console.log("Matched Rule:", rule.name);
+    }
+    if (mock) {
+      console.log(
+        "Mock Operation:",
+        mock.result.operationId || mock.result.pathTemplate || "none",
+        mock.failure ? `(${mock.failure})` : "",
+      );
+    }
+    if (duplicate) {
+      console.log(
+        "Idempotency Key:",
+        log.idempotencyKey,
+        duplicate.duplicateOf
+          ? `duplicate of ${duplicate.duplicateOf} (delivery ${duplicate.deliveryCount})`
+          : "first delivery",
+      );
+    }
+    if (scenario) {
+      console.log(
+        "Scenario Step:",
+        `${scenario.result.step}/${scenario.result.totalSteps}`,
+        `(call ${scenario.result.call})`,
+      );
+    }
+    if (handshake) {
+      console.log(
+        "Handshake:",
+        handshake.result.provider,
+        handshake.result.verified ? "answered" : "verify token mismatch",
+      );
+    }
+    if (forwarded) {
+      console.log(
+        "Forwarded To:",
+        log.forward?.url,
+        forwarded.result.response.statusCode ?? forwarded.result.response.error,
+      );
+    }
+    if (signature) {
+      console.log(
+        "Signature:",
+        signature.scheme,
+        signature.valid ? "valid" : `invalid (${signature.reason})`,
+      );
+    }
+    if (validation) {
+      console.log(
+        "Validation:",
+        validation.valid
+          ? "valid"
+          : `invalid (${validation.errors.map((error) => error.pointer || "/").join(", ")})`,
+      );
+    }
+    if (chaos) {
+      console.log(
+        "Chaos:",
+        chaos.failed ? `failed (${chaos.fail})` : "passed",
+        chaos.seed ? `seed ${chaos.seed} #${chaos.sequence}` : "",
+      );
+    }
+    console.log("Timeout (seconds):", timeoutSeconds);
+    if (bodyError) {
+      console.warn("Body parsing warning:", bodyError);
+    }
+    if (log.redaction) {
+      console.log("Redacted:", log.redaction.fields.join(", "));
+    }
+    console.log("Headers:", log.headers);
+    console.log("Query Params:", log.queryParams);
+    console.log("Body:", log.body);
+    console.log("=======================");
+
+    // Save webhook log
+    addWebhookLog(log, blobs);
+    notifyForLog(log);
+
+    // Response faults are applied to whichever response is sent
+    const respond = async (response: NextResponse): Promise<NextResponse> => {
+      // The first accepted delivery's response is kept for replaying to duplicates
+      if (
+        duplicate &&
+        !rejected &&
+        !chaosFailure &&
+        !cachedResponse &&
+        idempotencyConfig!.onDuplicate === "cached"
+      ) {
+        cacheResponse(idempotencyConfig!, binId, duplicate.key, {
+          statusCode: response.status,
+          headers: Object.fromEntries(response.headers),
+          body: await response.clone().text(),
+        });
+      }
+      if (!chaos) return response;
+      if (chaos.fail === "drop") {
+        await holdConnection(request.signal);
+      }
+      return applyChaosToResponse(response, chaos, request.signal);
+    };
+
+    if (rejectSignature) {
+      const unauthorizedResponse: WebhookResponse = {
+        success: false,
+        message: "Invalid webhook signature",
+        path,
+        method,
+        statusCode: responseStatusCode,
+        timeout: timeoutSeconds,
+        timestamp,
+        data: {
+          body: null,
+        },
+        error: signature?.reason,
+      };
+      return respond(NextResponse.json(unauthorizedResponse, { status: responseStatusCode }));
+    }
+
+    if (rejectPayload) {
+      const invalidResponse: WebhookResponse = {
+        success: false,
+        message: "Payload does not match schema",
+        path,
+        method,
+        statusCode: responseStatusCode,
+        timeout: timeoutSeconds,
+        timestamp,
+        data: {
+          body,
+        },
+        error: validation!.errors
+          .map((error) => `${error.pointer || "/"}: ${error.message}`)
+          .join("; "),
+      };
+      return respond(NextResponse.json(invalidResponse, { status: responseStatusCode }));
+    }
+
+    if (chaosFailure) {
+      const failureResponse: WebhookResponse = {
+        success: false,
+        message: "Simulated failure",
+        path,
+        method,
+        statusCode: responseStatusCode,
+        timeout: timeoutSeconds,
+        timestamp,
+        data: {
+          body,
+        },
+        error: `Request failed by chaos mode (${chaos!.fail})`,
+      };
+      return respond(NextResponse.json(failureResponse, { status: responseStatusCode }));
+    }
+
+    if (rejectDuplicate) {
+      const duplicateResponse: WebhookResponse = {
+        success: false,
+        message: "Duplicate delivery",
+        path,
+        method,
+        statusCode: responseStatusCode,
+        timeout: timeoutSeconds,
+        timestamp,
+        data: {
+          body,
+        },
+        error: `Already received as ${duplicate!.duplicateOf} (idempotency key "${duplicate!.key}")`,
+      };
+      return respond(NextResponse.json(duplicateResponse, { status: responseStatusCode }));
+    }
+
+    if (cachedResponse) {
+      // Duplicates get the exact response of the first delivery
+      const canHaveBody = !NULL_BODY_STATUS_CODES.includes(responseStatusCode);
+      return respond(
+        new NextResponse(canHaveBody ? cachedResponse.body : null, {
+          status: responseStatusCode,
+          headers: cachedResponse.headers,
+        }),
+      );
+    }
+
+    if (handshake) {
+      return respond(
+        new NextResponse(handshake.body, {
+          status: responseStatusCode,
+          headers: handshake.headers,
+        }),
+      );
+    }
+
+    if (scenario) {
+      // Scenario steps are templates over the incoming request, like rule responses
+      const { body: stepBody, headers: stepHeaders } = renderRuleResponse(
+        scenario.response,
+        { method, path, headers, queryParams, body },
+      );
+      const canHaveBody = !NULL_BODY_STATUS_CODES.includes(responseStatusCode);
+      return respond(
+        new NextResponse(canHaveBody ? stepBody : null, {
+          status: responseStatusCode,
+          headers: stepHeaders,
+        }),
+      );
+    }
+
+    if (forwarded) {
+      const upstream = forwarded.result.response;
+      if (upstream.statusCode === null) {
+        const badGatewayResponse: WebhookResponse = {
+          success: false,
+          message: "Failed to forward webhook",
+          path,
+          method,
+          statusCode: responseStatusCode,
+          timeout: timeoutSeconds,
+          timestamp,
+          data: {
+            body,
+          },
+          error: upstream.error,
+        };
+        return respond(NextResponse.json(badGatewayResponse, { status: responseStatusCode }));
+      }
+
+      // Relay the upstream response as-is
+      const canHaveBody = !NULL_BODY_STATUS_CODES.includes(responseStatusCode);
+      return respond(
+        new NextResponse(
+          canHaveBody && forwarded.responseBody ? new Uint8Array(forwarded.responseBody) : null,
+          {
+            status: responseStatusCode,
+            headers: forwarded.responseHeaders,
+          },
+        ),
+      );
+    }
+
+    if (rule) {
+      // Rule responses are templates over the incoming request
+      const { body: ruleBody, headers: ruleHeaders } = renderRuleResponse(
+        rule.response,
+        { method, path, headers, queryParams, body },
+      );
+      const canHaveBody = !NULL_BODY_STATUS_CODES.includes(responseStatusCode);
+      return respond(
+        new NextResponse(canHaveBody ? ruleBody : null, {
+          status: responseStatusCode,
+          headers: ruleHeaders,
+        }),
+      );
+    }
+
+    if (mock?.failure) {
+      const mockFailureResponse: WebhookResponse = {
+        success: false,
+        message: mock.failure,
+        path,
+        method,
+        statusCode: responseStatusCode,
+        timeout: timeoutSeconds,
+        timestamp,
+        data: {
+          body,
+        },
+        error:
+          mock.result.error ||
+          mock.result.errors
+            .map((error) => `${error.pointer}: ${error.message}`)
+            .join("; "),
+      };
+      return respond(
+        NextResponse.json(mockFailureResponse, {
+          status: responseStatusCode,
+          headers: mock.headers,
+        }),
+      );
+    }
+
+    if (mock) {
+      // The operation's declared response, with its example or a generated body
+      const canHaveBody = !NULL_BODY_STATUS_CODES.includes(responseStatusCode);
+      return respond(
+        new NextResponse(canHaveBody ? mock.body : null, {
+          status: responseStatusCode,
+          headers: mock.headers,
+        }),
+      );
+    }
 
     // Build response
     const response: WebhookResponse = {
@@ -302,7 +787,7 @@ async function handleWebhook(
       response.message = `Webhook received with body parsing warning: ${bodyError}`;
     }
 
-    return NextResponse.json(response, { status: statusCode });
+    return respond(NextResponse.json(response, { status: statusCode }));
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
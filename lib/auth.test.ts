@@ -0,0 +1,125 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  API_KEY_HEADER,
+  INGEST_TOKEN_HEADER,
+  ROLE_HEADER,
+  SESSION_COOKIE,
+  authenticateRequest,
+  createSession,
+  getApiKeyRole,
+  getRequestRole,
+  isAuthEnabled,
+  isIngestAllowed,
+  isReadOnlyMethod,
+} from "./auth";
+
+// Helper function to build a request with headers
+function makeRequest(url: string, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(new URL(url, "http://localhost"), { headers });
+}
+
+beforeEach(() => {
+  vi.stubEnv("ADMIN_API_KEY", "admin-1, admin-2");
+  vi.stubEnv("READ_ONLY_API_KEY", "reader");
+  vi.stubEnv("AUTH_SESSION_SECRET", "");
+  vi.stubEnv("INGEST_TOKENS", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe("API keys", () => {
+  it("is disabled without keys", () => {
+    vi.stubEnv("ADMIN_API_KEY", "");
+    vi.stubEnv("READ_ONLY_API_KEY", " , ");
+    expect(isAuthEnabled()).toBe(false);
+  });
+
+  it("maps keys to roles", () => {
+    expect(isAuthEnabled()).toBe(true);
+    expect(getApiKeyRole("admin-2")).toBe("admin");
+    expect(getApiKeyRole("reader")).toBe("read");
+    expect(getApiKeyRole("admin")).toBeNull();
+    expect(getApiKeyRole("")).toBeNull();
+  });
+
+  it("reads keys from a bearer token or the X-API-Key header", () => {
+    expect(authenticateRequest(makeRequest("/api/logs", { authorization: "Bearer admin-1" }))).toBe("admin");
+    expect(authenticateRequest(makeRequest("/api/logs", { [API_KEY_HEADER]: "reader" }))).toBe("read");
+    expect(authenticateRequest(makeRequest("/api/logs", { authorization: "Bearer wrong" }))).toBeNull();
+    expect(authenticateRequest(makeRequest("/api/logs"))).toBeNull();
+  });
+});
+
+describe("sessions", () => {
+  // Helper function to build a request carrying a session cookie
+  const withSession = (value: string) => makeRequest("/api/logs", { cookie: `${SESSION_COOKIE}=${value}` });
+
+  it("accepts a session it created", () => {
+    const session = createSession("read");
+    expect(session.maxAge).toBe(12 * 60 * 60);
+    expect(authenticateRequest(withSession(session.value))).toBe("read");
+  });
+
+  it("rejects tampered and expired sessions", () => {
+    const { value } = createSession("read");
+    const [, expiresAt, signature] = value.split(".");
+    expect(authenticateRequest(withSession(`admin.${expiresAt}.${signature}`))).toBeNull();
+    expect(authenticateRequest(withSession("admin.9999999999"))).toBeNull();
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 13 * 60 * 60 * 1000);
+    expect(authenticateRequest(withSession(value))).toBeNull();
+  });
+
+  it("ends sessions when the keys change", () => {
+    const { value } = createSession("admin");
+    vi.stubEnv("ADMIN_API_KEY", "admin-3");
+    expect(authenticateRequest(withSession(value))).toBeNull();
+  });
+
+  it("keeps sessions across key changes with AUTH_SESSION_SECRET", () => {
+    vi.stubEnv("AUTH_SESSION_SECRET", "fixed");
+    const { value } = createSession("admin");
+    vi.stubEnv("ADMIN_API_KEY", "admin-3");
+    expect(authenticateRequest(withSession(value))).toBe("admin");
+  });
+});
+
+describe("roles", () => {
+  it("reads the role set by the proxy", () => {
+    expect(getRequestRole(makeRequest("/api/logs", { [ROLE_HEADER]: "read" }))).toBe("read");
+    expect(getRequestRole(makeRequest("/api/logs", { [ROLE_HEADER]: "root" }))).toBeUndefined();
+  });
+
+  it("allows only safe methods for read-only keys", () => {
+    expect(["get", "HEAD", "OPTIONS"].every(isReadOnlyMethod)).toBe(true);
+    expect(isReadOnlyMethod("POST")).toBe(false);
+  });
+});
+
+describe("isIngestAllowed", () => {
+  it("leaves webhooks open without ingest tokens", () => {
+    expect(isIngestAllowed(makeRequest("/webhooks/test"))).toBe(true);
+  });
+
+  it("requires a token from the header or query parameter on every webhook path", () => {
+    vi.stubEnv("INGEST_TOKENS", "secret");
+    expect(isIngestAllowed(makeRequest("/webhooks/test"))).toBe(false);
+    expect(isIngestAllowed(makeRequest("/webhooks/test", { [INGEST_TOKEN_HEADER]: "secret" }))).toBe(true);
+    expect(isIngestAllowed(makeRequest("/webhooks/test?ingest_token=secret"))).toBe(true);
+    expect(isIngestAllowed(makeRequest("/webhooks/test?ingest_token=wrong"))).toBe(false);
+  });
+
+  it("only protects paths under a token's prefix", () => {
+    vi.stubEnv("INGEST_TOKENS", "/webhooks/stripe/=stripe-token, /webhooks/github=github-token");
+    expect(isIngestAllowed(makeRequest("/webhooks/other"))).toBe(true);
+    expect(isIngestAllowed(makeRequest("/webhooks/stripe-like"))).toBe(true);
+    expect(isIngestAllowed(makeRequest("/webhooks/stripe/events"))).toBe(false);
+    expect(isIngestAllowed(makeRequest("/webhooks/stripe/events", { [INGEST_TOKEN_HEADER]: "stripe-token" }))).toBe(true);
+    expect(isIngestAllowed(makeRequest("/webhooks/github", { [INGEST_TOKEN_HEADER]: "stripe-token" }))).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+// Optional access control, configured through the environment and enforced
+// by the proxy (proxy.ts). Without API keys everything stays open.
+
+// Constants
+const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60; // 12 hours
+
+export const SESSION_COOKIE = "mock-webhooks-session";
+export const API_KEY_HEADER = "x-api-key";
+
+// Header (or query parameter) carrying an ingest token for /webhooks/*
+export const INGEST_TOKEN_HEADER = "x-ingest-token";
+export const INGEST_TOKEN_PARAM = "ingest_token";
+
+// Role of an authenticated API request, set by the proxy. Values sent by
+// clients are always dropped, so route handlers can trust it.
+export const ROLE_HEADER = "x-mock-webhooks-role";
+
+// `admin` may do anything, `read` only GET, HEAD and OPTIONS requests
+export type AuthRole = "admin" | "read";
+
+// Token accepted for webhook requests under a path prefix
+interface IngestToken {
+  prefix: string;
+  token: string;
+}
+
+// Helper function to parse a comma-separated environment variable
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function getAdminKeys(): string[] {
+  return parseList(process.env.ADMIN_API_KEY);
+}
+
+function getReadOnlyKeys(): string[] {
+  return parseList(process.env.READ_ONLY_API_KEY);
+}
+
+// API authentication is enabled as soon as an admin or read-only key is set
+export function isAuthEnabled(): boolean {
+  return getAdminKeys().length > 0 || getReadOnlyKeys().length > 0;
+}
+
+// Ingest tokens from INGEST_TOKENS: "token" protects every webhook path,
+// "/webhooks/prefix=token" only the paths under the prefix
+function getIngestTokens(): IngestToken[] {
+  return parseList(process.env.INGEST_TOKENS).map((entry) => {
+    const separator = entry.indexOf("=");
+    if (entry.startsWith("/") && separator > 0) {
+      return { prefix: entry.slice(0, separator).replace(/\/+$/, ""), token: entry.slice(separator + 1) };
+    }
+    return { prefix: "/webhooks", token: entry };
+  });
+}
+
+// Helper function to compare secrets in constant time
+function safeEqual(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Role granted by an API key, or null when the key is unknown
+export function getApiKeyRole(key: string): AuthRole | null {
+  if (getAdminKeys().some((candidate) => safeEqual(candidate, key))) return "admin";
+  if (getReadOnlyKeys().some((candidate) => safeEqual(candidate, key))) return "read";
+  return null;
+}
+
+// Sessions are signed with AUTH_SESSION_SECRET, or with a secret derived
+// from the API keys so that rotating a key ends existing sessions
+function getSessionSecret(): string {
+  return (
+    process.env.AUTH_SESSION_SECRET ||
+    createHash("sha256")
+      .update([...getAdminKeys(), "\0", ...getReadOnlyKeys()].join("\n"))
+      .digest("hex")
+  );
+}
+
+function signSession(payload: string): string {
+  return createHmac("sha256", getSessionSecret()).update(payload).digest("base64url");
+}
+
+// Cookie value for a dashboard session: "{role}.{expiry}.{signature}"
+export function createSession(role: AuthRole): { value: string; maxAge: number } {
+  const expiresAt = Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS;
+  const payload = `${role}.${expiresAt}`;
+  return { value: `${payload}.${signSession(payload)}`, maxAge: SESSION_MAX_AGE_SECONDS };
+}
+
+// Helper function to verify a session cookie, returning its role
+function verifySession(value: string): AuthRole | null {
+  const [role, expiresAt, signature] = value.split(".");
+  if (!signature || (role !== "admin" && role !== "read")) return null;
+  if (!safeEqual(signSession(`${role}.${expiresAt}`), signature)) return null;
+  return parseInt(expiresAt, 10) * 1000 > Date.now() ? role : null;
+}
+
+// Role of the request from its bearer token, X-API-Key header or session
+// cookie, or null when it carries no valid credentials
+export function authenticateRequest(request: NextRequest): AuthRole | null {
+  const authorization = request.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const key = bearer || request.headers.get(API_KEY_HEADER);
+  if (key) return getApiKeyRole(key.trim());
+
+  const session = request.cookies.get(SESSION_COOKIE)?.value;
+  return session ? verifySession(session) : null;
+}
+
+// Role set by the proxy for an authenticated API request
+export function getRequestRole(request: NextRequest): AuthRole | undefined {
+  const role = request.headers.get(ROLE_HEADER);
+  return role === "admin" || role === "read" ? role : undefined;
+}
+
+export function isReadOnlyMethod(method: string): boolean {
+  return ["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase());
+}
+
+// Whether a webhook request may be captured: paths under a prefix with
+// ingest tokens need one of them, all other paths stay open
+export function isIngestAllowed(request: NextRequest): boolean {
+  const { pathname, searchParams } = request.nextUrl;
+  const covering = getIngestTokens().filter(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  );
+  if (covering.length === 0) return true;
+
+  const token = request.headers.get(INGEST_TOKEN_HEADER) || searchParams.get(INGEST_TOKEN_PARAM);
+  return Boolean(token) && covering.some((entry) => safeEqual(entry.token, token!));
+}
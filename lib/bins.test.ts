@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  BIN_TOKEN_HEADER,
+  createBin,
+  deleteBin,
+  getBinIdFromSlug,
+  hasBinAccess,
+  isBinTokenRequest,
+  requireBinAccess,
+  requireLogAccess,
+  toPublicBin,
+} from "./bins";
+import { ROLE_HEADER } from "./auth";
+
+// Helper function to build a request with headers
+function makeRequest(url: string, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(new URL(url, "http://localhost"), { headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("bins", () => {
+  it("are created with a name and a token that the public view leaves out", () => {
+    const bin = createBin("  orders  ");
+    expect(bin).toMatchObject({ name: "orders", token: expect.stringMatching(/^[0-9a-f]{48}$/) });
+    expect(createBin().name).toMatch(/^bin-[0-9a-f]{12}$/);
+    expect(toPublicBin(bin)).not.toHaveProperty("token");
+    deleteBin(bin.id);
+  });
+
+  it("are read from webhook slugs of the form b/{binId}/...", () => {
+    expect(getBinIdFromSlug(["b", "abc", "orders"])).toBe("abc");
+    expect(getBinIdFromSlug(["b"])).toBeUndefined();
+    expect(getBinIdFromSlug(["orders", "abc"])).toBeUndefined();
+    expect(getBinIdFromSlug(undefined)).toBeUndefined();
+  });
+});
+
+describe("bin access", () => {
+  it("requires the bin token from the header or query parameter", () => {
+    const bin = createBin();
+    expect(hasBinAccess(makeRequest("/api/logs", { [BIN_TOKEN_HEADER]: bin.token }), bin)).toBe(true);
+    expect(hasBinAccess(makeRequest(`/api/logs?token=${bin.token}`), bin)).toBe(true);
+    expect(hasBinAccess(makeRequest("/api/logs?token=wrong"), bin)).toBe(false);
+    expect(hasBinAccess(makeRequest("/api/logs"), bin)).toBe(false);
+    expect(hasBinAccess(makeRequest("/api/logs", { [ROLE_HEADER]: "read" }), bin)).toBe(true);
+  });
+
+  it("answers unknown bins with 404 and missing tokens with 401", () => {
+    const bin = createBin();
+    expect(requireBinAccess(makeRequest("/api/logs"), "missing")?.status).toBe(404);
+    expect(requireBinAccess(makeRequest("/api/logs"), bin.id)?.status).toBe(401);
+    expect(requireBinAccess(makeRequest(`/api/logs?token=${bin.token}`), bin.id)).toBeNull();
+  });
+
+  it("protects shared logs with API keys only when access control is enabled", () => {
+    expect(requireLogAccess(makeRequest("/api/logs/1"), undefined)?.status).toBe(404);
+    expect(requireLogAccess(makeRequest("/api/logs/1"), {})).toBeNull();
+    vi.stubEnv("ADMIN_API_KEY", "admin");
+    expect(requireLogAccess(makeRequest("/api/logs/1"), {})?.status).toBe(401);
+  });
+
+  it("lets bin tokens reach only bin-scoped endpoints", () => {
+    const token = { [BIN_TOKEN_HEADER]: "t" };
+    expect(isBinTokenRequest(makeRequest("/api/logs?binId=abc", token))).toBe(true);
+    expect(isBinTokenRequest(makeRequest("/api/logs", token))).toBe(false);
+    expect(isBinTokenRequest(makeRequest("/api/logs/123/raw", token))).toBe(true);
+    expect(isBinTokenRequest(makeRequest("/api/rules", token))).toBe(false);
+    expect(isBinTokenRequest(makeRequest("/api/logs?binId=abc"))).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createCollection } from "./storage";
+import { getRequestRole, isAuthEnabled } from "./auth";
+
+export interface Bin {
+  id: string;
+  name: string;
+  token: string; // Secret required to read or manage the bin's logs
+  createdAt: string;
+}
+
+// Bins isolate webhook traffic: requests to /webhooks/b/{binId}/... are
+// logged with that binId and only visible to holders of the bin token
+const bins = createCollection<Bin>("bins");
+
+// Header (or query parameter) carrying a bin token
+export const BIN_TOKEN_HEADER = "x-bin-token";
+export const BIN_TOKEN_PARAM = "token";
+
+// Path segment that marks a bin-scoped webhook URL: /webhooks/b/{binId}/...
+export const BIN_PATH_SEGMENT = "b";
+
+// With access control enabled, endpoints a bin token alone may call,
+// provided a binId is given (the handlers check the token against the bin)
+const BIN_QUERY_PATHS = [
+  "/api/logs",
+  "/api/logs/export",
+  "/api/logs/import",
+  "/api/logs/stream",
+  "/api/logs/wait",
+  "/api/expectations/verify",
+];
+
+// Endpoints of a single bin or log, whose handlers check the bin token
+const BIN_SCOPED_PATHS = [/^\/api\/bins\/[^/]+$/, /^\/api\/logs\/[^/]+(\/.*)?$/];
+
+export function createBin(name?: string): Bin {
+  const id = randomBytes(6).toString("hex");
+  return bins.set({
+    id,
+    name: name?.trim() || `bin-${id}`,
+    token: randomBytes(24).toString("hex"),
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export function getBinById(id: string): Bin | undefined {
+  return bins.get(id);
+}
+
+export function deleteBin(id: string): boolean {
+  return bins.delete(id);
+}
+
+// Bin details that are safe to return without the token
+export function toPublicBin(bin: Bin): Omit<Bin, "token"> {
+  const { token: _token, ...rest } = bin;
+  return rest;
+}
+
+// Helper function to extract the bin id from a webhook slug (["b", binId, ...])
+export function getBinIdFromSlug(slug?: string[]): string | undefined {
+  if (slug && slug.length >= 2 && slug[0] === BIN_PATH_SEGMENT) {
+    return slug[1];
+  }
+  return undefined;
+}
+
+// Helper function to read the bin token from the request header or query
+function getRequestToken(request: NextRequest): string | null {
+  return (
+    request.headers.get(BIN_TOKEN_HEADER) ||
+    request.nextUrl.searchParams.get(BIN_TOKEN_PARAM)
+  );
+}
+
+// Check that the request carries the token of the given bin. Requests
+// authenticated with an API key may access every bin.
+export function hasBinAccess(request: NextRequest, bin: Bin): boolean {
+  if (getRequestRole(request)) return true;
+  const token = getRequestToken(request);
+  if (!token) return false;
+  const expected = Buffer.from(bin.token);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Helper function for API routes: returns an error response when the
+// bin does not exist or the request lacks its token, otherwise null
+export function requireBinAccess(
+  request: NextRequest,
+  binId: string,
+): NextResponse | null {
+  const bin = getBinById(binId);
+  if (!bin) {
+    return NextResponse.json({ message: "Bin not found" }, { status: 404 });
+  }
+  if (!hasBinAccess(request, bin)) {
+    return NextResponse.json(
+      { message: "Invalid or missing bin token" },
+      { status: 401 },
+    );
+  }
+  return null;
+}
+
+// Helper function for API routes working on a single log: returns an error
+// response when the log does not exist or belongs to a bin the request
+// has no token for, otherwise null. With access control enabled, shared
+// logs need an API key (see lib/auth).
+export function requireLogAccess(
+  request: NextRequest,
+  log: { binId?: string } | undefined,
+): NextResponse | null {
+  if (!log) {
+    return NextResponse.json({ message: "Log not found" }, { status: 404 });
+  }
+  if (log.binId) {
+    return requireBinAccess(request, log.binId);
+  }
+  if (isAuthEnabled() && !getRequestRole(request)) {
+    return NextResponse.json({ message: "Invalid or missing API key" }, { status: 401 });
+  }
+  return null;
+}
+
+// Whether a request without an API key may reach the route handler because
+// it carries a bin token for a bin-scoped endpoint
+export function isBinTokenRequest(request: NextRequest): boolean {
+  const { pathname, searchParams } = request.nextUrl;
+  if (!getRequestToken(request)) return false;
+  if (BIN_QUERY_PATHS.includes(pathname)) {
+    return Boolean(searchParams.get("binId"));
+  }
+  return BIN_SCOPED_PATHS.some((pattern) => pattern.test(pathname));
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { afterEach, describe, expect, it } from "vitest";
+import { applyChaosToResponse, parseChaosOptions, resetChaosSequences, rollChaos } from "./chaos";
+
+// Helper function to parse chaos options from a query string
+const parse = (query: string) => parseChaosOptions(new URLSearchParams(query));
+
+afterEach(() => {
+  resetChaosSequences();
+});
+
+describe("parseChaosOptions", () => {
+  it("is off without chaos parameters", () => {
+    expect(parse("statusCode=201&timeout=2")).toBeUndefined();
+  });
+
+  it("is turned on by any chaos parameter, chunkSize included", () => {
+    expect(parse("chunkSize=16")).toMatchObject({ chunkSize: 16, failRate: 0 });
+    expect(parse("seed=a")).toMatchObject({ seed: "a", chunkSize: 1 });
+  });
+
+  it("fails every request when a mode is given without a rate", () => {
+    expect(parse("fail=reset")).toMatchObject({ fail: "reset", failRate: 1 });
+    expect(parse("fail=bogus&failRate=0.5")).toMatchObject({ fail: "status", failRate: 0.5 });
+  });
+
+  it("reads latency ranges and keeps values within bounds", () => {
+    expect(parse("latency=2000-100&failStatus=9999&chunkSize=0")).toMatchObject({
+      latencyMinMs: 100,
+      latencyMaxMs: 2000,
+      failStatus: 599,
+      chunkSize: 1,
+    });
+  });
+});
+
+describe("rollChaos", () => {
+  it("replays the same outcomes for a seed after a reset", () => {
+    const options = parse("seed=ci&failRate=0.5&latency=0-1000")!;
+    const roll = () => Array.from({ length: 5 }, () => rollChaos(options));
+    const first = roll();
+    expect(first.map((result) => result.sequence)).toEqual([1, 2, 3, 4, 5]);
+
+    resetChaosSequences("ci");
+    expect(roll()).toEqual(first);
+  });
+
+  it("records the fail mode only on failed requests", () => {
+    expect(rollChaos(parse("fail=drop")!)).toMatchObject({ failed: true, fail: "drop" });
+    expect(rollChaos(parse("fail=drop&failRate=0")!)).toMatchObject({ failed: false, fail: undefined });
+  });
+});
+
+describe("applyChaosToResponse", () => {
+  const signal = new AbortController().signal;
+
+  it("closes reset connections before any byte is sent", async () => {
+    const response = await applyChaosToResponse(NextResponse.json({ ok: true }), rollChaos(parse("fail=reset")!), signal);
+    await expect(response.text()).rejects.toThrow("Simulated connection reset");
+  });
+
+  it("breaks the syntax of malformed bodies", async () => {
+    const response = await applyChaosToResponse(
+      NextResponse.json({ ok: true }),
+      rollChaos(parse("fail=malformed")!),
+      signal,
+    );
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('{"ok":true,}');
+  });
+
+  it("leaves responses without a body alone", async () => {
+    const response = new NextResponse(null, { status: 204 });
+    expect(await applyChaosToResponse(response, rollChaos(parse("fail=truncate")!), signal)).toBe(response);
+  });
+});
@@ -0,0 +1,235 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+
+// Constants
+const MAX_LATENCY_MS = 300 * 1000; // 5 minutes, same as the timeout limit
+const MAX_DROP_MS = 300 * 1000; // Dropped connections are closed after this
+const TRUNCATE_ERROR_DELAY_MS = 50; // Lets the partial body flush before closing
+const DEFAULT_FAIL_STATUS = 500;
+const DEFAULT_CHUNK_SIZE = 1;
+const MAX_CHUNK_SIZE = 64 * 1024;
+const NULL_BODY_STATUS_CODES = [101, 204, 205, 304]; // Responses that cannot have a body
+
+export type ChaosFailMode = "status" | "drop" | "reset" | "truncate" | "malformed";
+
+export const CHAOS_FAIL_MODES: ChaosFailMode[] = [
+  "status",
+  "drop",
+  "reset",
+  "truncate",
+  "malformed",
+];
+
+// Chaos options read from the query string
+export interface ChaosOptions {
+  seed?: string;
+  failRate: number; // Probability (0-1) that a request fails
+  fail: ChaosFailMode; // How a failing request fails
+  failStatus: number;
+  latencyMinMs: number;
+  latencyMaxMs: number;
+  jitterMs: number;
+  slowDelayMs?: number; // Stream the response in chunks with this delay between them
+  chunkSize: number;
+}
+
+// Chaos outcome recorded on the webhook log
+export interface ChaosResult {
+  seed?: string;
+  sequence?: number; // Position in the seeded sequence, starting at 1
+  latencyMs?: number;
+  failed: boolean;
+  fail?: ChaosFailMode; // Set when the request failed
+  slow?: { delayMs: number; chunkSize: number };
+}
+
+// Requests seen per seed, so a seed replays the same sequence of outcomes
+const sequences = new Map<string, number>();
+
+// Helper function to parse a number and keep it within bounds
+function parseBounded(value: string | null, min: number, max: number): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  if (isNaN(parsed)) return undefined;
+  return Math.min(Math.max(parsed, min), max);
+}
+
+// Parse chaos query parameters. Returns undefined when none are present.
+// Invalid values fall back to their defaults, like statusCode and timeout.
+export function parseChaosOptions(searchParams: URLSearchParams): ChaosOptions | undefined {
+  const keys = ["failRate", "fail", "failStatus", "latency", "jitter", "slow", "chunkSize", "seed"];
+  if (!keys.some((key) => searchParams.has(key))) return undefined;
+
+  const failParam = searchParams.get("fail") as ChaosFailMode | null;
+  const fail = failParam && CHAOS_FAIL_MODES.includes(failParam) ? failParam : "status";
+
+  // "500" is a fixed latency, "100-2000" a range
+  let latencyMinMs = 0;
+  let latencyMaxMs = 0;
+  const latency = searchParams.get("latency")?.match(/^(\d+)(?:-(\d+))?$/);
+  if (latency) {
+    latencyMinMs = Math.min(parseInt(latency[1], 10), MAX_LATENCY_MS);
+    latencyMaxMs = Math.min(parseInt(latency[2] ?? latency[1], 10), MAX_LATENCY_MS);
+    if (latencyMaxMs < latencyMinMs) {
+      [latencyMinMs, latencyMaxMs] = [latencyMaxMs, latencyMinMs];
+    }
+  }
+
+  const failStatus = parseBounded(searchParams.get("failStatus"), 100, 599);
+
+  return {
+    seed: searchParams.get("seed") || undefined,
+    // An explicit fail mode without a rate always fails
+    failRate:
+      parseBounded(searchParams.get("failRate"), 0, 1) ?? (failParam ? 1 : 0),
+    fail,
+    failStatus: failStatus !== undefined ? Math.round(failStatus) : DEFAULT_FAIL_STATUS,
+    latencyMinMs,
+    latencyMaxMs,
+    jitterMs: parseBounded(searchParams.get("jitter"), 0, MAX_LATENCY_MS) ?? 0,
+    slowDelayMs: parseBounded(searchParams.get("slow"), 0, MAX_LATENCY_MS),
+    chunkSize: Math.round(
+      parseBounded(searchParams.get("chunkSize"), 1, MAX_CHUNK_SIZE) ?? DEFAULT_CHUNK_SIZE,
+    ),
+  };
+}
+
+// Helper function to create the random source for a request. Seeded requests
+// draw from a hash of the seed and their position in the sequence.
+function createRandom(seed: string | undefined, sequence: number | undefined): () => number {
+  if (seed === undefined || sequence === undefined) return Math.random;
+  let counter = 0;
+  return () => {
+    const digest = createHash("sha256").update(`${seed}:${sequence}:${counter++}`).digest();
+    return digest.readUInt32BE(0) / 0x100000000;
+  };
+}
+
+// Decide the outcome of a request
+export function rollChaos(options: ChaosOptions): ChaosResult {
+  let sequence: number | undefined;
+  if (options.seed !== undefined) {
+    sequence = (sequences.get(options.seed) ?? 0) + 1;
+    sequences.set(options.seed, sequence);
+  }
+  const random = createRandom(options.seed, sequence);
+
+  // Draws happen in a fixed order so a seed always yields the same outcome
+  const latencyDraw = random();
+  const jitterDraw = random();
+  const failDraw = random();
+
+  let latencyMs: number | undefined;
+  if (options.latencyMaxMs > 0 || options.jitterMs > 0) {
+    const base =
+      options.latencyMinMs + latencyDraw * (options.latencyMaxMs - options.latencyMinMs);
+    const jitter = (jitterDraw * 2 - 1) * options.jitterMs;
+    latencyMs = Math.round(Math.min(Math.max(base + jitter, 0), MAX_LATENCY_MS));
+  }
+
+  const failed = failDraw < options.failRate;
+  return {
+    seed: options.seed,
+    sequence,
+    latencyMs,
+    failed,
+    fail: failed ? options.fail : undefined,
+    slow:
+      options.slowDelayMs !== undefined
+        ? { delayMs: options.slowDelayMs, chunkSize: options.chunkSize }
+        : undefined,
+  };
+}
+
+// Restart the sequence of a seed, or of every seed
+export function resetChaosSequences(seed?: string): void {
+  if (seed !== undefined) {
+    sequences.delete(seed);
+  } else {
+    sequences.clear();
+  }
+}
+
+// Helper function to wait, returning early when the client disconnects
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Hold a dropped request without answering until the client gives up
+export function holdConnection(signal: AbortSignal): Promise<void> {
+  return sleep(MAX_DROP_MS, signal);
+}
+
+// Helper function to break the syntax of a body: {"ok":true} -> {"ok":true,}
+function corruptBody(body: Uint8Array): Uint8Array {
+  const text = new TextDecoder().decode(body);
+  return new TextEncoder().encode(text ? `${text.slice(0, -1)},${text.slice(-1)}` : "{");
+}
+
+// Apply the response-shaping part of a chaos outcome: closing the connection
+// without a reply, truncating or corrupting the body, and slow streaming
+export async function applyChaosToResponse(
+  response: NextResponse,
+  chaos: ChaosResult,
+  signal: AbortSignal,
+): Promise<NextResponse> {
+  const { fail } = chaos;
+  const closes = fail === "drop" || fail === "reset";
+  const shapesBody = fail === "truncate" || fail === "malformed" || chaos.slow !== undefined;
+  if (!closes && !(shapesBody && !NULL_BODY_STATUS_CODES.includes(response.status))) {
+    return response;
+  }
+
+  let body: Uint8Array = new Uint8Array(await response.arrayBuffer());
+  const headers = new Headers(response.headers);
+  if (fail === "malformed") {
+    body = corruptBody(body);
+  }
+
+  // Truncated responses announce the full length and close the connection early
+  const declaredLength = body.length;
+  if (fail === "truncate") {
+    body = body.slice(0, Math.floor(body.length / 2));
+    headers.set("Content-Length", String(declaredLength));
+  } else {
+    headers.delete("Content-Length");
+  }
+
+  const slow = chaos.slow;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      if (closes) {
+        // Next.js sends the status line and headers with the first body chunk, so
+        // erroring before any chunk closes the socket with zero bytes written
+        // (checked with next start and next dev). Next.js logs the error as
+        // "failed to pipe response".
+        controller.error(new Error(`Simulated connection ${fail}`));
+        return;
+      }
+      const chunkSize = slow ? slow.chunkSize : body.length || 1;
+      for (let offset = 0; offset < body.length; offset += chunkSize) {
+        if (signal.aborted) break;
+        controller.enqueue(body.slice(offset, offset + chunkSize));
+        if (slow && offset + chunkSize < body.length) {
+          await sleep(slow.delayMs, signal);
+        }
+      }
+      if (fail === "truncate") {
+        await sleep(TRUNCATE_ERROR_DELAY_MS);
+        controller.error(new Error("Simulated truncated response"));
+        return;
+      }
+      controller.close();
+    },
+  });
+
+  // The status of a closed connection is never sent
+  return new NextResponse(stream, { status: closes ? 500 : response.status, headers });
+}
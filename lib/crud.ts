@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// A configuration resource served by the generic CRUD routes:
+// GET/POST /api/{resource} and GET/PUT/DELETE /api/{resource}/{id}
+export interface CrudResource<T, I> {
+  key: string; // Response key of one item, e.g. "rule"
+  listKey: string; // Response key of the list, e.g. "rules"
+  label: string; // Name used in messages, e.g. "Rule"
+  list(): T[];
+  get(id: string): T | undefined;
+  create(input: I): T;
+  update(id: string, input: I): T | undefined;
+  delete(id: string): boolean;
+  // Returns an error message, or undefined when the input is valid
+  validate(input: any): string | undefined;
+  // Converts a valid request body to the resource input
+  toInput?(input: any): I;
+  // Checks a create or update request (with the current item on update).
+  // Returns the response to send instead, or undefined to continue.
+  authorize?(request: NextRequest, input: any, existing?: T): NextResponse | undefined;
+  // Converts an item for responses, e.g. to hide secrets
+  present?(item: T): any;
+}
+
+type ItemContext = { params: Promise<{ id: string }> };
+
+// Helper function to read a JSON request body, or undefined when it is not valid JSON
+async function readJson(request: NextRequest): Promise<{ input: any } | undefined> {
+  try {
+    return { input: await request.json() };
+  } catch {
+    return undefined;
+  }
+}
+
+// Create the route handlers of a resource. `collection` is exported by
+// app/api/{resource}/route.ts and `item` by app/api/{resource}/[id]/route.ts.
+export function createCrudHandlers<T, I>(resource: CrudResource<T, I>) {
+  const present = (item: T) => (resource.present ? resource.present(item) : item);
+  const toInput = (input: any): I => (resource.toInput ? resource.toInput(input) : input);
+  const notFound = () =>
+    NextResponse.json({ message: `${resource.label} not found` }, { status: 404 });
+
+  // Helper function to read and check the body of a create or update request
+  const parseInput = async (
+    request: NextRequest,
+    existing?: T,
+  ): Promise<{ input: any } | { response: NextResponse }> => {
+    const body = await readJson(request);
+    if (!body) {
+      return { response: NextResponse.json({ message: "Invalid JSON body" }, { status: 400 }) };
+    }
+    const error = resource.validate(body.input);
+    if (error) {
+      return { response: NextResponse.json({ message: error }, { status: 400 }) };
+    }
+    const denied = resource.authorize?.(request, body.input, existing);
+    return denied ? { response: denied } : body;
+  };
+
+  return {
+    collection: {
+      async GET() {
+        return NextResponse.json({ [resource.listKey]: resource.list().map(present) });
+      },
+
+      async POST(request: NextRequest) {
+        const parsed = await parseInput(request);
+        if ("response" in parsed) return parsed.response;
+
+        const item = resource.create(toInput(parsed.input));
+        return NextResponse.json({ [resource.key]: present(item) }, { status: 201 });
+      },
+    },
+
+    item: {
+      async GET(request: NextRequest, { params }: ItemContext) {
+        const { id } = await params;
+        const item = resource.get(id);
+
+        if (!item) return notFound();
+        return NextResponse.json({ [resource.key]: present(item) });
+      },
+
+      async PUT(request: NextRequest, { params }: ItemContext) {
+        const { id } = await params;
+        const parsed = await parseInput(request, resource.get(id));
+        if ("response" in parsed) return parsed.response;
+
+        const item = resource.update(id, toInput(parsed.input));
+        if (!item) return notFound();
+        return NextResponse.json({ [resource.key]: present(item) });
+      },
+
+      async DELETE(request: NextRequest, { params }: ItemContext) {
+        const { id } = await params;
+        if (!resource.delete(id)) return notFound();
+        return NextResponse.json({ message: `${resource.label} deleted successfully` });
+      },
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from "vitest";
+import { getLogEventBinId, publishLogEvent, subscribeToLogEvents, type LogEvent } from "./events";
+
+describe("log events", () => {
+  it("reach every subscriber, even when one of them fails", () => {
+    const received: LogEvent[] = [];
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const unsubscribeFailing = subscribeToLogEvents(() => {
+      throw new Error("boom");
+    });
+    const unsubscribe = subscribeToLogEvents((event) => received.push(event));
+
+    publishLogEvent({ type: "cleared", binId: "bin" });
+    unsubscribe();
+    unsubscribeFailing();
+    publishLogEvent({ type: "cleared" });
+
+    expect(received).toEqual([{ type: "cleared", binId: "bin" }]);
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+
+  it("belong to the bin of their log", () => {
+    expect(getLogEventBinId({ type: "deleted", id: "a", binId: "bin" })).toBe("bin");
+    expect(getLogEventBinId({ type: "cleared" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import type { WebhookLog } from "./store";
+
+// Changes to the webhook log store, published as they happen
+export type LogEvent =
+  | { type: "added"; log: WebhookLog }
+  | { type: "deleted"; id: string; binId?: string }
+  | { type: "cleared"; binId?: string };
+
+type LogEventListener = (event: LogEvent) => void;
+
+const listeners = new Set<LogEventListener>();
+
+// Subscribe to log events. Returns a function that removes the listener.
+export function subscribeToLogEvents(listener: LogEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function publishLogEvent(event: LogEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      // A failing subscriber must not break logging for the others
+      console.error("[Events] Log event listener failed:", error);
+    }
+  }
+}
+
+// Bin the event belongs to (undefined for the shared namespace)
+export function getLogEventBinId(event: LogEvent): string | undefined {
+  return event.type === "added" ? event.log.binId : event.binId;
+}
+
+// Resolve with the next added log that satisfies the predicate, or with
+// undefined when the timeout elapses or the signal is aborted
+export function waitForLog(
+  predicate: (log: WebhookLog) => boolean,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<WebhookLog | undefined> {
+  return new Promise((resolve) => {
+    let unsubscribe = () => {};
+
+    const finish = (log?: WebhookLog) => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal?.removeEventListener("abort", onAbort);
+      resolve(log);
+    };
+    const onAbort = () => finish();
+
+    const timer = setTimeout(() => finish(), timeoutMs);
+    unsubscribe = subscribeToLogEvents((event) => {
+      if (event.type === "added" && predicate(event.log)) {
+        finish(event.log);
+      }
+    });
+
+    if (signal?.aborted) {
+      finish();
+    } else {
+      signal?.addEventListener("abort", onAbort);
+    }
+  });
+}
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createExpectation,
+  deleteExpectation,
+  describeTimes,
+  getExpectations,
+  resetExpectation,
+  toJUnitXml,
+  validateExpectationInput,
+  verifyExpectation,
+} from "./expectations";
+import { addWebhookLog, clearWebhookLogs, type WebhookLog } from "./store";
+
+const SINCE = "2024-01-01T00:00:00.000Z";
+
+// Helper function to store a log received `second` seconds after SINCE
+function receive(id: string, second: number, overrides: Partial<WebhookLog> = {}): void {
+  addWebhookLog({
+    id,
+    timestamp: new Date(Date.parse(SINCE) + second * 1000).toISOString(),
+    method: "POST",
+    path: "/webhooks/orders",
+    url: "http://localhost/webhooks/orders",
+    statusCode: 200,
+    headers: {},
+    queryParams: {},
+    body: { type: "created" },
+    ...overrides,
+  });
+}
+
+afterEach(() => {
+  getExpectations().forEach((expectation) => deleteExpectation(expectation.id));
+  clearWebhookLogs();
+});
+
+describe("verifyExpectation", () => {
+  it("counts matching requests in the window, oldest first", () => {
+    const expectation = createExpectation({
+      name: "orders created",
+      match: { method: "POST", path: "orders", body: { type: "created" } },
+      times: { exactly: 2 },
+      since: SINCE,
+    });
+    receive("first", 1);
+    receive("other", 2, { body: { type: "updated" } });
+    receive("second", 3);
+
+    const result = verifyExpectation(expectation);
+    expect(result).toMatchObject({ passed: true, expected: "exactly 2", count: 2, window: { since: SINCE } });
+    expect(result.matches.map((log) => log.id)).toEqual(["first", "second"]);
+    expect(result.nearMisses).toEqual([
+      { log: expect.objectContaining({ id: "other" }), mismatches: ['body.type is "updated", expected "created"'] },
+    ]);
+  });
+
+  it("reports requests outside the window as near misses", () => {
+    const expectation = createExpectation({ match: { path: "orders" }, withinSeconds: 10, since: SINCE });
+    receive("before", -5);
+    receive("late", 30);
+
+    const result = verifyExpectation(expectation);
+    expect(result).toMatchObject({ passed: false, count: 0, window: { until: "2024-01-01T00:00:10.000Z" } });
+    expect(result.nearMisses.map((miss) => miss.mismatches)).toEqual([
+      ["received 30s after the window started, expected within 10s"],
+      [`received before the window started at ${SINCE}`],
+    ]);
+  });
+
+  it("counts from the reset time after a reset", () => {
+    const expectation = createExpectation({ match: {}, times: { atMost: 0 }, since: SINCE });
+    receive("old", 1);
+    expect(verifyExpectation(expectation).passed).toBe(false);
+    expect(verifyExpectation(resetExpectation(expectation.id)!).passed).toBe(true);
+  });
+});
+
+describe("describeTimes", () => {
+  it("describes the expected count", () => {
+    expect(describeTimes({})).toBe("at least 1");
+    expect(describeTimes({ atLeast: 1, atMost: 3 })).toBe("between 1 and 3");
+    expect(describeTimes({ atMost: 2 })).toBe("at most 2");
+  });
+});
+
+describe("toJUnitXml", () => {
+  it("reports failed expectations with their near misses", () => {
+    const expectation = createExpectation({ name: "paid <orders>", match: { body: { type: "paid" } }, since: SINCE });
+    receive("created", 1);
+    const xml = toJUnitXml([verifyExpectation(expectation)]);
+
+    expect(xml).toContain('<testsuites name="mock-webhooks" tests="1" failures="1">');
+    expect(xml).toContain('<testcase classname="webhook-expectations" name="paid &lt;orders&gt;" time="0">');
+    expect(xml).toContain('<failure message="Expected at least 1 matching request(s), got 0" type="ExpectationFailed">');
+    expect(xml).toContain("near miss: POST /webhooks/orders at 2024-01-01T00:00:01.000Z (created): body.type is &quot;created&quot;");
+  });
+});
+
+describe("validateExpectationInput", () => {
+  it("checks the matcher, counts and window", () => {
+    expect(validateExpectationInput({})).toBe("match is required");
+    expect(validateExpectationInput({ match: {}, times: { exactly: 1, atMost: 2 } })).toBe(
+      "times.exactly cannot be combined with atLeast or atMost",
+    );
+    expect(validateExpectationInput({ match: {}, times: { atLeast: 3, atMost: 2 } })).toBe(
+      "times.atLeast cannot be greater than times.atMost",
+    );
+    expect(validateExpectationInput({ match: {}, times: { atLeast: -1 } })).toBe(
+      "times.atLeast must be a non-negative integer",
+    );
+    expect(validateExpectationInput({ match: {}, since: "soon" })).toBe("since must be an ISO date");
+  });
+});
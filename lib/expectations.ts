@@ -0,0 +1,269 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { getRequestMismatches, validateRequestMatcher, type RequestMatcher } from "./match";
+import { getWebhookLogs, type WebhookLog } from "./store";
+import type { CrudResource } from "./crud";
+
+// Constants
+const MAX_NEAR_MISSES = 10;
+const MAX_NEAR_MISS_MISMATCHES = 2; // Logs failing more criteria are not reported
+
+// How many matching requests are expected. Without any bound, at least one.
+export interface ExpectedTimes {
+  exactly?: number;
+  atLeast?: number;
+  atMost?: number;
+}
+
+// A verifiable expectation, e.g. "exactly 2 POSTs to /webhooks/orders with
+// body.type=created within 60s". Requests are counted from `since`.
+export interface Expectation {
+  id: string;
+  name: string;
+  binId?: string; // Count requests of this bin instead of the shared namespace
+  match: RequestMatcher;
+  times: ExpectedTimes;
+  withinSeconds?: number; // Only requests up to this long after `since` count
+  since: string; // Start of the window; the creation or reset time by default
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ExpectationInput = Pick<Expectation, "match"> &
+  Partial<Pick<Expectation, "name" | "binId" | "times" | "withinSeconds" | "since">>;
+
+// A request that almost matched, with the criteria it failed
+export interface NearMiss {
+  log: WebhookLog;
+  mismatches: string[];
+}
+
+export interface VerificationResult {
+  expectationId: string;
+  name: string;
+  passed: boolean;
+  expected: string; // e.g. "exactly 2"
+  count: number; // Matching requests in the window
+  window: { since: string; until?: string };
+  verifiedAt: string;
+  matches: WebhookLog[]; // Oldest first
+  nearMisses: NearMiss[]; // Closest first
+}
+
+const expectations = createCollection<Expectation>("expectations");
+
+export function getExpectations(): Expectation[] {
+  return expectations.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getExpectationById(id: string): Expectation | undefined {
+  return expectations.get(id);
+}
+
+export function createExpectation(input: ExpectationInput): Expectation {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return expectations.set({
+    id,
+    name: input.name?.trim() || `expectation-${id}`,
+    binId: input.binId || undefined,
+    match: input.match,
+    times: input.times ?? {},
+    withinSeconds: input.withinSeconds,
+    since: input.since ? new Date(input.since).toISOString() : now,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Replace an expectation's definition. Its window start is kept unless `since` is given.
+export function updateExpectation(id: string, input: ExpectationInput): Expectation | undefined {
+  const existing = expectations.get(id);
+  if (!existing) return undefined;
+  return expectations.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    binId: input.binId || undefined,
+    match: input.match,
+    times: input.times ?? {},
+    withinSeconds: input.withinSeconds,
+    since: input.since ? new Date(input.since).toISOString() : existing.since,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteExpectation(id: string): boolean {
+  return expectations.delete(id);
+}
+
+// Start counting again from now, e.g. at the beginning of a test run
+export function resetExpectation(id: string): Expectation | undefined {
+  const existing = expectations.get(id);
+  if (!existing) return undefined;
+  const now = new Date().toISOString();
+  return expectations.set({ ...existing, since: now, updatedAt: now });
+}
+
+// Helper function to describe the expected count, e.g. "between 1 and 3"
+export function describeTimes(times: ExpectedTimes): string {
+  if (times.exactly !== undefined) return `exactly ${times.exactly}`;
+  if (times.atLeast !== undefined && times.atMost !== undefined) {
+    return `between ${times.atLeast} and ${times.atMost}`;
+  }
+  if (times.atMost !== undefined) return `at most ${times.atMost}`;
+  return `at least ${times.atLeast ?? 1}`;
+}
+
+function isCountSatisfied(times: ExpectedTimes, count: number): boolean {
+  if (times.exactly !== undefined) return count === times.exactly;
+  if (times.atMost !== undefined && count > times.atMost) return false;
+  return count >= (times.atLeast ?? (times.atMost !== undefined ? 0 : 1));
+}
+
+// Count the requests matching an expectation and collect the near misses:
+// requests failing only one or two criteria, including the time window
+export function verifyExpectation(expectation: Expectation, now: number = Date.now()): VerificationResult {
+  const since = new Date(expectation.since).getTime();
+  const until = expectation.withinSeconds ? since + expectation.withinSeconds * 1000 : undefined;
+
+  const matches: WebhookLog[] = [];
+  const nearMisses: NearMiss[] = [];
+  for (const log of getWebhookLogs(expectation.binId)) {
+    const mismatches = getRequestMismatches(expectation.match, log);
+    const time = new Date(log.timestamp).getTime();
+    if (time < since) {
+      mismatches.push(`received before the window started at ${expectation.since}`);
+    } else if (until !== undefined && time > until) {
+      mismatches.push(`received ${Math.round((time - since) / 1000)}s after the window started, expected within ${expectation.withinSeconds}s`);
+    }
+
+    if (mismatches.length === 0) {
+      matches.push(log);
+    } else if (mismatches.length <= MAX_NEAR_MISS_MISMATCHES) {
+      nearMisses.push({ log, mismatches });
+    }
+  }
+
+  // Logs are newest first; fewer failed criteria are closer
+  nearMisses.sort((a, b) => a.mismatches.length - b.mismatches.length);
+  matches.reverse();
+
+  return {
+    expectationId: expectation.id,
+    name: expectation.name,
+    passed: isCountSatisfied(expectation.times, matches.length),
+    expected: describeTimes(expectation.times),
+    count: matches.length,
+    window: {
+      since: expectation.since,
+      until: until !== undefined ? new Date(until).toISOString() : undefined,
+    },
+    verifiedAt: new Date(now).toISOString(),
+    matches,
+    nearMisses: nearMisses.slice(0, MAX_NEAR_MISSES),
+  };
+}
+
+// Helper function to escape text for XML attributes and content
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// JUnit XML report with one test case per expectation, for CI test publishers
+export function toJUnitXml(results: VerificationResult[]): string {
+  const failures = results.filter((result) => !result.passed).length;
+  const timestamp = results[0]?.verifiedAt ?? new Date().toISOString();
+  const testcases = results.map((result) => {
+    const open = `    <testcase classname="webhook-expectations" name="${escapeXml(result.name)}" time="0">`;
+    if (result.passed) {
+      return `${open}\n      <system-out>${escapeXml(`${result.count} matching request(s), expected ${result.expected}`)}</system-out>\n    </testcase>`;
+    }
+    const message = `Expected ${result.expected} matching request(s), got ${result.count}`;
+    const details = [
+      message,
+      ...result.matches.map((log) => `match: ${log.method} ${log.path} at ${log.timestamp} (${log.id})`),
+      ...result.nearMisses.map(
+        (miss) =>
+          `near miss: ${miss.log.method} ${miss.log.path} at ${miss.log.timestamp} (${miss.log.id}): ${miss.mismatches.join("; ")}`,
+      ),
+    ].join("\n");
+    return `${open}\n      <failure message="${escapeXml(message)}" type="ExpectationFailed">${escapeXml(details)}</failure>\n    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="mock-webhooks" tests="${results.length}" failures="${failures}">`,
+    `  <testsuite name="webhook-expectations" tests="${results.length}" failures="${failures}" errors="0" skipped="0" timestamp="${timestamp}">`,
+    ...testcases,
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+// Helper function to validate an expectation received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateExpectationInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Expectation must be a JSON object";
+  }
+  if (input.match === undefined) {
+    return "match is required";
+  }
+  const matcherError = validateRequestMatcher(input.match);
+  if (matcherError) return matcherError;
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  if (input.binId !== undefined && typeof input.binId !== "string") {
+    return "binId must be a string";
+  }
+  if (input.times !== undefined) {
+    const { times } = input;
+    if (typeof times !== "object" || times === null || Array.isArray(times)) {
+      return "times must be an object";
+    }
+    for (const key of ["exactly", "atLeast", "atMost"]) {
+      if (times[key] !== undefined && (!Number.isInteger(times[key]) || times[key] < 0)) {
+        return `times.${key} must be a non-negative integer`;
+      }
+    }
+    if (times.exactly !== undefined && (times.atLeast !== undefined || times.atMost !== undefined)) {
+      return "times.exactly cannot be combined with atLeast or atMost";
+    }
+    if (times.atLeast !== undefined && times.atMost !== undefined && times.atLeast > times.atMost) {
+      return "times.atLeast cannot be greater than times.atMost";
+    }
+  }
+  if (
+    input.withinSeconds !== undefined &&
+    (!Number.isInteger(input.withinSeconds) || input.withinSeconds < 1)
+  ) {
+    return "withinSeconds must be a positive integer";
+  }
+  if (
+    input.since !== undefined &&
+    (typeof input.since !== "string" || isNaN(new Date(input.since).getTime()))
+  ) {
+    return "since must be an ISO date";
+  }
+  return undefined;
+}
+
+// Served by /api/expectations and /api/expectations/{id}
+export const expectationResource: CrudResource<Expectation, ExpectationInput> = {
+  key: "expectation",
+  listKey: "expectations",
+  label: "Expectation",
+  list: getExpectations,
+  get: getExpectationById,
+  create: createExpectation,
+  update: updateExpectation,
+  delete: deleteExpectation,
+  validate: validateExpectationInput,
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFixtureSendInput,
+  getFixtureById,
+  getFixtures,
+  signTwilioRequest,
+  validateFixtureSendInput,
+} from "./fixtures";
+import { signPayload, verifySignature, type SignatureConfig } from "./signatures";
+
+const TARGET_URL = "http://localhost:3000/webhooks/provider";
+const SECRET = "whsec_fixture";
+
+describe("fixtures", () => {
+  it("have unique ids and a content type", () => {
+    const fixtures = getFixtures();
+    expect(new Set(fixtures.map((fixture) => fixture.id)).size).toBe(fixtures.length);
+    for (const fixture of fixtures) {
+      expect(fixture.method).toBe("POST");
+      expect(fixture.headers["Content-Type"]).toBeDefined();
+    }
+  });
+
+  it("generate a fresh payload each time", () => {
+    const first = getFixtureById("stripe-payment-intent-succeeded")!;
+    const second = getFixtureById("stripe-payment-intent-succeeded")!;
+    expect(first.body.type).toBe("payment_intent.succeeded");
+    expect(first.body.id).not.toBe(second.body.id);
+    expect(getFixtureById("missing")).toBeUndefined();
+  });
+});
+
+describe("buildFixtureSendInput", () => {
+  it("signs payloads so the provider's signature scheme verifies them", () => {
+    const signed = getFixtures().filter((fixture) => fixture.signatureScheme && fixture.signatureScheme !== "twilio");
+    expect(signed.length).toBeGreaterThan(0);
+    for (const fixture of signed) {
+      const input = buildFixtureSendInput(fixture, TARGET_URL, { secret: SECRET });
+      const headers = { ...input.headers, ...signPayload(input.signing!, input.body!) };
+      const config = { scheme: fixture.signatureScheme, secret: SECRET } as SignatureConfig;
+      expect(verifySignature(config, Buffer.from(input.body!), headers)).toEqual({
+        scheme: fixture.signatureScheme,
+        valid: true,
+      });
+    }
+  });
+
+  it("signs Twilio requests over the URL and form parameters", () => {
+    const fixture = getFixtureById("twilio-sms-received")!;
+    const input = buildFixtureSendInput(fixture, TARGET_URL, { secret: SECRET, headers: { "X-Extra": "1" } });
+    expect(input.signing).toBeUndefined();
+    expect(input.headers).toMatchObject({
+      "X-Twilio-Signature": signTwilioRequest(SECRET, TARGET_URL, fixture.body),
+      "X-Extra": "1",
+    });
+    expect(Object.fromEntries(new URLSearchParams(input.body!))).toEqual(fixture.body);
+  });
+
+  it("leaves requests unsigned without a secret", () => {
+    const input = buildFixtureSendInput(getFixtureById("github-push")!, TARGET_URL, {});
+    expect(input.signing).toBeUndefined();
+    expect(JSON.parse(input.body!)).toHaveProperty("repository");
+  });
+});
+
+describe("validateFixtureSendInput", () => {
+  it("requires either a /webhooks path or a URL", () => {
+    expect(validateFixtureSendInput({})).toBe("Either path or url is required");
+    expect(validateFixtureSendInput({ path: "/webhooks/a", url: TARGET_URL })).toBe("Either path or url is required");
+    expect(validateFixtureSendInput({ path: "/api/logs" })).toBe("path must start with /webhooks");
+    expect(validateFixtureSendInput({ path: "/webhooks/a", secret: 1 })).toBe("secret must be a string");
+    expect(validateFixtureSendInput({ url: TARGET_URL })).toBeUndefined();
+  });
+});
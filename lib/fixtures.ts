@@ -0,0 +1,532 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import type { SignatureScheme, SigningOptions } from "./signatures";
+import type { SendInput } from "./sender";
+
+// Constants
+const GITHUB_REPO = {
+  id: 786512345,
+  name: "mock-webhooks",
+  full_name: "octo-org/mock-webhooks",
+  private: false,
+  html_url: "https://github.com/octo-org/mock-webhooks",
+  default_branch: "main",
+};
+const GITHUB_SENDER = { login: "octocat", id: 583231, type: "User" };
+const SHOPIFY_SHOP = "mock-store.myshopify.com";
+const TWILIO_ACCOUNT_SID = "AC00000000000000000000000000000000";
+
+export type FixtureProvider = "github" | "stripe" | "slack" | "shopify" | "twilio";
+export type FixtureSignatureScheme = SignatureScheme | "twilio";
+
+// A realistic provider request. Headers and body use the same shapes as
+// WebhookLog; form-encoded bodies are plain objects of strings.
+export interface Fixture {
+  id: string;
+  provider: FixtureProvider;
+  event: string;
+  name: string;
+  description: string;
+  signatureScheme?: FixtureSignatureScheme; // Applied when a secret is given
+  method: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+interface FixtureDefinition extends Omit<Fixture, "method" | "headers" | "body"> {
+  build: () => { headers: Record<string, string>; body: any };
+}
+
+// Helper function to generate provider-style ids
+function randomId(prefix: string, bytes: number = 12): string {
+  return `${prefix}${randomBytes(bytes).toString("hex")}`;
+}
+
+function unixSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function githubHeaders(event: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "User-Agent": "GitHub-Hookshot/5d8c2f1",
+    "X-GitHub-Event": event,
+    "X-GitHub-Delivery": randomUUID(),
+    "X-GitHub-Hook-ID": "471093825",
+    "X-GitHub-Hook-Installation-Target-Type": "repository",
+    "X-GitHub-Hook-Installation-Target-ID": String(GITHUB_REPO.id),
+  };
+}
+
+function stripeEvent(type: string, object: Record<string, any>) {
+  return {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "User-Agent": "Stripe/1.0 (+https://stripe.com/docs/webhooks)",
+    },
+    body: {
+      id: randomId("evt_", 12),
+      object: "event",
+      api_version: "2024-06-20",
+      created: unixSeconds(),
+      data: { object },
+      livemode: false,
+      pending_webhooks: 1,
+      request: { id: randomId("req_", 7), idempotency_key: randomUUID() },
+      type,
+    },
+  };
+}
+
+function slackHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "User-Agent": "Slackbot 1.0 (+https://api.slack.com/robots)",
+  };
+}
+
+function shopifyHeaders(topic: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "User-Agent": "Shopify-Captain-Hook",
+    "X-Shopify-Topic": topic,
+    "X-Shopify-Shop-Domain": SHOPIFY_SHOP,
+    "X-Shopify-API-Version": "2024-07",
+    "X-Shopify-Webhook-Id": randomUUID(),
+    "X-Shopify-Event-Id": randomUUID(),
+    "X-Shopify-Triggered-At": new Date().toISOString(),
+  };
+}
+
+function shopifyOrder(financialStatus: string) {
+  const id = 5000000000000 + Math.floor(Math.random() * 1000000000);
+  return {
+    id,
+    admin_graphql_api_id: `gid://shopify/Order/${id}`,
+    name: `#${1000 + Math.floor(Math.random() * 9000)}`,
+    email: "jane.doe@example.com",
+    created_at: new Date().toISOString(),
+    currency: "USD",
+    financial_status: financialStatus,
+    fulfillment_status: null,
+    subtotal_price: "45.00",
+    total_tax: "3.60",
+    total_price: "48.60",
+    line_items: [
+      {
+        id: id + 1,
+        title: "Mock T-Shirt",
+        quantity: 2,
+        price: "22.50",
+        sku: "MOCK-TS-001",
+      },
+    ],
+    customer: { id: 7000000000001, email: "jane.doe@example.com", first_name: "Jane", last_name: "Doe" },
+  };
+}
+
+function twilioHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/x-www-form-urlencoded",
+    "User-Agent": "TwilioProxy/1.1",
+    "I-Twilio-Idempotency-Token": randomUUID(),
+  };
+}
+
+const FIXTURES: FixtureDefinition[] = [
+  {
+    id: "github-push",
+    provider: "github",
+    event: "push",
+    name: "GitHub push",
+    description: "Commits pushed to the default branch",
+    signatureScheme: "github",
+    build: () => {
+      const after = randomBytes(20).toString("hex");
+      return {
+        headers: githubHeaders("push"),
+        body: {
+          ref: "refs/heads/main",
+          before: randomBytes(20).toString("hex"),
+          after,
+          created: false,
+          deleted: false,
+          forced: false,
+          compare: `${GITHUB_REPO.html_url}/compare/${after.slice(0, 12)}`,
+          commits: [
+            {
+              id: after,
+              message: "Fix webhook retry handling",
+              timestamp: new Date().toISOString(),
+              author: { name: "Octo Cat", email: "octocat@example.com", username: "octocat" },
+              added: [],
+              removed: [],
+              modified: ["lib/sender.ts"],
+            },
+          ],
+          head_commit: { id: after, message: "Fix webhook retry handling" },
+          repository: GITHUB_REPO,
+          pusher: { name: "octocat", email: "octocat@example.com" },
+          sender: GITHUB_SENDER,
+        },
+      };
+    },
+  },
+  {
+    id: "github-pull-request-opened",
+    provider: "github",
+    event: "pull_request.opened",
+    name: "GitHub pull request opened",
+    description: "A pull request was opened against the default branch",
+    signatureScheme: "github",
+    build: () => {
+      const number = 1 + Math.floor(Math.random() * 500);
+      return {
+        headers: githubHeaders("pull_request"),
+        body: {
+          action: "opened",
+          number,
+          pull_request: {
+            id: 1900000000 + number,
+            number,
+            state: "open",
+            title: "Add outbound sender",
+            html_url: `${GITHUB_REPO.html_url}/pull/${number}`,
+            user: GITHUB_SENDER,
+            draft: false,
+            head: { ref: "feature/sender", sha: randomBytes(20).toString("hex") },
+            base: { ref: "main", sha: randomBytes(20).toString("hex") },
+            created_at: new Date().toISOString(),
+          },
+          repository: GITHUB_REPO,
+          sender: GITHUB_SENDER,
+        },
+      };
+    },
+  },
+  {
+    id: "stripe-payment-intent-succeeded",
+    provider: "stripe",
+    event: "payment_intent.succeeded",
+    name: "Stripe payment_intent.succeeded",
+    description: "A PaymentIntent completed successfully",
+    signatureScheme: "stripe",
+    build: () =>
+      stripeEvent("payment_intent.succeeded", {
+        id: randomId("pi_", 12),
+        object: "payment_intent",
+        amount: 4860,
+        amount_received: 4860,
+        currency: "usd",
+        status: "succeeded",
+        customer: randomId("cus_", 7),
+        latest_charge: randomId("ch_", 12),
+        metadata: { order_id: "1001" },
+        created: unixSeconds(),
+      }),
+  },
+  {
+    id: "stripe-payment-intent-failed",
+    provider: "stripe",
+    event: "payment_intent.payment_failed",
+    name: "Stripe payment_intent.payment_failed",
+    description: "A PaymentIntent failed because the card was declined",
+    signatureScheme: "stripe",
+    build: () =>
+      stripeEvent("payment_intent.payment_failed", {
+        id: randomId("pi_", 12),
+        object: "payment_intent",
+        amount: 4860,
+        currency: "usd",
+        status: "requires_payment_method",
+        last_payment_error: {
+          code: "card_declined",
+          decline_code: "insufficient_funds",
+          message: "Your card has insufficient funds.",
+          type: "card_error",
+        },
+        created: unixSeconds(),
+      }),
+  },
+  {
+    id: "stripe-charge-succeeded",
+    provider: "stripe",
+    event: "charge.succeeded",
+    name: "Stripe charge.succeeded",
+    description: "A charge was captured",
+    signatureScheme: "stripe",
+    build: () =>
+      stripeEvent("charge.succeeded", {
+        id: randomId("ch_", 12),
+        object: "charge",
+        amount: 4860,
+        amount_captured: 4860,
+        currency: "usd",
+        paid: true,
+        captured: true,
+        status: "succeeded",
+        payment_intent: randomId("pi_", 12),
+        payment_method_details: { type: "card", card: { brand: "visa", last4: "4242" } },
+        created: unixSeconds(),
+      }),
+  },
+  {
+    id: "stripe-charge-refunded",
+    provider: "stripe",
+    event: "charge.refunded",
+    name: "Stripe charge.refunded",
+    description: "A charge was fully refunded",
+    signatureScheme: "stripe",
+    build: () =>
+      stripeEvent("charge.refunded", {
+        id: randomId("ch_", 12),
+        object: "charge",
+        amount: 4860,
+        amount_refunded: 4860,
+        currency: "usd",
+        refunded: true,
+        status: "succeeded",
+        created: unixSeconds(),
+      }),
+  },
+  {
+    id: "slack-url-verification",
+    provider: "slack",
+    event: "url_verification",
+    name: "Slack URL verification",
+    description: "Challenge sent when an Events API request URL is configured",
+    signatureScheme: "slack",
+    build: () => ({
+      headers: slackHeaders(),
+      body: {
+        token: "Jhj5dZrVaK7ZwHHjRyZWjbDl",
+        challenge: randomBytes(24).toString("base64url"),
+        type: "url_verification",
+      },
+    }),
+  },
+  {
+    id: "slack-app-mention",
+    provider: "slack",
+    event: "event_callback.app_mention",
+    name: "Slack app_mention",
+    description: "The app was mentioned in a channel",
+    signatureScheme: "slack",
+    build: () => {
+      const ts = `${unixSeconds()}.000200`;
+      return {
+        headers: slackHeaders(),
+        body: {
+          token: "Jhj5dZrVaK7ZwHHjRyZWjbDl",
+          team_id: "T061EG9R6",
+          api_app_id: "A0MDYCDME",
+          event: {
+            type: "app_mention",
+            user: "U061F7AUR",
+            text: "<@U0LAN0Z89> is the deploy done?",
+            ts,
+            channel: "C0LAN2Q65",
+            event_ts: ts,
+          },
+          type: "event_callback",
+          event_id: randomId("Ev", 5).toUpperCase(),
+          event_time: unixSeconds(),
+        },
+      };
+    },
+  },
+  {
+    id: "slack-message",
+    provider: "slack",
+    event: "event_callback.message",
+    name: "Slack message",
+    description: "A message was posted in a channel the app is in",
+    signatureScheme: "slack",
+    build: () => {
+      const ts = `${unixSeconds()}.000100`;
+      return {
+        headers: slackHeaders(),
+        body: {
+          token: "Jhj5dZrVaK7ZwHHjRyZWjbDl",
+          team_id: "T061EG9R6",
+          api_app_id: "A0MDYCDME",
+          event: {
+            type: "message",
+            channel: "C0LAN2Q65",
+            user: "U061F7AUR",
+            text: "Hello from the mock Slack workspace",
+            ts,
+            channel_type: "channel",
+            event_ts: ts,
+          },
+          type: "event_callback",
+          event_id: randomId("Ev", 5).toUpperCase(),
+          event_time: unixSeconds(),
+        },
+      };
+    },
+  },
+  {
+    id: "shopify-orders-create",
+    provider: "shopify",
+    event: "orders/create",
+    name: "Shopify orders/create",
+    description: "A new order was placed",
+    signatureScheme: "shopify",
+    build: () => ({ headers: shopifyHeaders("orders/create"), body: shopifyOrder("pending") }),
+  },
+  {
+    id: "shopify-orders-paid",
+    provider: "shopify",
+    event: "orders/paid",
+    name: "Shopify orders/paid",
+    description: "An order's payment was captured",
+    signatureScheme: "shopify",
+    build: () => ({ headers: shopifyHeaders("orders/paid"), body: shopifyOrder("paid") }),
+  },
+  {
+    id: "twilio-sms-received",
+    provider: "twilio",
+    event: "sms.received",
+    name: "Twilio incoming SMS",
+    description: "An SMS was received on a Twilio number",
+    signatureScheme: "twilio",
+    build: () => {
+      const sid = randomId("SM", 16);
+      return {
+        headers: twilioHeaders(),
+        body: {
+          ToCountry: "US",
+          ToState: "CA",
+          SmsMessageSid: sid,
+          NumMedia: "0",
+          ToCity: "SAN FRANCISCO",
+          FromZip: "94105",
+          SmsSid: sid,
+          FromState: "CA",
+          SmsStatus: "received",
+          FromCity: "SAN FRANCISCO",
+          Body: "Hello from the mock Twilio number",
+          FromCountry: "US",
+          To: "+15005550006",
+          ToZip: "94105",
+          NumSegments: "1",
+          MessageSid: sid,
+          AccountSid: TWILIO_ACCOUNT_SID,
+          From: "+14155550100",
+          ApiVersion: "2010-04-01",
+        },
+      };
+    },
+  },
+  {
+    id: "twilio-sms-status",
+    provider: "twilio",
+    event: "sms.status",
+    name: "Twilio SMS status callback",
+    description: "An outbound SMS was delivered",
+    signatureScheme: "twilio",
+    build: () => {
+      const sid = randomId("SM", 16);
+      return {
+        headers: twilioHeaders(),
+        body: {
+          SmsSid: sid,
+          SmsStatus: "delivered",
+          MessageStatus: "delivered",
+          To: "+14155550100",
+          MessageSid: sid,
+          AccountSid: TWILIO_ACCOUNT_SID,
+          From: "+15005550006",
+          ApiVersion: "2010-04-01",
+        },
+      };
+    },
+  },
+];
+
+// Helper function to turn a definition into a fixture with a fresh payload
+function buildFixture({ build, ...definition }: FixtureDefinition): Fixture {
+  const { headers, body } = build();
+  return { ...definition, method: "POST", headers, body };
+}
+
+// Every fixture with a freshly generated sample payload
+export function getFixtures(): Fixture[] {
+  return FIXTURES.map(buildFixture);
+}
+
+export function getFixtureById(id: string): Fixture | undefined {
+  const definition = FIXTURES.find((fixture) => fixture.id === id);
+  return definition ? buildFixture(definition) : undefined;
+}
+
+// Twilio signs the full URL followed by the POST parameters sorted by name
+export function signTwilioRequest(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  return createHmac("sha1", authToken).update(payload).digest("base64");
+}
+
+// Helper function to serialize a fixture body for its content type
+function serializeFixtureBody(fixture: Fixture): string {
+  return fixture.headers["Content-Type"] === "application/x-www-form-urlencoded"
+    ? new URLSearchParams(fixture.body).toString()
+    : JSON.stringify(fixture.body);
+}
+
+// Build the send request for a fixture. With a secret, the request is signed
+// the way the provider signs it.
+export function buildFixtureSendInput(
+  fixture: Fixture,
+  url: string,
+  options: Pick<SendInput, "headers" | "retry" | "timeoutSeconds"> & { secret?: string },
+): SendInput {
+  const headers = { ...fixture.headers };
+  let signing: SigningOptions | undefined;
+
+  const scheme = fixture.signatureScheme;
+  if (options.secret && scheme) {
+    if (scheme === "twilio") {
+      headers["X-Twilio-Signature"] = signTwilioRequest(options.secret, url, fixture.body);
+    } else {
+      signing = { scheme, secret: options.secret };
+    }
+  }
+
+  return {
+    url,
+    method: fixture.method,
+    headers: { ...headers, ...options.headers },
+    body: serializeFixtureBody(fixture),
+    signing,
+    retry: options.retry,
+    timeoutSeconds: options.timeoutSeconds,
+  };
+}
+
+// Helper function to validate a fixture send request received through the API.
+// Either `path` (a /webhooks path on this server) or `url` is required; the
+// remaining fields are checked with the send request.
+export function validateFixtureSendInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Request body must be a JSON object";
+  }
+  if ((input.path === undefined) === (input.url === undefined)) {
+    return "Either path or url is required";
+  }
+  if (
+    input.path !== undefined &&
+    (typeof input.path !== "string" || !/^\/webhooks(\/|$)/.test(input.path))
+  ) {
+    return "path must start with /webhooks";
+  }
+  if (input.secret !== undefined && typeof input.secret !== "string") {
+    return "secret must be a string";
+  }
+  return undefined;
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  buildForwardUrl,
+  createForwardConfig,
+  deleteForwardConfig,
+  findForwardConfig,
+  getForwardConfigs,
+  updateForwardConfig,
+  validateForwardConfigInput,
+} from "./forwarding";
+
+afterEach(() => {
+  getForwardConfigs().forEach((config) => deleteForwardConfig(config.id));
+});
+
+describe("buildForwardUrl", () => {
+  it("appends the query parameters, and the path below the glob prefix when asked", () => {
+    const config = createForwardConfig({ path: "/webhooks/github/**", targetUrl: "http://upstream/hooks/?v=1" });
+    expect(buildForwardUrl(config, "/webhooks/github/push", { a: "1" })).toBe("http://upstream/hooks/?v=1&a=1");
+
+    const appending = createForwardConfig({ path: "github/**", targetUrl: "http://upstream/hooks/", appendPath: true });
+    expect(buildForwardUrl(appending, "/webhooks/github/push/main", {})).toBe("http://upstream/hooks/push/main");
+  });
+});
+
+describe("findForwardConfig", () => {
+  it("returns the first enabled configuration covering the path", () => {
+    const config = createForwardConfig({ path: "/webhooks/github/**", targetUrl: "http://upstream/" });
+    expect(findForwardConfig("/webhooks/github")?.id).toBe(config.id);
+    expect(findForwardConfig("/webhooks/stripe")).toBeUndefined();
+
+    updateForwardConfig(config.id, { path: config.path, targetUrl: config.targetUrl, enabled: false });
+    expect(findForwardConfig("/webhooks/github")).toBeUndefined();
+  });
+});
+
+describe("validateForwardConfigInput", () => {
+  it("requires a path and an absolute http(s) target", () => {
+    expect(validateForwardConfigInput({ targetUrl: "http://upstream/" })).toBe("path is required");
+    expect(validateForwardConfigInput({ path: "/webhooks/**", targetUrl: "upstream" })).toBe(
+      "targetUrl must be an absolute URL",
+    );
+    expect(validateForwardConfigInput({ path: "/webhooks/**", targetUrl: "http://upstream/", timeoutSeconds: 0 })).toBe(
+      "timeoutSeconds must be an integer between 1 and 300",
+    );
+  });
+});
@@ -0,0 +1,222 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { matchPathGlob, normalizePathPattern } from "./match";
+import {
+  sendHttpRequestRaw,
+  type OutgoingResponse,
+} from "./http-client";
+import type { CrudResource } from "./crud";
+
+// Constants
+const MIN_FORWARD_TIMEOUT_SECONDS = 1;
+const MAX_FORWARD_TIMEOUT_SECONDS = 300; // 5 minutes
+const DEFAULT_FORWARD_TIMEOUT_SECONDS = 30;
+
+// Upstream response headers that describe the upstream connection or the
+// (already decoded) encoding and must not be relayed to the caller
+const EXCLUDED_RESPONSE_HEADERS = [
+  "connection",
+  "content-encoding",
+  "content-length",
+  "keep-alive",
+  "transfer-encoding",
+];
+
+// Pass-through configuration: webhooks whose path matches `path` are
+// logged as usual, relayed to `targetUrl`, and answered with the upstream response
+export interface ForwardConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  path: string; // Path glob, e.g. /webhooks/github/**
+  targetUrl: string;
+  appendPath: boolean; // Append the part of the path matched by the glob to targetUrl
+  timeoutSeconds: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ForwardConfigInput = Pick<ForwardConfig, "path" | "targetUrl"> &
+  Partial<Pick<ForwardConfig, "name" | "enabled" | "appendPath" | "timeoutSeconds">>;
+
+// Forwarding outcome recorded on the webhook log
+export interface ForwardResult {
+  configId: string;
+  url: string;
+  response: OutgoingResponse;
+}
+
+// The incoming request being forwarded
+export interface ForwardableRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  queryParams: Record<string, string>;
+  rawBody: Buffer | null;
+}
+
+const forwardConfigs = createCollection<ForwardConfig>("forwards");
+
+export function getForwardConfigs(): ForwardConfig[] {
+  return forwardConfigs.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getForwardConfigById(id: string): ForwardConfig | undefined {
+  return forwardConfigs.get(id);
+}
+
+export function createForwardConfig(input: ForwardConfigInput): ForwardConfig {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return forwardConfigs.set({
+    id,
+    name: input.name?.trim() || `forward-${id}`,
+    enabled: input.enabled ?? true,
+    path: input.path.trim(),
+    targetUrl: input.targetUrl,
+    appendPath: input.appendPath ?? false,
+    timeoutSeconds: input.timeoutSeconds ?? DEFAULT_FORWARD_TIMEOUT_SECONDS,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateForwardConfig(
+  id: string,
+  input: ForwardConfigInput,
+): ForwardConfig | undefined {
+  const existing = forwardConfigs.get(id);
+  if (!existing) return undefined;
+  return forwardConfigs.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    path: input.path.trim(),
+    targetUrl: input.targetUrl,
+    appendPath: input.appendPath ?? existing.appendPath,
+    timeoutSeconds: input.timeoutSeconds ?? existing.timeoutSeconds,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteForwardConfig(id: string): boolean {
+  return forwardConfigs.delete(id);
+}
+
+// First enabled configuration whose path glob matches the webhook path
+export function findForwardConfig(path: string): ForwardConfig | undefined {
+  return getForwardConfigs().find(
+    (config) => config.enabled && matchPathGlob(config.path, path),
+  );
+}
+
+// Helper function to get the part of a path below the static prefix of a
+// glob, e.g. "/webhooks/github/**" + "/webhooks/github/push" -> "/push"
+function getPathRemainder(pattern: string, path: string): string {
+  const segments = normalizePathPattern(pattern).split("/");
+  const wildcardIndex = segments.findIndex((segment) => /[*?]/.test(segment));
+  const prefix = (wildcardIndex === -1 ? segments : segments.slice(0, wildcardIndex)).join("/");
+  return path.startsWith(prefix) ? path.slice(prefix.length) : "";
+}
+
+// Build the upstream URL for a request
+export function buildForwardUrl(
+  config: ForwardConfig,
+  path: string,
+  queryParams: Record<string, string>,
+): string {
+  const url = new URL(config.targetUrl);
+  if (config.appendPath) {
+    const remainder = getPathRemainder(config.path, path);
+    url.pathname = `${url.pathname.replace(/\/$/, "")}${remainder}`;
+  }
+  for (const [key, value] of Object.entries(queryParams)) {
+    url.searchParams.append(key, value);
+  }
+  return url.toString();
+}
+
+// Relay a request to the configured upstream. Returns the stored result and
+// the headers and exact body bytes to send back to the caller.
+export async function forwardWebhook(
+  config: ForwardConfig,
+  request: ForwardableRequest,
+): Promise<{
+  result: ForwardResult;
+  responseHeaders: Record<string, string>;
+  responseBody: Buffer | null;
+}> {
+  const url = buildForwardUrl(config, request.path, request.queryParams);
+  const { response, rawBody } = await sendHttpRequestRaw({
+    method: request.method,
+    url,
+    headers: request.headers,
+    body: request.rawBody,
+    timeoutMs: config.timeoutSeconds * 1000,
+  });
+
+  const responseHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers)) {
+    if (!EXCLUDED_RESPONSE_HEADERS.includes(name.toLowerCase())) {
+      responseHeaders[name] = value;
+    }
+  }
+
+  return {
+    result: { configId: config.id, url, response },
+    responseHeaders,
+    responseBody: rawBody,
+  };
+}
+
+// Helper function to validate a forwarding configuration received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateForwardConfigInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Forwarding configuration must be a JSON object";
+  }
+  if (typeof input.path !== "string" || !input.path.trim()) {
+    return "path is required";
+  }
+  if (typeof input.targetUrl !== "string") {
+    return "targetUrl is required";
+  }
+  try {
+    const url = new URL(input.targetUrl);
+    if (!["http:", "https:"].includes(url.protocol)) {
+      return "targetUrl must use http or https";
+    }
+  } catch {
+    return "targetUrl must be an absolute URL";
+  }
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  for (const field of ["enabled", "appendPath"]) {
+    if (input[field] !== undefined && typeof input[field] !== "boolean") {
+      return `${field} must be a boolean`;
+    }
+  }
+  if (
+    input.timeoutSeconds !== undefined &&
+    (!Number.isInteger(input.timeoutSeconds) ||
+      input.timeoutSeconds < MIN_FORWARD_TIMEOUT_SECONDS ||
+      input.timeoutSeconds > MAX_FORWARD_TIMEOUT_SECONDS)
+  ) {
+    return `timeoutSeconds must be an integer between ${MIN_FORWARD_TIMEOUT_SECONDS} and ${MAX_FORWARD_TIMEOUT_SECONDS}`;
+  }
+  return undefined;
+}
+
+// Served by /api/forwards and /api/forwards/{id}
+export const forwardResource: CrudResource<ForwardConfig, ForwardConfigInput> = {
+  key: "forward",
+  listKey: "forwards",
+  label: "Forwarding configuration",
+  list: getForwardConfigs,
+  get: getForwardConfigById,
+  create: createForwardConfig,
+  update: updateForwardConfig,
+  delete: deleteForwardConfig,
+  validate: validateForwardConfigInput,
+};
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createHandshakeConfig,
+  deleteHandshakeConfig,
+  getHandshakeConfigs,
+  respondToHandshake,
+  type HandshakeRequest,
+} from "./handshakes";
+
+// Helper function to build a request to the handshake path
+function makeRequest(overrides: Partial<HandshakeRequest> = {}): HandshakeRequest {
+  return { method: "GET", path: "/webhooks/verify", queryParams: {}, body: null, ...overrides };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  getHandshakeConfigs().forEach((config) => deleteHandshakeConfig(config.id));
+});
+
+describe("respondToHandshake", () => {
+  it("answers each provider's challenge the way it expects", () => {
+    const config = createHandshakeConfig({ path: "/webhooks/**" });
+
+    const slack = respondToHandshake(
+      makeRequest({ method: "POST", body: { type: "url_verification", challenge: "abc" } }),
+    );
+    expect(slack).toMatchObject({ statusCode: 200, body: '{"challenge":"abc"}' });
+    expect(slack?.result).toEqual({ provider: "slack", challenge: "abc", verified: true, configId: config.id });
+
+    const meta = respondToHandshake(makeRequest({ queryParams: { "hub.mode": "subscribe", "hub.challenge": "42" } }));
+    expect(meta).toMatchObject({ statusCode: 200, body: "42", result: { provider: "meta" } });
+
+    const graph = respondToHandshake(makeRequest({ method: "POST", queryParams: { validationToken: "t" } }));
+    expect(graph).toMatchObject({ statusCode: 200, body: "t", result: { provider: "graph" } });
+    expect(graph?.headers["Content-Type"]).toBe("text/plain; charset=utf-8");
+
+    const dropbox = respondToHandshake(makeRequest({ queryParams: { challenge: "c" } }));
+    expect(dropbox).toMatchObject({ body: "c", result: { provider: "dropbox" } });
+
+    expect(respondToHandshake(makeRequest({ method: "POST", body: { type: "event_callback" } }))).toBeUndefined();
+  });
+
+  it("rejects Meta subscriptions with the wrong verify token", () => {
+    createHandshakeConfig({ path: "/webhooks/**", mode: "meta", verifyToken: "secret" });
+    const query = { "hub.mode": "subscribe", "hub.challenge": "42" };
+
+    const verified = respondToHandshake(makeRequest({ queryParams: { ...query, "hub.verify_token": "secret" } }));
+    expect(verified?.statusCode).toBe(200);
+    const mismatch = respondToHandshake(makeRequest({ queryParams: { ...query, "hub.verify_token": "wrong" } }));
+    expect(mismatch).toMatchObject({ statusCode: 403, body: "Verify token mismatch", result: { verified: false } });
+  });
+
+  it("only detects the configured provider", () => {
+    createHandshakeConfig({ path: "/webhooks/**", mode: "dropbox" });
+    expect(respondToHandshake(makeRequest({ queryParams: { validationToken: "t" } }))).toBeUndefined();
+    expect(respondToHandshake(makeRequest({ queryParams: { challenge: "c" } }))?.result.provider).toBe("dropbox");
+  });
+
+  it("needs a configuration for the path unless auto-detection is enabled", () => {
+    const request = makeRequest({ queryParams: { challenge: "c" } });
+    expect(respondToHandshake(request)).toBeUndefined();
+
+    vi.stubEnv("HANDSHAKE_AUTO_DETECT", "true");
+    expect(respondToHandshake(request)?.result).toEqual({
+      provider: "dropbox",
+      challenge: "c",
+      verified: true,
+      configId: undefined,
+    });
+  });
+});
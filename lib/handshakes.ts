@@ -0,0 +1,234 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { matchPathGlob } from "./match";
+import type { CrudResource } from "./crud";
+
+export type HandshakeProvider = "slack" | "meta" | "graph" | "dropbox";
+export type HandshakeMode = HandshakeProvider | "auto";
+
+export const HANDSHAKE_MODES: HandshakeMode[] = ["auto", "slack", "meta", "graph", "dropbox"];
+
+// Handshake configuration: verification requests to paths matching `path`
+// are answered the way the provider expects. "auto" detects any provider.
+export interface HandshakeConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  path: string; // Path glob, e.g. /webhooks/meta/**
+  mode: HandshakeMode;
+  verifyToken?: string; // Expected hub.verify_token for Meta subscriptions
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type HandshakeConfigInput = Pick<HandshakeConfig, "path"> &
+  Partial<Pick<HandshakeConfig, "name" | "enabled" | "mode" | "verifyToken">>;
+
+// Handshake outcome recorded on the webhook log
+export interface HandshakeResult {
+  provider: HandshakeProvider;
+  configId?: string; // Unset when auto-detected without a configuration
+  challenge: string;
+  verified: boolean; // False when the Meta verify token did not match
+}
+
+// The incoming request inspected for a handshake
+export interface HandshakeRequest {
+  method: string;
+  path: string;
+  queryParams: Record<string, string>;
+  body: any;
+}
+
+export interface HandshakeResponse {
+  result: HandshakeResult;
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const handshakeConfigs = createCollection<HandshakeConfig>("handshakes");
+
+// Auto-detection on every path without a configuration (HANDSHAKE_AUTO_DETECT)
+export function isHandshakeAutoDetectEnabled(): boolean {
+  return ["1", "true"].includes((process.env.HANDSHAKE_AUTO_DETECT || "").toLowerCase());
+}
+
+export function getHandshakeConfigs(): HandshakeConfig[] {
+  return handshakeConfigs.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getHandshakeConfigById(id: string): HandshakeConfig | undefined {
+  return handshakeConfigs.get(id);
+}
+
+export function createHandshakeConfig(input: HandshakeConfigInput): HandshakeConfig {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return handshakeConfigs.set({
+    id,
+    name: input.name?.trim() || `handshake-${id}`,
+    enabled: input.enabled ?? true,
+    path: input.path.trim(),
+    mode: input.mode ?? "auto",
+    verifyToken: input.verifyToken || undefined,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateHandshakeConfig(
+  id: string,
+  input: HandshakeConfigInput,
+): HandshakeConfig | undefined {
+  const existing = handshakeConfigs.get(id);
+  if (!existing) return undefined;
+  return handshakeConfigs.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    path: input.path.trim(),
+    mode: input.mode ?? existing.mode,
+    verifyToken: input.verifyToken || undefined,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteHandshakeConfig(id: string): boolean {
+  return handshakeConfigs.delete(id);
+}
+
+// First enabled configuration whose path glob matches the webhook path
+export function findHandshakeConfig(path: string): HandshakeConfig | undefined {
+  return getHandshakeConfigs().find(
+    (config) => config.enabled && matchPathGlob(config.path, path),
+  );
+}
+
+// Helper function to build a plain-text challenge echo
+function plainTextResponse(
+  result: HandshakeResult,
+  statusCode: number,
+  body: string,
+): HandshakeResponse {
+  return {
+    result,
+    statusCode,
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "X-Content-Type-Options": "nosniff",
+    },
+    body,
+  };
+}
+
+// Slack Events API: POST {"type":"url_verification","challenge":"..."}
+function detectSlack(request: HandshakeRequest): HandshakeResponse | undefined {
+  const { body } = request;
+  if (
+    request.method !== "POST" ||
+    typeof body !== "object" ||
+    body === null ||
+    body.type !== "url_verification" ||
+    typeof body.challenge !== "string"
+  ) {
+    return undefined;
+  }
+  return {
+    result: { provider: "slack", challenge: body.challenge, verified: true },
+    statusCode: 200,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ challenge: body.challenge }),
+  };
+}
+
+// Meta (Facebook, Instagram, WhatsApp): GET ?hub.mode=subscribe&hub.challenge=...&hub.verify_token=...
+function detectMeta(
+  request: HandshakeRequest,
+  verifyToken?: string,
+): HandshakeResponse | undefined {
+  const { queryParams } = request;
+  const challenge = queryParams["hub.challenge"];
+  if (request.method !== "GET" || queryParams["hub.mode"] !== "subscribe" || !challenge) {
+    return undefined;
+  }
+  const verified = !verifyToken || queryParams["hub.verify_token"] === verifyToken;
+  return verified
+    ? plainTextResponse({ provider: "meta", challenge, verified }, 200, challenge)
+    : plainTextResponse({ provider: "meta", challenge, verified }, 403, "Verify token mismatch");
+}
+
+// Microsoft Graph subscriptions: POST ?validationToken=... echoed within 10 seconds
+function detectGraph(request: HandshakeRequest): HandshakeResponse | undefined {
+  const challenge = request.queryParams.validationToken;
+  if (!challenge) return undefined;
+  return plainTextResponse({ provider: "graph", challenge, verified: true }, 200, challenge);
+}
+
+// Dropbox: GET ?challenge=... echoed as-is
+function detectDropbox(request: HandshakeRequest): HandshakeResponse | undefined {
+  const challenge = request.queryParams.challenge;
+  if (request.method !== "GET" || !challenge) return undefined;
+  return plainTextResponse({ provider: "dropbox", challenge, verified: true }, 200, challenge);
+}
+
+// Answer a provider verification handshake. Uses the configuration covering
+// the path, or auto-detection when enabled; returns undefined for regular webhooks.
+export function respondToHandshake(request: HandshakeRequest): HandshakeResponse | undefined {
+  const config = findHandshakeConfig(request.path);
+  if (!config && !isHandshakeAutoDetectEnabled()) return undefined;
+
+  const mode = config?.mode ?? "auto";
+  const detectors: Record<HandshakeProvider, () => HandshakeResponse | undefined> = {
+    slack: () => detectSlack(request),
+    meta: () => detectMeta(request, config?.verifyToken),
+    graph: () => detectGraph(request),
+    dropbox: () => detectDropbox(request),
+  };
+  const providers = mode === "auto" ? (Object.keys(detectors) as HandshakeProvider[]) : [mode];
+
+  for (const provider of providers) {
+    const response = detectors[provider]();
+    if (response) {
+      return { ...response, result: { ...response.result, configId: config?.id } };
+    }
+  }
+  return undefined;
+}
+
+// Helper function to validate a handshake configuration received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateHandshakeConfigInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Handshake configuration must be a JSON object";
+  }
+  if (typeof input.path !== "string" || !input.path.trim()) {
+    return "path is required";
+  }
+  if (input.mode !== undefined && !HANDSHAKE_MODES.includes(input.mode)) {
+    return `mode must be one of: ${HANDSHAKE_MODES.join(", ")}`;
+  }
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  if (input.verifyToken !== undefined && typeof input.verifyToken !== "string") {
+    return "verifyToken must be a string";
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  return undefined;
+}
+
+// Served by /api/handshakes and /api/handshakes/{id}
+export const handshakeResource: CrudResource<HandshakeConfig, HandshakeConfigInput> = {
+  key: "handshake",
+  listKey: "handshakes",
+  label: "Handshake configuration",
+  list: getHandshakeConfigs,
+  get: getHandshakeConfigById,
+  create: createHandshakeConfig,
+  update: updateHandshakeConfig,
+  delete: deleteHandshakeConfig,
+  validate: validateHandshakeConfigInput,
+};
@@ -0,0 +1,132 @@
+// Outbound HTTP helper shared by replay, forwarding and delivery features
+import { INGEST_TOKEN_HEADER } from "./auth";
+
+// Constants
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const MAX_STORED_RESPONSE_BODY = 256 * 1024; // 256KB
+
+// Hop-by-hop and transport headers that must not be copied to a new request,
+// and the ingest token, which is only meant for this service
+const EXCLUDED_REQUEST_HEADERS = [
+  INGEST_TOKEN_HEADER,
+  "host",
+  "connection",
+  "content-length",
+  "transfer-encoding",
+  "keep-alive",
+  "upgrade",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "expect",
+];
+
+export interface OutgoingRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: Buffer | string | null;
+  timeoutMs?: number;
+}
+
+// Outcome of an outbound request, in a shape suitable for storing
+export interface OutgoingResponse {
+  statusCode: number | null; // null when no response was received
+  headers: Record<string, string>;
+  body: string | null; // Response body as text, cut at 256KB
+  bodyTruncated?: boolean;
+  durationMs: number;
+  error?: string; // Network error, timeout or invalid URL
+}
+
+// Helper function to drop headers that describe the original connection
+export function filterRequestHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  const filtered: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!EXCLUDED_REQUEST_HEADERS.includes(name.toLowerCase())) {
+      filtered[name] = value;
+    }
+  }
+  return filtered;
+}
+
+// Helper function to check a status code against entries such as 404 or "5xx"
+export function matchesStatusCode(statusCode: number, entries: (number | string)[]): boolean {
+  return entries.some((entry) => {
+    if (typeof entry === "number") return entry === statusCode;
+    const klass = entry.match(/^([1-5])xx$/i);
+    return klass ? Math.floor(statusCode / 100) === parseInt(klass[1], 10) : entry === String(statusCode);
+  });
+}
+
+// Helper function to collect response headers into a plain object
+export function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+// Send a request and capture the response together with its exact bytes.
+// Never throws: failures are reported through `error` with a null status code.
+export async function sendHttpRequestRaw(
+  request: OutgoingRequest,
+): Promise<{ response: OutgoingResponse; rawBody: Buffer | null }> {
+  const startedAt = Date.now();
+  const canHaveBody = !["GET", "HEAD"].includes(request.method.toUpperCase());
+
+  try {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: filterRequestHeaders(request.headers),
+      body:
+        canHaveBody && request.body !== null && request.body !== undefined
+          ? typeof request.body === "string"
+            ? request.body
+            : new Uint8Array(request.body)
+          : undefined,
+      redirect: "manual",
+      signal: AbortSignal.timeout(request.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS),
+    });
+
+    const rawBody = Buffer.from(await response.arrayBuffer());
+    const text = rawBody.toString("utf8");
+    return {
+      response: {
+        statusCode: response.status,
+        headers: headersToObject(response.headers),
+        body: text.length > MAX_STORED_RESPONSE_BODY ? text.slice(0, MAX_STORED_RESPONSE_BODY) : text,
+        bodyTruncated: text.length > MAX_STORED_RESPONSE_BODY || undefined,
+        durationMs: Date.now() - startedAt,
+      },
+      rawBody,
+    };
+  } catch (error) {
+    const response: OutgoingResponse = {
+      statusCode: null,
+      headers: {},
+      body: null,
+      durationMs: Date.now() - startedAt,
+      error:
+        error instanceof Error
+          ? error.name === "TimeoutError"
+            ? "Request timed out"
+            : error.cause instanceof Error
+              ? `${error.message}: ${error.cause.message}`
+              : error.message
+          : "Unknown error",
+    };
+    return { response, rawBody: null };
+  }
+}
+
+// Send a request and capture the response in its stored shape
+export async function sendHttpRequest(
+  request: OutgoingRequest,
+): Promise<OutgoingResponse> {
+  const { response } = await sendHttpRequestRaw(request);
+  return response;
+}
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  checkDuplicate,
+  createIdempotencyConfig,
+  deleteIdempotencyConfig,
+  getIdempotencyConfigs,
+  hashIdempotencyKey,
+} from "./idempotency";
+import { createRedactionRule, deleteRedactionRule, getRedactionRules, redactWebhookLog } from "./redaction";
+import { addWebhookLog, clearWebhookLogs, deleteWebhookLog, importWebhookLog, type WebhookLog } from "./store";
+
+// Helper function to build a stored log of a delivery
+function makeLog(id: string, idempotencyKey: string, timestamp: string): WebhookLog {
+  return {
+    id,
+    timestamp,
+    method: "POST",
+    path: "/webhooks/orders",
+    url: "http://localhost/webhooks/orders",
+    statusCode: 200,
+    headers: {},
+    queryParams: {},
+    body: null,
+    idempotencyKey,
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  getRedactionRules().forEach((rule) => deleteRedactionRule(rule.id));
+  getIdempotencyConfigs().forEach((config) => deleteIdempotencyConfig(config.id));
+  clearWebhookLogs();
+});
+
+describe("checkDuplicate", () => {
+  it("detects redeliveries before the first delivery's log is stored", () => {
+    const config = createIdempotencyConfig({ path: "/webhooks/**", keySource: "hash" });
+    expect(checkDuplicate(config, "k", undefined, "first")).toMatchObject({ key: "k", deliveryCount: 1, duplicateOf: undefined });
+    expect(checkDuplicate(config, "k", undefined, "second")).toMatchObject({ key: "k", deliveryCount: 2, duplicateOf: "first" });
+    expect(checkDuplicate(config, "other", undefined, "third").duplicateOf).toBeUndefined();
+  });
+
+  it("keeps bins and configurations apart", () => {
+    const config = createIdempotencyConfig({ path: "/webhooks/**", keySource: "hash" });
+    const other = createIdempotencyConfig({ path: "/webhooks/orders", keySource: "hash" });
+    checkDuplicate(config, "k", undefined, "first");
+    expect(checkDuplicate(config, "k", "bin-1", "second").duplicateOf).toBeUndefined();
+    expect(checkDuplicate(other, "k", undefined, "third").duplicateOf).toBeUndefined();
+  });
+
+  it("only counts deliveries within the window", () => {
+    const config = createIdempotencyConfig({ path: "/webhooks/**", keySource: "hash", windowSeconds: 60 });
+    const start = Date.parse("2024-01-01T00:00:00.000Z");
+    checkDuplicate(config, "k", undefined, "first", start);
+    expect(checkDuplicate(config, "k", undefined, "second", start + 30_000).duplicateOf).toBe("first");
+    expect(checkDuplicate(config, "k", undefined, "third", start + 120_000).duplicateOf).toBeUndefined();
+  });
+
+  it("falls back to stored logs for deliveries it has not seen", () => {
+    const config = createIdempotencyConfig({ path: "/webhooks/**", keySource: "hash" });
+    importWebhookLog(makeLog("imported", "k", "2024-01-01T00:00:00.000Z"));
+    const check = checkDuplicate(config, "k", undefined, "live");
+    expect(check).toMatchObject({ key: "k", deliveryCount: 2, duplicateOf: "imported" });
+  });
+
+  it("matches stored logs by key hash when redaction masked the key", () => {
+    const config = createIdempotencyConfig({ path: "/webhooks/**", keySource: "header", keyName: "Idempotency-Key" });
+    createRedactionRule({ headers: ["idempotency-key"] });
+    const stored = redactWebhookLog({
+      ...makeLog("before-restart", "evt_1", "2024-01-01T00:00:00.000Z"),
+      headers: { "idempotency-key": "evt_1" },
+      idempotencyKeyHash: hashIdempotencyKey("evt_1"),
+    });
+    expect(stored.idempotencyKey).toBe("[REDACTED]");
+    expect(stored.idempotencyKeyHash).toBe(hashIdempotencyKey("evt_1"));
+    importWebhookLog(stored);
+
+    const check = checkDuplicate(config, "evt_1", undefined, "after-restart");
+    expect(check).toMatchObject({ keyHash: stored.idempotencyKeyHash, duplicateOf: "before-restart" });
+    expect(checkDuplicate(config, "[REDACTED]", undefined, "other").duplicateOf).toBeUndefined();
+  });
+
+  it("counts a delivery once when its log is stored", () => {
+    const config = createIdempotencyConfig({ path: "/webhooks/**", keySource: "hash" });
+    const first = checkDuplicate(config, "k", undefined, "first");
+    addWebhookLog(makeLog("first", first.key, new Date().toISOString()));
+    expect(checkDuplicate(config, "k", undefined, "second").deliveryCount).toBe(2);
+  });
+
+  it("forgets deliveries whose logs were deleted or cleared", () => {
+    const config = createIdempotencyConfig({ path: "/webhooks/**", keySource: "hash" });
+    checkDuplicate(config, "k", undefined, "first");
+    addWebhookLog(makeLog("first", "k", new Date().toISOString()));
+    deleteWebhookLog("first");
+    expect(checkDuplicate(config, "k", undefined, "second").duplicateOf).toBeUndefined();
+
+    clearWebhookLogs();
+    expect(checkDuplicate(config, "k", undefined, "third").duplicateOf).toBeUndefined();
+  });
+});
+
+describe("hashIdempotencyKey", () => {
+  it("uses HMAC when REDACTION_HASH_SECRET is set", () => {
+    const plain = hashIdempotencyKey("evt_1");
+    expect(plain).toMatch(/^[0-9a-f]{64}$/);
+    vi.stubEnv("REDACTION_HASH_SECRET", "secret");
+    expect(hashIdempotencyKey("evt_1")).not.toBe(plain);
+    expect(hashIdempotencyKey("evt_1")).toBe(hashIdempotencyKey("evt_1"));
+  });
+});
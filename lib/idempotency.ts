@@ -0,0 +1,326 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { getHeaderValue, getValueAtPath, matchPathGlob } from "./match";
+import { subscribeToLogEvents, type LogEvent } from "./events";
+import { getWebhookLogs } from "./store";
+import type { CrudResource } from "./crud";
+
+// Constants
+const DEFAULT_DUPLICATE_STATUS = 409;
+const MAX_CACHED_RESPONSES = 500;
+const MAX_CACHED_BODY_BYTES = 256 * 1024; // 256KB
+const MAX_TRACKED_KEYS = 10000;
+
+export type IdempotencyKeySource = "header" | "body" | "hash";
+export type DuplicateAction = "process" | "reject" | "cached";
+
+// Duplicate detection for webhooks whose path matches `path`. The key is read
+// from a header, a dotted body field, or is the SHA-256 hash of the raw body.
+export interface IdempotencyConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  path: string; // Path glob, e.g. /webhooks/stripe/**
+  keySource: IdempotencyKeySource;
+  keyName?: string; // Header name or body field path, e.g. Idempotency-Key or data.eventId
+  onDuplicate: DuplicateAction;
+  duplicateStatus: number; // Status code used when rejecting duplicates
+  windowSeconds?: number; // Only earlier deliveries within this window count
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type IdempotencyConfigInput = Pick<IdempotencyConfig, "path" | "keySource"> &
+  Partial<
+    Pick<
+      IdempotencyConfig,
+      "name" | "enabled" | "keyName" | "onDuplicate" | "duplicateStatus" | "windowSeconds"
+    >
+  >;
+
+// The incoming request a key is read from
+export interface KeyedRequest {
+  headers: Record<string, string>;
+  body: any;
+  rawBody: Buffer | null;
+}
+
+// Duplicate detection outcome for a request
+export interface DuplicateCheck {
+  key: string;
+  keyHash: string; // Stored on the log, where redaction may mask the key itself
+  deliveryCount: number; // Deliveries with this key, including this one
+  duplicateOf?: string; // Id of the first delivery when this is a redelivery
+}
+
+// Response sent to the first delivery of a key, replayed to duplicates
+export interface CachedResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const idempotencyConfigs = createCollection<IdempotencyConfig>("idempotency");
+
+// Responses of first accepted deliveries, keyed by configuration, bin and key
+const cachedResponses = new Map<string, CachedResponse>();
+
+// A delivery seen by this process
+interface Delivery {
+  id: string; // Id of its log
+  binId?: string;
+  timestamp: string;
+}
+
+// Deliveries keyed by configuration, bin and key. They are recorded when a
+// delivery is checked, before its log is stored, so concurrent redeliveries
+// are detected, and they keep the original key when the logged one is masked.
+const deliveries = new Map<string, Delivery[]>();
+
+// Deleted and cleared logs no longer count as earlier deliveries
+subscribeToLogEvents((event: LogEvent) => {
+  if (event.type === "added") return;
+  for (const [deliveryKey, recorded] of deliveries) {
+    const remaining = recorded.filter((delivery) =>
+      event.type === "deleted" ? delivery.id !== event.id : delivery.binId !== event.binId,
+    );
+    if (remaining.length === 0) {
+      deliveries.delete(deliveryKey);
+    } else if (remaining.length !== recorded.length) {
+      deliveries.set(deliveryKey, remaining);
+    }
+  }
+});
+
+export function getIdempotencyConfigs(): IdempotencyConfig[] {
+  return idempotencyConfigs.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getIdempotencyConfigById(id: string): IdempotencyConfig | undefined {
+  return idempotencyConfigs.get(id);
+}
+
+export function createIdempotencyConfig(input: IdempotencyConfigInput): IdempotencyConfig {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return idempotencyConfigs.set({
+    id,
+    name: input.name?.trim() || `idempotency-${id}`,
+    enabled: input.enabled ?? true,
+    path: input.path.trim(),
+    keySource: input.keySource,
+    keyName: input.keyName || undefined,
+    onDuplicate: input.onDuplicate ?? "process",
+    duplicateStatus: input.duplicateStatus ?? DEFAULT_DUPLICATE_STATUS,
+    windowSeconds: input.windowSeconds,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateIdempotencyConfig(
+  id: string,
+  input: IdempotencyConfigInput,
+): IdempotencyConfig | undefined {
+  const existing = idempotencyConfigs.get(id);
+  if (!existing) return undefined;
+  return idempotencyConfigs.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    path: input.path.trim(),
+    keySource: input.keySource,
+    keyName: input.keyName || undefined,
+    onDuplicate: input.onDuplicate ?? existing.onDuplicate,
+    duplicateStatus: input.duplicateStatus ?? existing.duplicateStatus,
+    windowSeconds: input.windowSeconds,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteIdempotencyConfig(id: string): boolean {
+  return idempotencyConfigs.delete(id);
+}
+
+// First enabled configuration whose path glob matches the webhook path
+export function findIdempotencyConfig(path: string): IdempotencyConfig | undefined {
+  return getIdempotencyConfigs().find(
+    (config) => config.enabled && matchPathGlob(config.path, path),
+  );
+}
+
+// Read the idempotency key of a request; undefined when the header or field is missing
+export function getIdempotencyKey(
+  config: IdempotencyConfig,
+  request: KeyedRequest,
+): string | undefined {
+  switch (config.keySource) {
+    case "header":
+      return getHeaderValue(request.headers, config.keyName!) || undefined;
+    case "body": {
+      const value = getValueAtPath(request.body, config.keyName!);
+      if (value === undefined || value === null || value === "") return undefined;
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    }
+    case "hash":
+      return createHash("sha256")
+        .update(request.rawBody ?? Buffer.alloc(0))
+        .digest("hex");
+  }
+}
+
+// Log field the key is read from, e.g. headers.idempotency-key or body.data.eventId.
+// Undefined for body hashes.
+export function getIdempotencyKeyField(config: IdempotencyConfig): string | undefined {
+  switch (config.keySource) {
+    case "header":
+      return `headers.${config.keyName!.toLowerCase()}`;
+    case "body":
+      return `body.${config.keyName}`;
+    default:
+      return undefined;
+  }
+}
+
+// Hash an idempotency key for the log. Keyed with REDACTION_HASH_SECRET when set,
+// like the redaction hash style, so short keys cannot be recovered by brute force.
+export function hashIdempotencyKey(key: string): string {
+  const secret = process.env.REDACTION_HASH_SECRET;
+  const hash = secret ? createHmac("sha256", secret) : createHash("sha256");
+  return hash.update(key).digest("hex");
+}
+
+// Look for earlier deliveries with the same key in the same bin and path glob,
+// and record this delivery under `logId`. The check and the record happen
+// together, so a concurrent redelivery always sees this one.
+export function checkDuplicate(
+  config: IdempotencyConfig,
+  key: string,
+  binId: string | undefined,
+  logId: string,
+  now: number = Date.now(),
+): DuplicateCheck {
+  const deliveryKey = getCacheKey(config, binId, key);
+  const keyHash = hashIdempotencyKey(key);
+  const inWindow = (timestamp: string) =>
+    !config.windowSeconds || now - new Date(timestamp).getTime() <= config.windowSeconds * 1000;
+
+  const recorded = (deliveries.get(deliveryKey) ?? []).filter((delivery) =>
+    inWindow(delivery.timestamp),
+  );
+  const recordedIds = new Set(recorded.map((delivery) => delivery.id));
+  // Stored logs cover deliveries received before a restart and imported logs.
+  // They are compared by hash, since redaction may have masked the key; logs
+  // stored before hashes were recorded only have the key.
+  const stored = getWebhookLogs(binId).filter(
+    (log) =>
+      (log.idempotencyKeyHash ? log.idempotencyKeyHash === keyHash : log.idempotencyKey === key) &&
+      !recordedIds.has(log.id) &&
+      matchPathGlob(config.path, log.path) &&
+      inWindow(log.timestamp),
+  );
+  const earlier = [...recorded, ...stored].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  deliveries.delete(deliveryKey);
+  deliveries.set(deliveryKey, [...recorded, { id: logId, binId, timestamp: new Date(now).toISOString() }]);
+  // Maps iterate in insertion order, so the first entry is the least recently seen key
+  if (deliveries.size > MAX_TRACKED_KEYS) {
+    deliveries.delete(deliveries.keys().next().value!);
+  }
+
+  return {
+    key,
+    keyHash,
+    deliveryCount: earlier.length + 1,
+    duplicateOf: earlier[0]?.id,
+  };
+}
+
+// Helper function to build the cache key of a first delivery's response
+function getCacheKey(config: IdempotencyConfig, binId: string | undefined, key: string): string {
+  return `${config.id}:${binId ?? ""}:${key}`;
+}
+
+export function cacheResponse(
+  config: IdempotencyConfig,
+  binId: string | undefined,
+  key: string,
+  response: CachedResponse,
+): void {
+  if (Buffer.byteLength(response.body) > MAX_CACHED_BODY_BYTES) return;
+  const cacheKey = getCacheKey(config, binId, key);
+  cachedResponses.delete(cacheKey);
+  cachedResponses.set(cacheKey, response);
+  // Maps iterate in insertion order, so the first entry is the oldest
+  if (cachedResponses.size > MAX_CACHED_RESPONSES) {
+    cachedResponses.delete(cachedResponses.keys().next().value!);
+  }
+}
+
+export function getCachedResponse(
+  config: IdempotencyConfig,
+  binId: string | undefined,
+  key: string,
+): CachedResponse | undefined {
+  return cachedResponses.get(getCacheKey(config, binId, key));
+}
+
+// Helper function to validate an idempotency configuration received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateIdempotencyConfigInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Idempotency configuration must be a JSON object";
+  }
+  if (typeof input.path !== "string" || !input.path.trim()) {
+    return "path is required";
+  }
+  if (!["header", "body", "hash"].includes(input.keySource)) {
+    return 'keySource must be "header", "body" or "hash"';
+  }
+  if (
+    input.keySource !== "hash" &&
+    (typeof input.keyName !== "string" || !input.keyName.trim())
+  ) {
+    return `keyName is required for keySource "${input.keySource}"`;
+  }
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  if (
+    input.onDuplicate !== undefined &&
+    !["process", "reject", "cached"].includes(input.onDuplicate)
+  ) {
+    return 'onDuplicate must be "process", "reject" or "cached"';
+  }
+  if (
+    input.duplicateStatus !== undefined &&
+    (!Number.isInteger(input.duplicateStatus) ||
+      input.duplicateStatus < 100 ||
+      input.duplicateStatus > 599)
+  ) {
+    return "duplicateStatus must be an integer between 100 and 599";
+  }
+  if (
+    input.windowSeconds !== undefined &&
+    (!Number.isInteger(input.windowSeconds) || input.windowSeconds < 1)
+  ) {
+    return "windowSeconds must be a positive integer";
+  }
+  return undefined;
+}
+
+// Served by /api/idempotency and /api/idempotency/{id}
+export const idempotencyResource: CrudResource<IdempotencyConfig, IdempotencyConfigInput> = {
+  key: "idempotency",
+  listKey: "idempotency",
+  label: "Idempotency configuration",
+  list: getIdempotencyConfigs,
+  get: getIdempotencyConfigById,
+  create: createIdempotencyConfig,
+  update: updateIdempotencyConfig,
+  delete: deleteIdempotencyConfig,
+  validate: validateIdempotencyConfigInput,
+};
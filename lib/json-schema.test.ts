@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { checkJsonSchema, resolveRef, validateJsonSchema } from "./json-schema";
+
+// Helper function to list the failing keywords with their pointers
+function failures(schema: any, value: any): string[] {
+  return validateJsonSchema(schema, value).map((error) => `${error.pointer}:${error.keyword}`);
+}
+
+describe("validateJsonSchema", () => {
+  it("accepts anything for true and nothing for false", () => {
+    expect(failures(true, { any: "value" })).toEqual([]);
+    expect(failures(false, 1)).toEqual([":false"]);
+  });
+
+  it("checks types, treating integers as numbers", () => {
+    expect(failures({ type: "number" }, 3)).toEqual([]);
+    expect(failures({ type: "integer" }, 3.5)).toEqual([":type"]);
+    expect(failures({ type: ["string", "null"] }, null)).toEqual([]);
+    expect(failures({ type: "object" }, [])).toEqual([":type"]);
+  });
+
+  it("compares enum and const structurally", () => {
+    expect(failures({ enum: [{ a: 1 }, "b"] }, { a: 1 })).toEqual([]);
+    expect(failures({ const: [1, 2] }, [2, 1])).toEqual([":const"]);
+  });
+
+  it("checks numeric, string and array constraints", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        amount: { minimum: 1, exclusiveMaximum: 100, multipleOf: 0.5 },
+        code: { minLength: 2, maxLength: 3, pattern: "^[A-Z]+$" },
+        email: { format: "email" },
+        tags: { maxItems: 2, uniqueItems: true, items: { type: "string" } },
+      },
+    };
+    expect(failures(schema, { amount: 99.5, code: "EUR", email: "a@b.co", tags: ["x"] })).toEqual([]);
+    expect(
+      failures(schema, { amount: 100, code: "eu", email: "nope", tags: ["x", "x", 1] }).sort(),
+    ).toEqual([
+      "/amount:exclusiveMaximum",
+      "/code:pattern",
+      "/email:format",
+      "/tags/2:type",
+      "/tags:maxItems",
+      "/tags:uniqueItems",
+    ]);
+  });
+
+  it("counts string lengths in code points", () => {
+    expect(failures({ maxLength: 2 }, "😀😀")).toEqual([]);
+  });
+
+  it("reports missing required properties at their pointer", () => {
+    expect(failures({ required: ["id", "a/b"] }, {})).toEqual(["/id:required", "/a~1b:required"]);
+  });
+
+  it("does not find required properties on the prototype", () => {
+    expect(failures({ required: ["toString", "constructor"] }, {})).toEqual([
+      "/toString:required",
+      "/constructor:required",
+    ]);
+  });
+
+  it("does not resolve payload keys to prototype properties", () => {
+    const schema = { type: "object", properties: { id: { type: "string" } }, additionalProperties: false };
+    expect(failures(schema, { constructor: 1 })).toEqual(["/constructor:additionalProperties"]);
+    expect(failures({ properties: {} }, { toString: "x" })).toEqual([]);
+  });
+
+  it("only applies dependent keywords for own properties", () => {
+    const schema = {
+      dependentRequired: { constructor: ["id"] },
+      dependentSchemas: { toString: { required: ["id"] } },
+    };
+    expect(failures(schema, {})).toEqual([]);
+    expect(failures(schema, { constructor: 1 })).toEqual([":dependentRequired"]);
+  });
+
+  it("applies patternProperties and additionalProperties schemas", () => {
+    const schema = {
+      patternProperties: { "^x-": { type: "string" } },
+      additionalProperties: { type: "number" },
+    };
+    expect(failures(schema, { "x-a": "ok", b: 1 })).toEqual([]);
+    expect(failures(schema, { "x-a": 1, b: "no" })).toEqual(["/x-a:type", "/b:type"]);
+  });
+
+  it("evaluates the combinators", () => {
+    expect(failures({ anyOf: [{ type: "string" }, { type: "number" }] }, true)).toEqual([":anyOf"]);
+    expect(failures({ oneOf: [{ type: "number" }, { type: "integer" }] }, 1)).toEqual([":oneOf"]);
+    expect(failures({ not: { type: "null" } }, null)).toEqual([":not"]);
+    const conditional = { if: { properties: { kind: { const: "card" } } }, then: { required: ["last4"] } };
+    expect(failures(conditional, { kind: "card" })).toEqual(["/last4:required"]);
+    expect(failures(conditional, { kind: "bank" })).toEqual([]);
+  });
+
+  it("resolves local references against the root", () => {
+    const root = {
+      $defs: { id: { type: "string", minLength: 3 } },
+      properties: { id: { $ref: "#/$defs/id" } },
+    };
+    expect(failures(root, { id: "ab" })).toEqual(["/id:minLength"]);
+    expect(failures({ $ref: "#/$defs/missing" }, 1)).toEqual([":$ref"]);
+  });
+
+  it("stops at reference cycles", () => {
+    const schema = { $defs: { loop: { $ref: "#/$defs/loop" } }, $ref: "#/$defs/loop" };
+    expect(validateJsonSchema(schema, 1).some((error) => error.message.includes("too deeply"))).toBe(true);
+  });
+});
+
+describe("resolveRef", () => {
+  it("decodes escaped pointer segments", () => {
+    expect(resolveRef({ paths: { "/a/b": { ok: true } } }, "#/paths/~1a~1b")).toEqual({ ok: true });
+  });
+
+  it("ignores prototype properties", () => {
+    expect(resolveRef({}, "#/constructor")).toBeUndefined();
+  });
+});
+
+describe("checkJsonSchema", () => {
+  it("rejects non-schema values", () => {
+    expect(checkJsonSchema([])).toBe("schema must be a JSON Schema object or boolean");
+  });
+
+  it("reports invalid patterns and unresolvable references", () => {
+    expect(checkJsonSchema({ pattern: "(" })).toMatch(/^schema is invalid/);
+    expect(checkJsonSchema({ $ref: "#/nowhere" })).toBe("schema is invalid: cannot resolve reference #/nowhere");
+    expect(checkJsonSchema({ type: "object" })).toBeUndefined();
+  });
+});
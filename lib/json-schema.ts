@@ -0,0 +1,318 @@
+// Minimal JSON Schema (draft 2020-12) validator for webhook payloads.
+// Supports the assertion keywords used for payload contracts: type, enum, const,
+// numeric/string/array/object constraints, the applicators (properties,
+// items, prefixItems, allOf, anyOf, oneOf, not, if/then/else, ...), local
+// $ref to "#..." pointers, and the common formats. Annotation-only keywords
+// and unevaluated* are ignored.
+
+// Constants
+const MAX_DEPTH = 64; // Guards against $ref cycles
+const FORMATS: Record<string, RegExp> = {
+  "date-time":
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+  ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+};
+
+export interface SchemaError {
+  pointer: string; // JSON pointer of the failing value, "" for the root
+  keyword: string;
+  message: string;
+}
+
+type Schema = boolean | Record<string, any>;
+
+// Escape a property name for use in a JSON pointer
+export function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+// Helper function to check for an own property, so keys such as "constructor"
+// or "toString" are not found on the prototype
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function getType(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  const actual = getType(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+// Helper function to compare JSON values structurally
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== "object") return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => hasOwn(b, key) && deepEqual(a[key], b[key]))
+  );
+}
+
+// Resolve a local reference such as "#/$defs/address"
+export function resolveRef(root: Schema, ref: string): Schema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+  const pointer = decodeURIComponent(ref.slice(1));
+  if (pointer === "") return root;
+  let current: any = root;
+  for (const raw of pointer.split("/").slice(1)) {
+    const segment = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (typeof current !== "object" || current === null || !hasOwn(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+function validateNode(
+  schema: Schema,
+  value: any,
+  pointer: string,
+  root: Schema,
+  depth: number,
+): SchemaError[] {
+  if (schema === true) return [];
+  if (schema === false) {
+    return [{ pointer, keyword: "false", message: "no value is allowed here" }];
+  }
+  if (depth > MAX_DEPTH) {
+    return [{ pointer, keyword: "$ref", message: "schema is nested too deeply" }];
+  }
+
+  const errors: SchemaError[] = [];
+  const fail = (keyword: string, message: string) => errors.push({ pointer, keyword, message });
+  const child = (sub: Schema, childValue: any, childPointer: string = pointer) =>
+    validateNode(sub, childValue, childPointer, root, depth + 1);
+  const isValid = (sub: Schema) => child(sub, value).length === 0;
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) {
+      fail("$ref", `cannot resolve reference ${schema.$ref}`);
+    } else {
+      errors.push(...child(target, value));
+    }
+  }
+
+  // Generic assertions
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail("type", `must be ${types.join(" or ")}`);
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => deepEqual(option, value))) {
+    fail("enum", `must be one of ${schema.enum.map((v: any) => JSON.stringify(v)).join(", ")}`);
+  }
+  if (hasOwn(schema, "const") && !deepEqual(schema.const, value)) {
+    fail("const", `must be ${JSON.stringify(schema.const)}`);
+  }
+
+  // Numbers
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      fail("minimum", `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      fail("maximum", `must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      fail("exclusiveMinimum", `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      fail("exclusiveMaximum", `must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === "number" && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        fail("multipleOf", `must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+  }
+
+  // Strings
+  if (typeof value === "string") {
+    const length = Array.from(value).length; // Code points, as the spec requires
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      fail("minLength", `must have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      fail("maxLength", `must have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern, "u").test(value)) {
+      fail("pattern", `must match pattern ${schema.pattern}`);
+    }
+    const format = FORMATS[schema.format];
+    if (format && !format.test(value)) {
+      fail("format", `must be a valid ${schema.format}`);
+    }
+  }
+
+  // Arrays
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      fail("minItems", `must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      fail("maxItems", `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true) {
+      const duplicate = value.findIndex((item, i) => value.slice(0, i).some((other) => deepEqual(item, other)));
+      if (duplicate !== -1) {
+        fail("uniqueItems", `must not contain duplicate items (item ${duplicate} is repeated)`);
+      }
+    }
+    const prefixItems: Schema[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    prefixItems.forEach((sub, i) => {
+      if (i < value.length) errors.push(...child(sub, value[i], `${pointer}/${i}`));
+    });
+    if (schema.items !== undefined) {
+      for (let i = prefixItems.length; i < value.length; i++) {
+        errors.push(...child(schema.items, value[i], `${pointer}/${i}`));
+      }
+    }
+    if (schema.contains !== undefined) {
+      const matches = value.filter((item) => child(schema.contains, item).length === 0).length;
+      const minContains = typeof schema.minContains === "number" ? schema.minContains : 1;
+      if (matches < minContains) {
+        fail("contains", `must contain at least ${minContains} matching item(s)`);
+      }
+      if (typeof schema.maxContains === "number" && matches > schema.maxContains) {
+        fail("maxContains", `must contain at most ${schema.maxContains} matching item(s)`);
+      }
+    }
+  }
+
+  // Objects
+  if (getType(value) === "object") {
+    const keys = Object.keys(value);
+    if (typeof schema.minProperties === "number" && keys.length < schema.minProperties) {
+      fail("minProperties", `must have at least ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === "number" && keys.length > schema.maxProperties) {
+      fail("maxProperties", `must have at most ${schema.maxProperties} properties`);
+    }
+    for (const name of Array.isArray(schema.required) ? schema.required : []) {
+      if (!hasOwn(value, name)) {
+        errors.push({
+          pointer: `${pointer}/${escapePointer(name)}`,
+          keyword: "required",
+          message: "is required",
+        });
+      }
+    }
+    for (const [name, required] of Object.entries<string[]>(schema.dependentRequired || {})) {
+      if (hasOwn(value, name)) {
+        for (const dependency of required.filter((dep) => !hasOwn(value, dep))) {
+          fail("dependentRequired", `must have property ${dependency} when ${name} is present`);
+        }
+      }
+    }
+
+    const properties: Record<string, Schema> = schema.properties || {};
+    const patterns = Object.entries<Schema>(schema.patternProperties || {}).map(
+      ([pattern, sub]) => [new RegExp(pattern, "u"), sub] as const,
+    );
+    for (const key of keys) {
+      const keyPointer = `${pointer}/${escapePointer(key)}`;
+      let evaluated = false;
+      if (hasOwn(properties, key)) {
+        evaluated = true;
+        errors.push(...child(properties[key], value[key], keyPointer));
+      }
+      for (const [regex, sub] of patterns) {
+        if (regex.test(key)) {
+          evaluated = true;
+          errors.push(...child(sub, value[key], keyPointer));
+        }
+      }
+      if (!evaluated && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          errors.push({ pointer: keyPointer, keyword: "additionalProperties", message: "is not allowed" });
+        } else {
+          errors.push(...child(schema.additionalProperties, value[key], keyPointer));
+        }
+      }
+      if (schema.propertyNames !== undefined && child(schema.propertyNames, key).length > 0) {
+        errors.push({ pointer: keyPointer, keyword: "propertyNames", message: "has an invalid name" });
+      }
+    }
+    for (const [name, sub] of Object.entries<Schema>(schema.dependentSchemas || {})) {
+      if (hasOwn(value, name)) errors.push(...child(sub, value));
+    }
+  }
+
+  // Combinators
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) errors.push(...child(sub, value));
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(isValid)) {
+    fail("anyOf", "must match at least one schema in anyOf");
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(isValid).length;
+    if (matches !== 1) {
+      fail("oneOf", `must match exactly one schema in oneOf (matched ${matches})`);
+    }
+  }
+  if (schema.not !== undefined && isValid(schema.not)) {
+    fail("not", "must not match the schema in not");
+  }
+  if (schema.if !== undefined) {
+    const branch = isValid(schema.if) ? schema.then : schema.else;
+    if (branch !== undefined) errors.push(...child(branch, value));
+  }
+
+  return errors;
+}
+
+// Validate a value against a schema. Returns the errors, empty when valid.
+// References resolve against `root`, e.g. an OpenAPI document holding the schema.
+export function validateJsonSchema(
+  schema: Schema,
+  value: any,
+  root: Schema = schema,
+  pointer: string = "",
+): SchemaError[] {
+  return validateNode(schema, value, pointer, root, 0);
+}
+
+// Helper function to check that a schema can be used for validation.
+// Returns an error message, or undefined when the schema is usable.
+export function checkJsonSchema(schema: any): string | undefined {
+  if (typeof schema !== "boolean" && (typeof schema !== "object" || schema === null || Array.isArray(schema))) {
+    return "schema must be a JSON Schema object or boolean";
+  }
+  try {
+    // Surfaces invalid regular expressions and unresolvable references early
+    const visit = (node: any): void => {
+      if (typeof node !== "object" || node === null) return;
+      if (typeof node.pattern === "string") new RegExp(node.pattern, "u");
+      for (const pattern of Object.keys(node.patternProperties || {})) new RegExp(pattern, "u");
+      if (typeof node.$ref === "string" && resolveRef(schema, node.$ref) === undefined) {
+        throw new Error(`cannot resolve reference ${node.$ref}`);
+      }
+      Object.values(node).forEach(visit);
+    };
+    visit(schema);
+  } catch (error) {
+    return `schema is invalid: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return undefined;
+}
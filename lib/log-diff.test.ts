@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { diffWebhookLogs } from "./log-diff";
+import type { WebhookLog } from "./store";
+
+// Helper function to build a log with only the compared parts
+function makeLog(body: any, headers: Record<string, string> = {}, queryParams: Record<string, string> = {}) {
+  return { body, headers, queryParams } as WebhookLog;
+}
+
+describe("diffWebhookLogs", () => {
+  it("reports added, removed and changed values with dotted paths", () => {
+    const diff = diffWebhookLogs(
+      makeLog({ id: 1, items: [{ price: 5 }], gone: true }, { "X-Sig": "a" }),
+      makeLog({ id: 1, items: [{ price: 6 }], extra: "x" }, { "x-sig": "b" }),
+    );
+    expect(diff.identical).toBe(false);
+    expect(diff.changes).toEqual([
+      { path: "body.items.0.price", kind: "changed", before: 5, after: 6 },
+      { path: "body.gone", kind: "removed", before: true },
+      { path: "body.extra", kind: "added", after: "x" },
+      { path: "headers.x-sig", kind: "changed", before: "a", after: "b" },
+    ]);
+  });
+
+  it("detects keys that shadow prototype properties", () => {
+    const diff = diffWebhookLogs(makeLog({}), makeLog({ constructor: 1, toString: "x" }));
+    expect(diff.changes).toEqual([
+      { path: "body.constructor", kind: "added", after: 1 },
+      { path: "body.toString", kind: "added", after: "x" },
+    ]);
+  });
+
+  it("skips ignored paths", () => {
+    const diff = diffWebhookLogs(
+      makeLog({ a: { id: 1 } }, { "X-Request-Id": "1" }),
+      makeLog({ a: { id: 2 } }, { "X-Request-Id": "2" }),
+      ["body.**.id", "headers.X-Request-*"],
+    );
+    expect(diff.identical).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import type { WebhookLog } from "./store";
+import { matchPathGlob } from "./match";
+
+// Constants
+const MAX_CHANGES = 1000;
+
+export type DiffKind = "added" | "removed" | "changed";
+
+// A difference between two logs. `path` is dotted and starts with the
+// compared part, e.g. "body.items.0.price", "headers.x-signature" or "query.page".
+export interface DiffChange {
+  path: string;
+  kind: DiffKind;
+  before?: any; // Unset when added
+  after?: any; // Unset when removed
+}
+
+export interface LogDiff {
+  identical: boolean;
+  changes: DiffChange[]; // At most MAX_CHANGES entries
+  truncated?: boolean;
+  ignored: string[];
+}
+
+// Helper function to convert a dotted path to the slash form used by path globs
+function toGlobPath(path: string): string {
+  return `/${path.split(".").join("/")}`;
+}
+
+// Helper function to match a path against the ignore patterns. Header names
+// are compared case-insensitively like the headers themselves.
+function isIgnored(path: string, ignore: string[]): boolean {
+  return ignore.some((pattern) => {
+    const normalized = pattern.startsWith("headers.") ? pattern.toLowerCase() : pattern;
+    return matchPathGlob(toGlobPath(normalized), toGlobPath(path));
+  });
+}
+
+// Helper function to check for an own key, so payload keys such as
+// "constructor" are not found on the prototype
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Helper function to compare two values recursively, recording differences
+function diffValues(
+  before: any,
+  after: any,
+  path: string,
+  ignore: string[],
+  changes: DiffChange[],
+): void {
+  if (isIgnored(path, ignore)) return;
+
+  const bothArrays = Array.isArray(before) && Array.isArray(after);
+  if (bothArrays || (isPlainObject(before) && isPlainObject(after))) {
+    const keys = bothArrays
+      ? Array.from({ length: Math.max(before.length, after.length) }, (_, i) => String(i))
+      : Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    for (const key of keys) {
+      const childPath = `${path}.${key}`;
+      if (!hasOwn(before, key)) {
+        if (!isIgnored(childPath, ignore)) {
+          changes.push({ path: childPath, kind: "added", after: after[key] });
+        }
+      } else if (!hasOwn(after, key)) {
+        if (!isIgnored(childPath, ignore)) {
+          changes.push({ path: childPath, kind: "removed", before: before[key] });
+        }
+      } else {
+        diffValues(before[key], after[key], childPath, ignore, changes);
+      }
+    }
+    return;
+  }
+
+  if (before !== after && JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, kind: "changed", before, after });
+  }
+}
+
+// Helper function to lower-case header names so they compare case-insensitively
+function normalizeHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+}
+
+// Structural diff of the body, headers and query parameters of two logs.
+// Ignore patterns are dotted path globs, e.g. "body.**.id" or "headers.x-*-signature".
+export function diffWebhookLogs(a: WebhookLog, b: WebhookLog, ignore: string[] = []): LogDiff {
+  const changes: DiffChange[] = [];
+  diffValues(a.body ?? null, b.body ?? null, "body", ignore, changes);
+  diffValues(normalizeHeaders(a.headers), normalizeHeaders(b.headers), "headers", ignore, changes);
+  diffValues(a.queryParams, b.queryParams, "query", ignore, changes);
+
+  return {
+    identical: changes.length === 0,
+    changes: changes.slice(0, MAX_CHANGES),
+    truncated: changes.length > MAX_CHANGES || undefined,
+    ignored: ignore,
+  };
+}
+
+// Parse ignore patterns from repeated or comma-separated `ignore` parameters
+export function parseIgnorePaths(searchParams: URLSearchParams): string[] {
+  return searchParams
+    .getAll("ignore")
+    .flatMap((value) => value.split(","))
+    .map((path) => path.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { exportWebhookLogs, importWebhookLogs, type LogImportResult } from "./log-export";
+import { addWebhookLog, clearWebhookLogs, getWebhookLogBlob, type WebhookLog } from "./store";
+
+// Helper function to store a captured log with its raw body
+function captureLog(id: string, overrides: Partial<WebhookLog> = {}, raw?: Buffer): WebhookLog {
+  const log: WebhookLog = {
+    id,
+    timestamp: "2024-01-01T00:00:00.000Z",
+    method: "POST",
+    path: "/webhooks/orders",
+    url: "http://localhost:3000/webhooks/orders?source=test",
+    statusCode: 202,
+    headers: { "content-type": "application/json", "x-event": "order.created" },
+    queryParams: { source: "test" },
+    body: { id },
+    rawBodyBlob: raw ? "raw" : undefined,
+    ...overrides,
+  };
+  addWebhookLog(log, raw ? { raw } : undefined);
+  return log;
+}
+
+// Helper function to import a file that must be accepted
+async function importOk(text: string): Promise<LogImportResult> {
+  const result = await importWebhookLogs(text, undefined);
+  if ("error" in result) throw new Error(result.error);
+  return result;
+}
+
+// Helper function to import a file that must be rejected, returning the message
+async function importError(content: unknown): Promise<string | undefined> {
+  const text = typeof content === "string" ? content : JSON.stringify(content);
+  const result = await importWebhookLogs(text, undefined);
+  return "error" in result ? result.error : undefined;
+}
+
+afterEach(() => {
+  clearWebhookLogs();
+});
+
+describe("round trips", () => {
+  it("restores HAR exports, binary bodies included", async () => {
+    const bytes = Buffer.from([0xff, 0x00, 0x10]);
+    const logs = [
+      captureLog("json", {}, Buffer.from('{"id":"json"}')),
+      captureLog("binary", { timestamp: "2024-01-01T00:00:01.000Z", body: null }, bytes),
+    ];
+
+    const result = await importOk(exportWebhookLogs(logs, "har").body);
+    expect(result).toMatchObject({ format: "har", skipped: 0 });
+    const [json, binary] = result.logs;
+    expect(json).toMatchObject({ method: "POST", path: "/webhooks/orders", statusCode: 202, body: { id: "json" } });
+    expect(json.queryParams).toEqual({ source: "test" });
+    expect(getWebhookLogBlob(binary.id, "raw")).toEqual(bytes);
+  });
+
+  it("restores NDJSON exports with their exact raw bodies", async () => {
+    const raw = Buffer.from('{ "id" : "a" }');
+    const files = [{ field: "doc", filename: "a.pdf", contentType: "application/pdf", size: 3, blob: "file-0" }];
+    const log = captureLog("a", { files }, raw);
+
+    const result = await importOk(exportWebhookLogs([log], "ndjson").body);
+    expect(result).toMatchObject({ format: "ndjson", skipped: 0 });
+    const [imported] = result.logs;
+    expect(imported.id).not.toBe("a");
+    expect(imported).toMatchObject({ timestamp: log.timestamp, method: "POST", statusCode: 202, body: { id: "a" } });
+    expect(imported.files).toEqual([{ field: "doc", filename: "a.pdf", contentType: "application/pdf", size: 3 }]);
+    expect(getWebhookLogBlob(imported.id, "raw")).toEqual(raw);
+  });
+
+  it("restores Postman exports with the collection variables", async () => {
+    const log = captureLog("p", {}, Buffer.from('{"id":"p"}'));
+    const result = await importOk(exportWebhookLogs([log], "postman").body);
+    expect(result.format).toBe("postman");
+    expect(result.logs[0]).toMatchObject({
+      method: "POST",
+      url: "http://localhost:3000/webhooks/orders?source=test",
+      body: { id: "p" },
+    });
+  });
+});
+
+describe("importWebhookLogs validation", () => {
+  it("rejects files in no known format", async () => {
+    expect(await importError("not json\n{")).toBe("File must be a HAR archive, a Postman v2.1 collection or NDJSON");
+  });
+
+  it("rejects methods that are not plain HTTP methods", async () => {
+    const har = { log: { entries: [{ request: { method: "POST; rm -rf ~ #", url: "http://localhost/webhooks/a" } }] } };
+    expect(await importError(har)).toBe(
+      "Invalid har file: log.entries[0].request.method must be an HTTP method such as POST",
+    );
+    const postman = { item: [{ item: [{ request: { method: "GET|sh", url: "http://localhost/a" } }] }] };
+    expect(await importError(postman)).toBe(
+      "Invalid postman file: item[0].item[0].request.method must be an HTTP method such as POST",
+    );
+    const ndjson = JSON.stringify({ method: "$(id)", url: "http://localhost/a", timestamp: "2024-01-01T00:00:00Z" });
+    expect(await importError(ndjson)).toBe("Invalid ndjson file: line 1: method must be an HTTP method such as POST");
+  });
+
+  it("rejects header lists that are not arrays", async () => {
+    const har = { log: { entries: [{ request: { method: "POST", url: "http://localhost/a", headers: "x: y" } }] } };
+    expect(await importError(har)).toBe("Invalid har file: log.entries[0].request.headers must be an array");
+    const postman = { item: [{ request: { method: "POST", url: "http://localhost/a", header: { key: "x" } } }] };
+    expect(await importError(postman)).toBe("Invalid postman file: item[0].request.header must be an array");
+    const form = { item: [{ request: { url: "http://localhost/a", body: { mode: "urlencoded", urlencoded: "a=1" } } }] };
+    expect(await importError(form)).toBe("Invalid postman file: item[0].request.body.urlencoded must be an array");
+  });
+
+  it("rejects malformed NDJSON fields", async () => {
+    const base = { method: "POST", url: "http://localhost/a", timestamp: "2024-01-01T00:00:00Z" };
+    const lines = (line: object) => [JSON.stringify(base), JSON.stringify({ ...base, ...line })].join("\n");
+    expect(await importError(lines({ files: "a.pdf" }))).toBe("Invalid ndjson file: line 2: files must be an array");
+    expect(await importError(lines({ files: [{ field: "a" }] }))).toBe(
+      "Invalid ndjson file: line 2: files[0] must have a field, filename, contentType and size",
+    );
+    expect(await importError(lines({ headers: ["x"] }))).toBe(
+      "Invalid ndjson file: line 2: headers must be an object of string values",
+    );
+    expect(await importError("[1]\n[2]")).toBe("Invalid ndjson file: line 1 must be a JSON object");
+  });
+
+  it("restores only the captured request from NDJSON lines", async () => {
+    const line = {
+      method: "post",
+      url: "http://localhost/webhooks/orders",
+      path: "/webhooks/elsewhere",
+      timestamp: "2024-01-01T00:00:00Z",
+      binId: "someone-elses-bin",
+      signature: { scheme: "stripe", valid: true },
+      redaction: { ruleIds: ["r"], fields: [] },
+      idempotencyKey: "k",
+      body: { ok: true },
+    };
+    const [log] = (await importOk(JSON.stringify(line))).logs;
+    expect(log).toMatchObject({ method: "POST", path: "/webhooks/orders", body: { ok: true } });
+    expect(log.binId).toBeUndefined();
+    expect(log.signature).toBeUndefined();
+    expect(log.redaction).toBeUndefined();
+    expect(log.idempotencyKey).toBeUndefined();
+  });
+
+  it("skips entries without a method or a valid URL", async () => {
+    const har = {
+      log: {
+        entries: [
+          { request: { url: "http://localhost/a" } },
+          { request: { method: "POST", url: "not a url" } },
+          { request: { method: "post", url: "http://localhost/b" } },
+        ],
+      },
+    };
+    const result = await importOk(JSON.stringify(har));
+    expect(result).toMatchObject({ skipped: 2 });
+    expect(result.logs[0].method).toBe("POST");
+  });
+});
+
+describe("curl export", () => {
+  it("quotes every value taken from the log", () => {
+    const log = captureLog("c", {
+      method: "POST",
+      url: "http://localhost:3000/webhooks/it's?q=$(id)",
+      headers: { "x-note": "it's `here`", host: "localhost:3000" },
+    }, Buffer.from("body with 'quotes'"));
+    const script = exportWebhookLogs([log], "curl").body;
+
+    expect(script).toContain(`BASE_URL="\${BASE_URL:-http://localhost:3000}"`);
+    expect(script).toContain(`curl -sS -X 'POST' "$BASE_URL"'/webhooks/it'\\''s?q=$(id)'`);
+    expect(script).toContain(`-H 'x-note: it'\\''s \`here\`'`);
+    expect(script).not.toContain("-H 'host");
+    expect(script).toContain(`--data-binary 'body with '\\''quotes'\\'''`);
+  });
+
+  it("pipes binary bodies through base64", () => {
+    const bytes = Buffer.from([0xff, 0x00]);
+    const log = captureLog("b", { body: null }, bytes);
+    expect(exportWebhookLogs([log], "curl").body).toContain(
+      `printf '%s' '${bytes.toString("base64")}' | base64 -d | curl`,
+    );
+  });
+});
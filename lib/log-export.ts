@@ -0,0 +1,541 @@
+import { createLogId, importWebhookLog, type WebhookFile, type WebhookLog } from "./store";
+import { redactWebhookLog } from "./redaction";
+import { getRawBodyLimit, type LogBlobs } from "./storage";
+import { getHeaderValue } from "./match";
+import { filterRequestHeaders } from "./http-client";
+import { getLogRequestBody } from "./replay";
+import { decodeUtf8, parseBodyBytes, RAW_BODY_BLOB } from "./request-body";
+
+// Constants
+const HAR_VERSION = "1.2";
+const POSTMAN_SCHEMA = "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+const CREATOR = { name: "mock-webhooks", version: "0.1.0" };
+const HTTP_METHOD_PATTERN = /^[A-Z]+$/;
+
+export type ExportFormat = "har" | "ndjson" | "postman" | "curl";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["har", "ndjson", "postman", "curl"];
+
+// Serialized logs ready to be downloaded
+export interface LogExport {
+  contentType: string;
+  filename: string;
+  body: string;
+}
+
+// NDJSON lines carry the raw body so an import restores the exact bytes
+type NdjsonLog = WebhookLog & { rawBody?: string }; // Base64
+
+// Request fields read from an imported file
+interface ImportedRequest {
+  timestamp?: string;
+  method?: string; // Entries without a method are skipped
+  url: string;
+  headers: Record<string, string>;
+  body: Buffer | null;
+  statusCode?: number;
+}
+
+// Thrown for a malformed import file; reported as a 400 naming the field
+class ImportError extends Error {}
+
+export interface LogImportResult {
+  format: Exclude<ExportFormat, "curl">;
+  logs: WebhookLog[];
+  skipped: number; // Entries without a usable method and URL
+}
+
+// Helper function to read a captured body as bytes
+function getBodyBytes(log: WebhookLog): Buffer | null {
+  const body = getLogRequestBody(log);
+  if (body === null) return null;
+  return typeof body === "string" ? Buffer.from(body) : body;
+}
+
+function toNameValues(record: Record<string, string>): { name: string; value: string }[] {
+  return Object.entries(record).map(([name, value]) => ({ name, value }));
+}
+
+// HAR 1.2 archive. Only the status of the mock's response is known.
+function exportHar(logs: WebhookLog[]): string {
+  const entries = logs.map((log) => {
+    const bytes = getBodyBytes(log);
+    const text = bytes ? decodeUtf8(bytes) : undefined;
+    const mimeType = getHeaderValue(log.headers, "content-type") || "application/octet-stream";
+    const time =
+      log.startTime && log.endTime
+        ? new Date(log.endTime).getTime() - new Date(log.startTime).getTime()
+        : 0;
+    return {
+      startedDateTime: log.timestamp,
+      time,
+      request: {
+        method: log.method,
+        url: log.url,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toNameValues(log.headers),
+        queryString: toNameValues(log.queryParams),
+        postData: bytes
+          ? text !== undefined
+            ? { mimeType, text }
+            : { mimeType, text: bytes.toString("base64"), encoding: "base64" }
+          : undefined,
+        headersSize: -1,
+        bodySize: bytes?.length ?? 0,
+      },
+      response: {
+        status: log.statusCode ?? 0, // HAR uses 0 for requests that got no response
+        statusText: "",
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: [],
+        content: { size: -1, mimeType: "" },
+        redirectURL: "",
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 },
+      _id: log.id,
+    };
+  });
+  return JSON.stringify({ log: { version: HAR_VERSION, creator: CREATOR, entries } }, null, 2);
+}
+
+function exportNdjson(logs: WebhookLog[]): string {
+  return logs
+    .map((log) => {
+      const line: NdjsonLog = { ...log };
+      const raw = getBodyBytes(log);
+      if (log.rawBodyBlob && raw) line.rawBody = raw.toString("base64");
+      return JSON.stringify(line);
+    })
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+// Helper function to split a log URL into the export's base URL and the rest
+function splitUrl(log: WebhookLog): { origin: string; pathAndQuery: string } {
+  try {
+    const url = new URL(log.url);
+    return { origin: url.origin, pathAndQuery: `${url.pathname}${url.search}` };
+  } catch {
+    return { origin: "", pathAndQuery: log.path };
+  }
+}
+
+// Postman v2.1 collection; the origin is the {{baseUrl}} collection variable
+function exportPostman(logs: WebhookLog[]): string {
+  const item = logs.map((log) => {
+    const bytes = getBodyBytes(log);
+    const text = bytes ? decodeUtf8(bytes) : undefined;
+    const contentType = getHeaderValue(log.headers, "content-type") || "";
+    return {
+      name: `${log.method} ${log.path}`,
+      request: {
+        method: log.method,
+        header: Object.entries(filterRequestHeaders(log.headers)).map(([key, value]) => ({
+          key,
+          value,
+        })),
+        url: `{{baseUrl}}${splitUrl(log).pathAndQuery}`,
+        body:
+          text !== undefined && text !== ""
+            ? {
+                mode: "raw",
+                raw: text,
+                options: contentType.includes("json") ? { raw: { language: "json" } } : undefined,
+              }
+            : undefined,
+      },
+      response: [],
+    };
+  });
+  return JSON.stringify(
+    {
+      info: { name: "Webhook captures", schema: POSTMAN_SCHEMA },
+      item,
+      variable: [{ key: "baseUrl", value: logs.length > 0 ? splitUrl(logs[logs.length - 1]).origin : "" }],
+    },
+    null,
+    2,
+  );
+}
+
+// Helper function to quote a value for a POSIX shell
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Shell script re-sending every request; BASE_URL retargets it
+function exportCurl(logs: WebhookLog[]): string {
+  const baseUrl = logs.length > 0 ? splitUrl(logs[logs.length - 1]).origin : "";
+  const lines = [
+    "#!/bin/sh",
+    "# Re-send captured webhooks. Usage: BASE_URL=http://localhost:3000 sh webhooks.sh",
+    `BASE_URL="\${BASE_URL:-${baseUrl}}"`,
+    "",
+  ];
+  for (const log of logs) {
+    const bytes = getBodyBytes(log);
+    const text = bytes ? decodeUtf8(bytes) : undefined;
+    const args = [
+      `curl -sS -X ${shellQuote(log.method)} "$BASE_URL"${shellQuote(splitUrl(log).pathAndQuery)}`,
+      ...Object.entries(filterRequestHeaders(log.headers)).map(
+        ([name, value]) => `-H ${shellQuote(`${name}: ${value}`)}`,
+      ),
+    ];
+    let command: string;
+    if (!bytes || bytes.length === 0) {
+      command = args.join(" \\\n  ");
+    } else if (text !== undefined && !text.startsWith("@")) {
+      command = [...args, `--data-binary ${shellQuote(text)}`].join(" \\\n  ");
+    } else {
+      // Binary bodies are piped in as base64 so the script stays plain text
+      command = `printf '%s' ${shellQuote(bytes.toString("base64"))} | base64 -d | ${[
+        ...args,
+        "--data-binary @-",
+      ].join(" \\\n  ")}`;
+    }
+    lines.push(`# ${log.timestamp} ${log.id}`, command, "");
+  }
+  return lines.join("\n");
+}
+
+// Serialize logs in an export format. Logs are written oldest first.
+export function exportWebhookLogs(logs: WebhookLog[], format: ExportFormat): LogExport {
+  const chronological = [...logs].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  switch (format) {
+    case "har":
+      return {
+        contentType: "application/json",
+        filename: "webhooks.har",
+        body: exportHar(chronological),
+      };
+    case "ndjson":
+      return {
+        contentType: "application/x-ndjson",
+        filename: "webhooks.ndjson",
+        body: exportNdjson(chronological),
+      };
+    case "postman":
+      return {
+        contentType: "application/json",
+        filename: "webhooks.postman_collection.json",
+        body: exportPostman(chronological),
+      };
+    case "curl":
+      return {
+        contentType: "text/x-shellscript; charset=utf-8",
+        filename: "webhooks.sh",
+        body: exportCurl(chronological),
+      };
+  }
+}
+
+// Helper function to read an optional list of an import file
+function readArray(value: any, field: string): any[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new ImportError(`${field} must be an array`);
+  return value;
+}
+
+// Helper function to read a request method. A missing method leaves the entry
+// to be skipped; anything but letters is rejected since exports such as the
+// curl script embed it.
+function readMethod(value: any, field: string): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const method = value.toUpperCase();
+  if (!HTTP_METHOD_PATTERN.test(method)) {
+    throw new ImportError(`${field} must be an HTTP method such as POST`);
+  }
+  return method;
+}
+
+// Helper function to read HAR entries
+function readHar(archive: any): ImportedRequest[] {
+  return archive.log.entries.map((entry: any, index: number) => {
+    const field = `log.entries[${index}].request`;
+    const request = entry?.request || {};
+    const headers: Record<string, string> = {};
+    for (const header of readArray(request.headers, `${field}.headers`)) {
+      // HTTP/2 pseudo-headers such as :authority are not real headers
+      if (typeof header?.name === "string" && !header.name.startsWith(":")) {
+        headers[header.name.toLowerCase()] = String(header.value ?? "");
+      }
+    }
+    const postData = request.postData;
+    let body: Buffer | null = null;
+    if (typeof postData?.text === "string") {
+      body = Buffer.from(postData.text, postData.encoding === "base64" ? "base64" : "utf8");
+    } else if (Array.isArray(postData?.params)) {
+      body = Buffer.from(
+        new URLSearchParams(
+          postData.params.map((param: any) => [String(param.name), String(param.value ?? "")]),
+        ).toString(),
+      );
+    }
+    return {
+      timestamp: entry?.startedDateTime,
+      method: readMethod(request.method, `${field}.method`),
+      url: request.url,
+      headers,
+      body,
+      statusCode: entry?.response?.status || undefined,
+    };
+  });
+}
+
+// Helper function to read Postman items, including those in folders
+function readPostman(collection: any): ImportedRequest[] {
+  const variables: Record<string, string> = {};
+  for (const variable of readArray(collection.variable, "variable")) {
+    if (typeof variable?.key === "string") variables[variable.key] = String(variable.value ?? "");
+  }
+  const substitute = (value: string) =>
+    value.replace(/\{\{([^}]+)\}\}/g, (match, name) => variables[name.trim()] ?? match);
+
+  const requests: ImportedRequest[] = [];
+  const visit = (items: any[], path: string) => {
+    items.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      if (Array.isArray(item?.item)) {
+        visit(item.item, `${itemPath}.item`);
+        return;
+      }
+      const request = typeof item?.request === "string" ? { url: item.request } : item?.request;
+      if (!request) return;
+
+      const headers: Record<string, string> = {};
+      for (const header of readArray(request.header, `${itemPath}.request.header`)) {
+        if (typeof header?.key === "string" && !header.disabled) {
+          headers[header.key.toLowerCase()] = substitute(String(header.value ?? ""));
+        }
+      }
+      const url = typeof request.url === "string" ? request.url : request.url?.raw;
+
+      let body: Buffer | null = null;
+      const { mode } = request.body || {};
+      if (mode === "raw" && typeof request.body.raw === "string") {
+        body = Buffer.from(substitute(request.body.raw));
+      } else if (mode === "urlencoded" || mode === "formdata") {
+        const fields = readArray(request.body[mode], `${itemPath}.request.body.${mode}`).filter(
+          (field: any) => !field.disabled && field.type !== "file",
+        );
+        body = Buffer.from(
+          new URLSearchParams(
+            fields.map((field: any) => [String(field.key), substitute(String(field.value ?? ""))]),
+          ).toString(),
+        );
+        headers["content-type"] ??= "application/x-www-form-urlencoded";
+      }
+
+      requests.push({
+        method: readMethod(request.method ?? "GET", `${itemPath}.request.method`),
+        url: typeof url === "string" ? substitute(url) : url,
+        headers,
+        body,
+        statusCode: item.response?.[0]?.code,
+      });
+    });
+  };
+  visit(collection.item, "item");
+  return requests;
+}
+
+// Helper function to build a log from an imported request, parsing its body
+// the way the webhook endpoint does
+async function toWebhookLog(
+  request: ImportedRequest,
+  binId: string | undefined,
+): Promise<{ log: WebhookLog; blobs: LogBlobs } | undefined> {
+  if (typeof request.method !== "string" || typeof request.url !== "string") return undefined;
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return undefined;
+  }
+
+  const blobs: LogBlobs = {};
+  let rawBodyBlob: string | undefined;
+  if (request.body && request.body.length > 0 && request.body.length <= getRawBodyLimit()) {
+    rawBodyBlob = RAW_BODY_BLOB;
+    blobs[RAW_BODY_BLOB] = request.body;
+  }
+
+  const timestamp = request.timestamp && !isNaN(new Date(request.timestamp).getTime())
+    ? new Date(request.timestamp).toISOString()
+    : new Date().toISOString();
+  const statusCode =
+    Number.isInteger(request.statusCode) && request.statusCode! >= 100 && request.statusCode! <= 599
+      ? request.statusCode!
+      : 200;
+
+  const contentType = getHeaderValue(request.headers, "content-type") || "";
+  const { body } = request.body?.length ? await parseBodyBytes(request.body, contentType) : { body: null };
+
+  return {
+    log: {
+      id: createLogId(),
+      binId,
+      timestamp,
+      method: request.method.toUpperCase(),
+      path: url.pathname,
+      url: url.toString(),
+      statusCode,
+      headers: request.headers,
+      queryParams: Object.fromEntries(url.searchParams),
+      body,
+      bodySize: request.body?.length,
+      rawBodyBlob,
+    },
+    blobs,
+  };
+}
+
+// Helper function to read a timestamp, or undefined when it is not a valid date
+function readTimestamp(value: any): string | undefined {
+  return typeof value === "string" && !isNaN(new Date(value).getTime())
+    ? new Date(value).toISOString()
+    : undefined;
+}
+
+// Helper function to read uploaded file details; their contents are not exported
+function readFiles(value: any, field: string): WebhookFile[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  return readArray(value, field).map((file: any, index: number) => {
+    if (
+      typeof file?.field !== "string" ||
+      typeof file.filename !== "string" ||
+      typeof file.contentType !== "string" ||
+      typeof file.size !== "number"
+    ) {
+      throw new ImportError(`${field}[${index}] must have a field, filename, contentType and size`);
+    }
+    return { field: file.field, filename: file.filename, contentType: file.contentType, size: file.size };
+  });
+}
+
+// Helper function to restore an NDJSON line under a new id and the importing
+// bin. Only the captured request is restored, field by field; results such as
+// signature checks or redaction markers are not taken from the file.
+function fromNdjsonLine(
+  line: any,
+  lineNumber: number,
+  binId: string | undefined,
+): { log: WebhookLog; blobs: LogBlobs } | undefined {
+  if (typeof line !== "object" || line === null || Array.isArray(line)) {
+    throw new ImportError(`line ${lineNumber} must be a JSON object`);
+  }
+  const field = (name: string) => `line ${lineNumber}: ${name}`;
+  const method = readMethod(line.method, field("method"));
+  const timestamp = readTimestamp(line.timestamp);
+  if (!method || !timestamp || typeof line.url !== "string") return undefined;
+  let url: URL;
+  try {
+    url = new URL(line.url);
+  } catch {
+    return undefined;
+  }
+
+  for (const name of ["headers", "queryParams"]) {
+    const value = line[name];
+    if (
+      value !== undefined &&
+      (typeof value !== "object" ||
+        value === null ||
+        Array.isArray(value) ||
+        Object.values(value).some((entry) => typeof entry !== "string"))
+    ) {
+      throw new ImportError(`${field(name)} must be an object of string values`);
+    }
+  }
+
+  const blobs: LogBlobs = {};
+  if (typeof line.rawBody === "string") {
+    blobs[RAW_BODY_BLOB] = Buffer.from(line.rawBody, "base64");
+  }
+  const statusCode =
+    Number.isInteger(line.statusCode) && line.statusCode >= 100 && line.statusCode <= 599
+      ? line.statusCode
+      : 200;
+
+  return {
+    log: {
+      id: createLogId(),
+      binId,
+      timestamp,
+      method,
+      path: url.pathname,
+      url: url.toString(),
+      statusCode,
+      timeout: typeof line.timeout === "number" ? line.timeout : undefined,
+      startTime: readTimestamp(line.startTime),
+      endTime: readTimestamp(line.endTime),
+      headers: line.headers || {},
+      queryParams: line.queryParams || Object.fromEntries(url.searchParams),
+      body: line.body ?? null,
+      bodySize: typeof line.bodySize === "number" ? line.bodySize : undefined,
+      rawBodyBlob: blobs[RAW_BODY_BLOB] ? RAW_BODY_BLOB : undefined,
+      files: readFiles(line.files, field("files")),
+    },
+    blobs,
+  };
+}
+
+// Load a HAR archive, Postman collection or NDJSON export into the store.
+// Imported logs get new ids, belong to the given bin and are placed by their
+// original timestamps; they do not trigger live events or notifications.
+export async function importWebhookLogs(
+  text: string,
+  binId: string | undefined,
+): Promise<LogImportResult | { error: string }> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = undefined;
+  }
+
+  const format: LogImportResult["format"] = Array.isArray(parsed?.log?.entries)
+    ? "har"
+    : Array.isArray(parsed?.item)
+      ? "postman"
+      : "ndjson";
+  let entries: ({ log: WebhookLog; blobs: LogBlobs } | undefined)[];
+  let total: number;
+  try {
+    if (format === "ndjson") {
+      // A single-line NDJSON file is also valid JSON
+      const lines = text.split("\n").filter((line) => line.trim());
+      total = lines.length;
+      let values: any[];
+      try {
+        values = lines.map((line) => JSON.parse(line));
+      } catch {
+        return { error: "File must be a HAR archive, a Postman v2.1 collection or NDJSON" };
+      }
+      entries = values.map((value, index) => fromNdjsonLine(value, index + 1, binId));
+    } else {
+      const requests = format === "har" ? readHar(parsed) : readPostman(parsed);
+      total = requests.length;
+      entries = await Promise.all(requests.map((request) => toWebhookLog(request, binId)));
+    }
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return { error: `Invalid ${format} file: ${error.message}` };
+    }
+    throw error;
+  }
+
+  const logs: WebhookLog[] = [];
+  for (const entry of entries) {
+    if (!entry) continue;
+    const log = redactWebhookLog(entry.log, entry.blobs);
+    importWebhookLog(log, entry.blobs);
+    logs.push(log);
+  }
+  return { format, logs, skipped: total - logs.length };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { parseLogQuery, queryWebhookLogs, type LogQuery } from "./log-query";
+import type { WebhookLog } from "./store";
+
+// Helper function to build a log received `second` seconds into 2024
+function makeLog(id: string, second: number, overrides: Partial<WebhookLog> = {}): WebhookLog {
+  return {
+    id,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, second)).toISOString(),
+    method: "POST",
+    path: "/webhooks/orders",
+    url: "http://localhost/webhooks/orders",
+    statusCode: 200,
+    headers: { "x-event": "order.created" },
+    queryParams: {},
+    body: { type: "order.created", amount: 10 },
+    ...overrides,
+  };
+}
+
+// Newest first, like the store
+const logs = [
+  makeLog("e", 5, { method: "GET", body: null }),
+  makeLog("d", 4, { statusCode: undefined, chaos: { failed: true, fail: "drop" } }),
+  makeLog("c", 3, { statusCode: 404, path: "/webhooks/orders/1" }),
+  makeLog("b", 2, { statusCode: 500, path: "/webhooks/payments", body: { type: "payment.failed" } }),
+  makeLog("a", 1, { headers: { "x-trace": "Needle-123" } }),
+];
+
+// Helper function to query the logs with a query string, returning the ids
+function queryIds(search: string): string[] {
+  const { query, error } = parseLogQuery(new URLSearchParams(search));
+  if (error) throw new Error(error);
+  return queryWebhookLogs(logs, query).logs.map((log) => log.id);
+}
+
+describe("parseLogQuery", () => {
+  it("reports invalid parameters", () => {
+    const error = (search: string) => parseLogQuery(new URLSearchParams(search)).error;
+    expect(error("status=4x")).toBe('status must be a code ("404"), a class ("4xx") or a range ("400-499")');
+    expect(error("since=yesterday")).toBe("since must be an ISO date or epoch milliseconds");
+    expect(error("limit=0")).toBe("limit must be between 1 and 1000");
+    expect(error("cursor=nope")).toBe("Invalid cursor");
+  });
+});
+
+describe("queryWebhookLogs", () => {
+  it("filters by method, path, status and time", () => {
+    expect(queryIds("method=get,put")).toEqual(["e"]);
+    expect(queryIds("path=orders/*")).toEqual(["c"]);
+    expect(queryIds("pathPrefix=/webhooks/orders")).toEqual(["e", "d", "c", "a"]);
+    expect(queryIds("status=4xx")).toEqual(["c"]);
+    expect(queryIds("status=200-599")).toEqual(["e", "c", "b", "a"]);
+    expect(queryIds("since=2024-01-01T00:00:02Z&until=2024-01-01T00:00:03Z")).toEqual(["c", "b"]);
+  });
+
+  it("matches body fields and searches url, headers and body", () => {
+    expect(queryIds("body.type=payment.failed")).toEqual(["b"]);
+    expect(queryIds("body.amount=10&method=POST")).toEqual(["d", "c", "a"]);
+    expect(queryIds("q=needle")).toEqual(["a"]);
+  });
+
+  it("pages through the matches with a cursor", () => {
+    const { query: first } = parseLogQuery(new URLSearchParams("limit=2"));
+    const page1 = queryWebhookLogs(logs, first);
+    expect(page1).toMatchObject({ total: 5, logs: [{ id: "e" }, { id: "d" }] });
+
+    const next: LogQuery = { ...first, cursor: page1.nextCursor! };
+    const page2 = queryWebhookLogs(logs, next);
+    expect(page2.logs.map((log) => log.id)).toEqual(["c", "b"]);
+
+    // The page continues after the cursor log even when it was deleted
+    const remaining = logs.filter((log) => log.id !== "b");
+    const page3 = queryWebhookLogs(remaining, { ...first, cursor: page2.nextCursor! });
+    expect(page3).toMatchObject({ logs: [{ id: "a" }], nextCursor: null });
+  });
+});
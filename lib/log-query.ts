@@ -0,0 +1,217 @@
+import type { WebhookLog } from "./store";
+import { getValueAtPath, matchesValue, matchPathGlob } from "./match";
+
+// Constants
+const MAX_PAGE_SIZE = 1000;
+const BODY_PARAM_PREFIX = "body.";
+
+// Server-side filter for webhook logs. All present fields must match.
+export interface LogFilter {
+  methods?: string[]; // Upper-case HTTP methods
+  path?: string; // Path glob, e.g. /webhooks/orders/*
+  pathPrefix?: string;
+  statusMin?: number;
+  statusMax?: number;
+  since?: number; // Epoch milliseconds (inclusive)
+  until?: number; // Epoch milliseconds (inclusive)
+  search?: string; // Case-insensitive full-text search over url, headers and body
+  body?: Record<string, string>; // Dotted body paths and their expected values
+}
+
+export interface LogQuery {
+  filter: LogFilter;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface LogQueryResult {
+  logs: WebhookLog[];
+  total: number; // Number of logs matching the filter
+  nextCursor: string | null;
+}
+
+// Position of the last log of a page; opaque to clients
+interface Cursor {
+  id: string;
+  timestamp: string;
+}
+
+// Helper function to parse an ISO date or epoch milliseconds
+function parseTime(value: string): number | undefined {
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : new Date(value).getTime();
+  return isNaN(time) ? undefined : time;
+}
+
+// Helper function to parse a status filter: "404", "4xx" or "400-499"
+function parseStatusRange(value: string): { min: number; max: number } | undefined {
+  const exact = value.match(/^(\d{3})$/);
+  if (exact) {
+    const code = parseInt(exact[1], 10);
+    return { min: code, max: code };
+  }
+  const klass = value.match(/^([1-5])xx$/i);
+  if (klass) {
+    const base = parseInt(klass[1], 10) * 100;
+    return { min: base, max: base + 99 };
+  }
+  const range = value.match(/^(\d{3})-(\d{3})$/);
+  if (range) {
+    return { min: parseInt(range[1], 10), max: parseInt(range[2], 10) };
+  }
+  return undefined;
+}
+
+function encodeCursor(log: WebhookLog): string {
+  const cursor: Cursor = { id: log.id, timestamp: log.timestamp };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    return typeof cursor?.id === "string" && typeof cursor?.timestamp === "string"
+      ? cursor
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Parse the log filter query parameters.
+// Supported: method, path, pathPrefix, status, since, until, q, body.<path>
+export function parseLogFilter(
+  searchParams: URLSearchParams,
+): { filter: LogFilter; error?: string } {
+  const filter: LogFilter = {};
+
+  const method = searchParams.get("method");
+  if (method) {
+    filter.methods = method
+      .split(",")
+      .map((m) => m.trim().toUpperCase())
+      .filter(Boolean);
+  }
+
+  filter.path = searchParams.get("path") || undefined;
+  filter.pathPrefix = searchParams.get("pathPrefix") || undefined;
+  filter.search = searchParams.get("q") || undefined;
+
+  const status = searchParams.get("status");
+  if (status) {
+    const range = parseStatusRange(status.trim());
+    if (!range) {
+      return { filter, error: 'status must be a code ("404"), a class ("4xx") or a range ("400-499")' };
+    }
+    filter.statusMin = range.min;
+    filter.statusMax = range.max;
+  }
+
+  for (const key of ["since", "until"] as const) {
+    const value = searchParams.get(key);
+    if (!value) continue;
+    const time = parseTime(value);
+    if (time === undefined) {
+      return { filter, error: `${key} must be an ISO date or epoch milliseconds` };
+    }
+    filter[key] = time;
+  }
+
+  searchParams.forEach((value, key) => {
+    if (key.startsWith(BODY_PARAM_PREFIX) && key.length > BODY_PARAM_PREFIX.length) {
+      filter.body = filter.body || {};
+      filter.body[key.slice(BODY_PARAM_PREFIX.length)] = value;
+    }
+  });
+
+  return { filter };
+}
+
+// Parse filter and pagination query parameters (limit, cursor)
+export function parseLogQuery(
+  searchParams: URLSearchParams,
+): { query: LogQuery; error?: string } {
+  const { filter, error } = parseLogFilter(searchParams);
+  const query: LogQuery = { filter };
+  if (error) return { query, error };
+
+  const limit = searchParams.get("limit");
+  if (limit) {
+    const parsed = parseInt(limit, 10);
+    if (isNaN(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+      return { query, error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    query.limit = parsed;
+  }
+
+  query.cursor = searchParams.get("cursor") || undefined;
+  if (query.cursor && !decodeCursor(query.cursor)) {
+    return { query, error: "Invalid cursor" };
+  }
+
+  return { query };
+}
+
+export function matchesLogFilter(log: WebhookLog, filter: LogFilter): boolean {
+  if (filter.methods?.length && !filter.methods.includes(log.method.toUpperCase())) {
+    return false;
+  }
+  if (filter.path && !matchPathGlob(filter.path, log.path)) return false;
+  if (filter.pathPrefix && !log.path.startsWith(filter.pathPrefix)) return false;
+  if (filter.statusMin !== undefined || filter.statusMax !== undefined) {
+    // Dropped connections have no status code, so status filters leave them out
+    if (log.statusCode === undefined) return false;
+    if (filter.statusMin !== undefined && log.statusCode < filter.statusMin) return false;
+    if (filter.statusMax !== undefined && log.statusCode > filter.statusMax) return false;
+  }
+
+  if (filter.since !== undefined || filter.until !== undefined) {
+    const time = new Date(log.timestamp).getTime();
+    if (filter.since !== undefined && time < filter.since) return false;
+    if (filter.until !== undefined && time > filter.until) return false;
+  }
+
+  for (const [path, expected] of Object.entries(filter.body || {})) {
+    if (!matchesValue(getValueAtPath(log.body, path), expected)) return false;
+  }
+
+  if (filter.search) {
+    const needle = filter.search.toLowerCase();
+    const haystack = [
+      log.url,
+      JSON.stringify(log.headers),
+      typeof log.body === "string" ? log.body : JSON.stringify(log.body),
+    ]
+      .join("\n")
+      .toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+
+  return true;
+}
+
+// Filter and paginate a newest-first list of logs
+export function queryWebhookLogs(logs: WebhookLog[], query: LogQuery): LogQueryResult {
+  const matched = logs.filter((log) => matchesLogFilter(log, query.filter));
+
+  let start = 0;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (cursor) {
+    const index = matched.findIndex((log) => log.id === cursor.id);
+    if (index !== -1) {
+      start = index + 1;
+    } else {
+      // The cursor log was deleted: continue with the next older log
+      const next = matched.findIndex((log) => log.timestamp < cursor.timestamp);
+      start = next === -1 ? matched.length : next;
+    }
+  }
+
+  const end = query.limit ? start + query.limit : matched.length;
+  const page = matched.slice(start, end);
+
+  return {
+    logs: page,
+    total: matched.length,
+    nextCursor: end < matched.length && page.length > 0 ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
@@ -0,0 +1,181 @@
+// Shared helpers for matching webhook requests against user-defined criteria
+
+// Helper function to normalize a path pattern: patterns without a leading
+// slash are relative to /webhooks (e.g. "orders/*" -> "/webhooks/orders/*")
+export function normalizePathPattern(pattern: string): string {
+  const trimmed = pattern.trim();
+  if (trimmed.startsWith("/")) return trimmed;
+  return trimmed ? `/webhooks/${trimmed}` : "/webhooks";
+}
+
+// Helper function to convert a path glob into a regular expression.
+// "*" matches within one path segment, "**" matches across segments.
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "/**" also matches the parent path itself (e.g. /webhooks/**)
+        if (source.endsWith("/")) {
+          source = source.slice(0, -1) + "(?:/.*)?";
+        } else {
+          source += ".*";
+        }
+        i++;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Check whether a request path matches a glob pattern
+export function matchPathGlob(pattern: string, path: string): boolean {
+  return globToRegExp(normalizePathPattern(pattern)).test(path);
+}
+
+// Read a value from an object using a dotted path such as "data.items.0.id"
+export function getValueAtPath(value: any, path: string): any {
+  if (!path) return value;
+  let current = value;
+  for (const key of path.split(".")) {
+    if (current === null || current === undefined || typeof current !== "object") {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+// Compare a request value with an expected value. Strings are compared
+// against the stringified actual value so "42" matches 42 and "true" matches true.
+export function matchesValue(actual: any, expected: any): boolean {
+  if (actual === undefined) return false;
+  if (typeof expected === "string" && typeof actual !== "object") {
+    return String(actual) === expected;
+  }
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+// Case-insensitive header lookup
+export function getHeaderValue(
+  headers: Record<string, string>,
+  name: string,
+): string | undefined {
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lowerName) return value;
+  }
+  return undefined;
+}
+
+// Criteria a webhook request must satisfy. Every field is optional and
+// all present fields must match.
+export interface RequestMatcher {
+  method?: string; // HTTP method, case-insensitive
+  path?: string; // Path glob, e.g. "/webhooks/orders/*" or "orders/**"
+  headers?: Record<string, string>; // Header values (names are case-insensitive)
+  query?: Record<string, string>; // Query parameter values
+  body?: Record<string, any>; // Dotted body paths and their expected values
+}
+
+// The request fields matchers are evaluated against (a subset of WebhookLog)
+export interface MatchableRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  queryParams: Record<string, string>;
+  body: any;
+}
+
+export function matchesRequest(
+  matcher: RequestMatcher,
+  request: MatchableRequest,
+): boolean {
+  return getRequestMismatches(matcher, request).length === 0;
+}
+
+// Describe each criterion of a matcher the request does not satisfy,
+// e.g. 'body.type is "updated", expected "created"'. Empty when it matches.
+export function getRequestMismatches(
+  matcher: RequestMatcher,
+  request: MatchableRequest,
+): string[] {
+  const mismatches: string[] = [];
+  const describe = (value: any) => (value === undefined ? "missing" : `is ${JSON.stringify(value)}`);
+
+  if (
+    matcher.method &&
+    matcher.method !== "*" &&
+    matcher.method.toUpperCase() !== request.method.toUpperCase()
+  ) {
+    mismatches.push(`method is ${request.method}, expected ${matcher.method.toUpperCase()}`);
+  }
+
+  if (matcher.path && !matchPathGlob(matcher.path, request.path)) {
+    mismatches.push(`path is ${request.path}, expected ${normalizePathPattern(matcher.path)}`);
+  }
+
+  for (const [name, expected] of Object.entries(matcher.headers || {})) {
+    const actual = getHeaderValue(request.headers, name);
+    if (actual !== expected) {
+      mismatches.push(`header ${name} ${describe(actual)}, expected ${JSON.stringify(expected)}`);
+    }
+  }
+
+  for (const [name, expected] of Object.entries(matcher.query || {})) {
+    const actual = request.queryParams[name];
+    if (actual !== expected) {
+      mismatches.push(`query ${name} ${describe(actual)}, expected ${JSON.stringify(expected)}`);
+    }
+  }
+
+  for (const [path, expected] of Object.entries(matcher.body || {})) {
+    const actual = getValueAtPath(request.body, path);
+    if (!matchesValue(actual, expected)) {
+      mismatches.push(`body.${path} ${describe(actual)}, expected ${JSON.stringify(expected)}`);
+    }
+  }
+
+  return mismatches;
+}
+
+// Helper function to validate a matcher received through the API.
+// Returns an error message, or undefined when the matcher is valid.
+export function validateRequestMatcher(matcher: any): string | undefined {
+  if (matcher === undefined) return undefined;
+  if (typeof matcher !== "object" || matcher === null || Array.isArray(matcher)) {
+    return "match must be an object";
+  }
+  if (matcher.method !== undefined && typeof matcher.method !== "string") {
+    return "match.method must be a string";
+  }
+  if (matcher.path !== undefined && typeof matcher.path !== "string") {
+    return "match.path must be a string";
+  }
+  for (const field of ["headers", "query"] as const) {
+    const value = matcher[field];
+    if (value === undefined) continue;
+    if (
+      typeof value !== "object" ||
+      value === null ||
+      Array.isArray(value) ||
+      Object.values(value).some((v) => typeof v !== "string")
+    ) {
+      return `match.${field} must be an object of string values`;
+    }
+  }
+  if (
+    matcher.body !== undefined &&
+    (typeof matcher.body !== "object" || matcher.body === null || Array.isArray(matcher.body))
+  ) {
+    return "match.body must be an object of field paths and values";
+  }
+  return undefined;
+}
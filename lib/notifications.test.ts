@@ -0,0 +1,188 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  NOTIFICATION_HEADER,
+  clearNotificationHistory,
+  createNotificationRule,
+  deleteNotificationRule,
+  getNotificationHistory,
+  getNotificationRules,
+  notifyForLog,
+  sendNotification,
+  validateNotificationRuleInput,
+} from "./notifications";
+import type { WebhookLog } from "./store";
+
+// Request received by the test server
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+let server: http.Server;
+let targetUrl: string;
+const received: ReceivedRequest[] = [];
+
+// Helper function to build a captured log
+function makeLog(overrides: Partial<WebhookLog> = {}): WebhookLog {
+  return {
+    id: "log-1",
+    timestamp: new Date().toISOString(),
+    method: "POST",
+    path: "/webhooks/orders",
+    url: "http://localhost/webhooks/orders",
+    statusCode: 500,
+    headers: { "x-event": "order.created" },
+    queryParams: {},
+    body: { id: 1 },
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  // Answers /fail with 500 and everything else with 200
+  server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => {
+      received.push({
+        url: request.url!,
+        headers: request.headers,
+        body: JSON.parse(Buffer.concat(chunks).toString()),
+      });
+      response.statusCode = request.url === "/fail" ? 500 : 200;
+      response.end("ok");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  targetUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+afterEach(() => {
+  received.length = 0;
+  getNotificationRules().forEach((rule) => deleteNotificationRule(rule.id));
+  clearNotificationHistory();
+  vi.unstubAllEnvs();
+});
+
+describe("sendNotification", () => {
+  it("posts a JSON summary of the log to webhook channels", async () => {
+    const rule = createNotificationRule({
+      name: "orders",
+      match: {},
+      channel: { type: "webhook", url: `${targetUrl}/hook`, headers: { "X-Token": "secret" } },
+    });
+    const delivery = await sendNotification(rule, makeLog(), { suppressed: 2 });
+
+    expect(delivery).toMatchObject({ ruleId: rule.id, logId: "log-1", target: `${targetUrl}/hook`, status: "sent" });
+    expect(received[0].headers).toMatchObject({ "x-token": "secret", [NOTIFICATION_HEADER]: rule.id });
+    expect(received[0].body).toMatchObject({
+      event: "webhook.received",
+      rule: { id: rule.id, name: "orders" },
+      suppressed: 2,
+      log: { id: "log-1", path: "/webhooks/orders", statusCode: 500 },
+    });
+    expect(getNotificationHistory(rule.id)).toEqual([delivery]);
+  });
+
+  it("describes dropped connections in Slack messages", async () => {
+    const rule = createNotificationRule({ name: "drops", match: {}, channel: { type: "slack", url: targetUrl } });
+    await sendNotification(rule, makeLog({ statusCode: undefined, chaos: { failed: true, fail: "drop" } }));
+    expect(received[0].body.text).toBe("drops: POST /webhooks/orders → no response (drop)");
+  });
+
+  it("records failed deliveries", async () => {
+    const webhook = createNotificationRule({ match: {}, channel: { type: "webhook", url: `${targetUrl}/fail` } });
+    expect(await sendNotification(webhook, makeLog())).toMatchObject({ status: "failed" });
+
+    const email = createNotificationRule({ match: {}, channel: { type: "email", to: ["ops@example.com"] } });
+    expect(await sendNotification(email, makeLog())).toMatchObject({
+      status: "failed",
+      target: "ops@example.com",
+      error: "SMTP_HOST is not configured",
+    });
+  });
+});
+
+describe("notifyForLog", () => {
+  it("notifies the enabled rules matching the request, bin and status", async () => {
+    const matching = createNotificationRule({
+      match: { path: "orders" },
+      statusCodes: ["5xx"],
+      channel: { type: "webhook", url: targetUrl },
+    });
+    createNotificationRule({ match: {}, statusCodes: [200], channel: { type: "webhook", url: targetUrl } });
+    createNotificationRule({ match: {}, binId: "bin-1", channel: { type: "webhook", url: targetUrl } });
+    createNotificationRule({ match: {}, enabled: false, channel: { type: "webhook", url: targetUrl } });
+
+    notifyForLog(makeLog());
+    await vi.waitFor(() => expect(getNotificationHistory()).toHaveLength(1));
+    expect(getNotificationHistory()[0].ruleId).toBe(matching.id);
+  });
+
+  it("skips logs without a status when status codes are required", () => {
+    createNotificationRule({ match: {}, statusCodes: ["5xx"], channel: { type: "webhook", url: targetUrl } });
+    notifyForLog(makeLog({ statusCode: undefined, chaos: { failed: true, fail: "reset" } }));
+    expect(getNotificationHistory()).toEqual([]);
+  });
+
+  it("ignores its own notifications", () => {
+    createNotificationRule({ match: {}, channel: { type: "webhook", url: targetUrl } });
+    notifyForLog(makeLog({ headers: { [NOTIFICATION_HEADER]: "rule" } }));
+    expect(getNotificationHistory()).toEqual([]);
+  });
+
+  it("throttles matches and reports how many were suppressed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const rule = createNotificationRule({ match: {}, throttleSeconds: 60, channel: { type: "webhook", url: targetUrl } });
+      notifyForLog(makeLog({ id: "1" }));
+      notifyForLog(makeLog({ id: "2" }));
+      notifyForLog(makeLog({ id: "3" }));
+      await vi.waitFor(() => expect(getNotificationHistory(rule.id)).toHaveLength(1));
+
+      vi.advanceTimersByTime(61_000);
+      notifyForLog(makeLog({ id: "4" }));
+      await vi.waitFor(() => expect(getNotificationHistory(rule.id)).toHaveLength(2));
+      expect(getNotificationHistory(rule.id)[0]).toMatchObject({ logId: "4", suppressed: 2 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("validateNotificationRuleInput", () => {
+  it("checks the matcher, status codes, throttle and channel", () => {
+    const channel = { type: "webhook", url: "http://example.com/hook" };
+    expect(validateNotificationRuleInput({ match: {}, channel, statusCodes: [500, "4xx"] })).toBeUndefined();
+    expect(validateNotificationRuleInput({ channel })).toBe("match is required");
+    expect(validateNotificationRuleInput({ match: {}, channel, statusCodes: ["5x"] })).toBe(
+      'statusCodes must be a list of status codes or classes such as "5xx"',
+    );
+    expect(validateNotificationRuleInput({ match: {}, channel, throttleSeconds: -1 })).toBe(
+      "throttleSeconds must be a non-negative integer",
+    );
+    expect(validateNotificationRuleInput({ match: {}, channel: { type: "slack", url: "ftp://example.com" } })).toBe(
+      "channel.url must use http or https",
+    );
+    expect(validateNotificationRuleInput({ match: {}, channel: { type: "sms" } })).toBe(
+      'channel.type must be "webhook", "slack" or "email"',
+    );
+  });
+
+  it("requires SMTP settings for email channels", () => {
+    const input = { match: {}, channel: { type: "email", to: "ops@example.com" } };
+    expect(validateNotificationRuleInput({ ...input, channel: { type: "email", to: "ops" } })).toBe(
+      "channel.to must be an email address or a list of them",
+    );
+    expect(validateNotificationRuleInput(input)).toBe("SMTP_HOST must be set to send email notifications");
+    vi.stubEnv("SMTP_HOST", "smtp.example.com");
+    expect(validateNotificationRuleInput(input)).toBeUndefined();
+  });
+});
@@ -0,0 +1,444 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import {
+  getHeaderValue,
+  matchesRequest,
+  validateRequestMatcher,
+  type RequestMatcher,
+} from "./match";
+import { matchesStatusCode, sendHttpRequest, type OutgoingResponse } from "./http-client";
+import { getSmtpConfig, sendMail } from "./smtp";
+import type { WebhookLog } from "./store";
+import { requireBinAccess } from "./bins";
+import type { CrudResource } from "./crud";
+
+// Constants
+const MAX_HISTORY = 500; // Oldest history entries are removed beyond this
+const DEFAULT_THROTTLE_SECONDS = 60;
+const NOTIFICATION_TIMEOUT_MS = 10000;
+const MAX_PREVIEW_LENGTH = 2000; // Body excerpt included in Slack and email messages
+
+// Header sent with outbound notifications. Logs carrying it are never
+// notified about, so pointing a channel at this server cannot loop.
+export const NOTIFICATION_HEADER = "x-mock-webhooks-notification";
+
+export type NotificationChannel =
+  | { type: "webhook"; url: string; headers?: Record<string, string> } // JSON summary of the log
+  | { type: "slack"; url: string } // Slack-compatible incoming webhook
+  | { type: "email"; to: string[]; subject?: string }; // Sent through the SMTP_* relay
+
+export interface NotificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  binId?: string; // Watch this bin instead of the shared namespace
+  match: RequestMatcher;
+  statusCodes?: (number | string)[]; // Response status codes or classes such as "5xx"
+  channel: NotificationChannel;
+  throttleSeconds: number; // At most one notification per window; 0 disables throttling
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NotificationRuleInput = Pick<NotificationRule, "match" | "channel"> &
+  Partial<Pick<NotificationRule, "name" | "enabled" | "binId" | "statusCodes" | "throttleSeconds">>;
+
+// One notification sent (or attempted) for a rule
+export interface NotificationDelivery {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  logId: string;
+  channel: NotificationChannel["type"];
+  target: string; // URL or recipients
+  createdAt: string;
+  status: "sent" | "failed";
+  suppressed: number; // Matches throttled since the previous notification
+  test?: boolean; // Sent through the test endpoint
+  response?: OutgoingResponse; // Webhook and Slack channels
+  smtpReply?: string; // Email channel
+  error?: string;
+}
+
+const rules = createCollection<NotificationRule>("notifications");
+const history = createCollection<NotificationDelivery>("notification-history");
+
+// Throttle state per rule: when the last notification was sent and how many
+// matches were skipped since. Kept in memory and reset on restart.
+const throttles = new Map<string, { lastSentAt: number; suppressed: number }>();
+
+export function getNotificationRules(): NotificationRule[] {
+  return rules.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getNotificationRuleById(id: string): NotificationRule | undefined {
+  return rules.get(id);
+}
+
+// Helper function to normalize a channel received through the API
+function toChannel(channel: any): NotificationChannel {
+  switch (channel.type) {
+    case "webhook":
+      return { type: "webhook", url: channel.url, headers: channel.headers };
+    case "slack":
+      return { type: "slack", url: channel.url };
+    default:
+      return {
+        type: "email",
+        to: Array.isArray(channel.to) ? channel.to : [channel.to],
+        subject: channel.subject,
+      };
+  }
+}
+
+export function createNotificationRule(input: NotificationRuleInput): NotificationRule {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return rules.set({
+    id,
+    name: input.name?.trim() || `notification-${id}`,
+    enabled: input.enabled ?? true,
+    binId: input.binId || undefined,
+    match: input.match,
+    statusCodes: input.statusCodes,
+    channel: toChannel(input.channel),
+    throttleSeconds: input.throttleSeconds ?? DEFAULT_THROTTLE_SECONDS,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateNotificationRule(
+  id: string,
+  input: NotificationRuleInput,
+): NotificationRule | undefined {
+  const existing = rules.get(id);
+  if (!existing) return undefined;
+  throttles.delete(id);
+  return rules.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    binId: input.binId || undefined,
+    match: input.match,
+    statusCodes: input.statusCodes,
+    channel: toChannel(input.channel),
+    throttleSeconds: input.throttleSeconds ?? DEFAULT_THROTTLE_SECONDS,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteNotificationRule(id: string): boolean {
+  throttles.delete(id);
+  return rules.delete(id);
+}
+
+// Notification history, newest first
+export function getNotificationHistory(ruleId?: string): NotificationDelivery[] {
+  return history
+    .list()
+    .filter((entry) => !ruleId || entry.ruleId === ruleId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function clearNotificationHistory(): void {
+  history.clear();
+}
+
+// Helper function to keep only the most recent history entries
+function pruneHistory(): void {
+  const all = history.list();
+  if (all.length <= MAX_HISTORY) return;
+  all
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(0, all.length - MAX_HISTORY)
+    .forEach((old) => history.delete(old.id));
+}
+
+function matchesRule(rule: NotificationRule, log: WebhookLog): boolean {
+  if (!rule.enabled || rule.binId !== log.binId) return false;
+  if (
+    rule.statusCodes?.length &&
+    (log.statusCode === undefined || !matchesStatusCode(log.statusCode, rule.statusCodes))
+  ) {
+    return false;
+  }
+  return matchesRequest(rule.match, log);
+}
+
+// Helper function to describe the response, e.g. "500" or "no response (drop)"
+function describeStatus(log: WebhookLog): string {
+  return log.statusCode !== undefined ? String(log.statusCode) : `no response (${log.chaos?.fail})`;
+}
+
+// Helper function to describe a log in one line, e.g. "POST /webhooks/orders → 500"
+function describeLog(log: WebhookLog): string {
+  return `${log.method} ${log.path} → ${describeStatus(log)}`;
+}
+
+// Helper function to render a body excerpt for human-readable messages
+function previewBody(body: any): string {
+  if (body === undefined || body === null || body === "") return "(empty body)";
+  const text = typeof body === "string" ? body : JSON.stringify(body, null, 2);
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}\n…` : text;
+}
+
+// JSON payload of the webhook channel
+function buildWebhookPayload(rule: NotificationRule, log: WebhookLog, suppressed: number) {
+  return {
+    event: "webhook.received",
+    rule: { id: rule.id, name: rule.name },
+    suppressed,
+    log: {
+      id: log.id,
+      binId: log.binId,
+      timestamp: log.timestamp,
+      method: log.method,
+      path: log.path,
+      url: log.url,
+      statusCode: log.statusCode,
+      headers: log.headers,
+      queryParams: log.queryParams,
+      body: log.body,
+    },
+  };
+}
+
+// Slack incoming-webhook payload: a fallback `text` plus Block Kit sections
+function buildSlackPayload(rule: NotificationRule, log: WebhookLog, suppressed: number) {
+  const summary = `🔔 *${rule.name}*: \`${describeLog(log)}\``;
+  const context = [`Log \`${log.id}\``, log.timestamp];
+  if (suppressed > 0) context.push(`${suppressed} more throttled`);
+  return {
+    text: `${rule.name}: ${describeLog(log)}`,
+    blocks: [
+      { type: "section", text: { type: "mrkdwn", text: summary } },
+      { type: "section", text: { type: "mrkdwn", text: `\`\`\`${previewBody(log.body)}\`\`\`` } },
+      { type: "context", elements: [{ type: "mrkdwn", text: context.join(" • ") }] },
+    ],
+  };
+}
+
+function buildEmailText(rule: NotificationRule, log: WebhookLog, suppressed: number): string {
+  const lines = [
+    `Notification rule "${rule.name}" matched a webhook request.`,
+    "",
+    `Request:   ${log.method} ${log.url}`,
+    `Status:    ${describeStatus(log)}`,
+    `Received:  ${log.timestamp}`,
+    `Log ID:    ${log.id}`,
+  ];
+  if (log.binId) lines.push(`Bin:       ${log.binId}`);
+  if (suppressed > 0) {
+    lines.push("", `${suppressed} more matching request(s) were throttled since the previous notification.`);
+  }
+  lines.push("", "Body:", previewBody(log.body));
+  return lines.join("\n");
+}
+
+// Send one notification over the rule's channel and record it in the history
+export async function sendNotification(
+  rule: NotificationRule,
+  log: WebhookLog,
+  options: { suppressed?: number; test?: boolean } = {},
+): Promise<NotificationDelivery> {
+  const suppressed = options.suppressed ?? 0;
+  const { channel } = rule;
+  const entry: NotificationDelivery = {
+    id: `${Date.now()}-${randomBytes(4).toString("hex")}`,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    logId: log.id,
+    channel: channel.type,
+    target: channel.type === "email" ? channel.to.join(", ") : channel.url,
+    createdAt: new Date().toISOString(),
+    status: "failed",
+    suppressed,
+    test: options.test || undefined,
+  };
+
+  if (channel.type === "email") {
+    const config = getSmtpConfig();
+    if (!config) {
+      entry.error = "SMTP_HOST is not configured";
+    } else {
+      try {
+        entry.smtpReply = await sendMail(
+          config,
+          {
+            from: config.from,
+            to: channel.to,
+            subject: channel.subject || `[mock-webhooks] ${rule.name}: ${describeLog(log)}`,
+            text: buildEmailText(rule, log, suppressed),
+          },
+          NOTIFICATION_TIMEOUT_MS,
+        );
+        entry.status = "sent";
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : "Unknown error";
+      }
+    }
+  } else {
+    const payload =
+      channel.type === "slack"
+        ? buildSlackPayload(rule, log, suppressed)
+        : buildWebhookPayload(rule, log, suppressed);
+    const response = await sendHttpRequest({
+      method: "POST",
+      url: channel.url,
+      headers: {
+        ...(channel.type === "webhook" ? channel.headers : {}),
+        "Content-Type": "application/json",
+        [NOTIFICATION_HEADER]: rule.id,
+      },
+      body: JSON.stringify(payload),
+      timeoutMs: NOTIFICATION_TIMEOUT_MS,
+    });
+    entry.response = response;
+    entry.error = response.error;
+    if (response.statusCode !== null && response.statusCode >= 200 && response.statusCode < 300) {
+      entry.status = "sent";
+    }
+  }
+
+  console.log(
+    `[Notifications] ${rule.name} (${channel.type}) for ${describeLog(log)} -> ${entry.status}${
+      entry.error ? `: ${entry.error}` : ""
+    }`,
+  );
+  history.set(entry);
+  pruneHistory();
+  return entry;
+}
+
+// Evaluate the notification rules for a newly stored log and send the
+// notifications in the background. Throttled matches are counted and
+// reported with the next notification of the rule.
+export function notifyForLog(log: WebhookLog): void {
+  if (getHeaderValue(log.headers, NOTIFICATION_HEADER)) return;
+
+  const now = Date.now();
+  for (const rule of getNotificationRules()) {
+    if (!matchesRule(rule, log)) continue;
+
+    const throttle = throttles.get(rule.id);
+    if (throttle && now - throttle.lastSentAt < rule.throttleSeconds * 1000) {
+      throttle.suppressed++;
+      continue;
+    }
+    throttles.set(rule.id, { lastSentAt: now, suppressed: 0 });
+
+    sendNotification(rule, log, { suppressed: throttle?.suppressed ?? 0 }).catch((error) => {
+      console.error("[Notifications] Notification failed unexpectedly:", error);
+    });
+  }
+}
+
+// Helper function to validate a notification rule received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateNotificationRuleInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Notification rule must be a JSON object";
+  }
+  if (input.match === undefined) {
+    return "match is required";
+  }
+  const matcherError = validateRequestMatcher(input.match);
+  if (matcherError) return matcherError;
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  if (input.binId !== undefined && typeof input.binId !== "string") {
+    return "binId must be a string";
+  }
+  if (
+    input.statusCodes !== undefined &&
+    (!Array.isArray(input.statusCodes) ||
+      input.statusCodes.some(
+        (entry: any) =>
+          !(Number.isInteger(entry) || (typeof entry === "string" && /^([1-5]xx|\d{3})$/i.test(entry))),
+      ))
+  ) {
+    return 'statusCodes must be a list of status codes or classes such as "5xx"';
+  }
+  if (
+    input.throttleSeconds !== undefined &&
+    (!Number.isInteger(input.throttleSeconds) || input.throttleSeconds < 0)
+  ) {
+    return "throttleSeconds must be a non-negative integer";
+  }
+
+  const channel = input.channel;
+  if (typeof channel !== "object" || channel === null) {
+    return "channel is required";
+  }
+  switch (channel.type) {
+    case "webhook":
+    case "slack": {
+      if (typeof channel.url !== "string") {
+        return "channel.url is required";
+      }
+      try {
+        const url = new URL(channel.url);
+        if (!["http:", "https:"].includes(url.protocol)) {
+          return "channel.url must use http or https";
+        }
+      } catch {
+        return "channel.url must be an absolute URL";
+      }
+      if (
+        channel.type === "webhook" &&
+        channel.headers !== undefined &&
+        (typeof channel.headers !== "object" ||
+          channel.headers === null ||
+          Object.values(channel.headers).some((v) => typeof v !== "string"))
+      ) {
+        return "channel.headers must be an object of string values";
+      }
+      return undefined;
+    }
+    case "email": {
+      const recipients = Array.isArray(channel.to) ? channel.to : [channel.to];
+      if (
+        recipients.length === 0 ||
+        recipients.some((to: any) => typeof to !== "string" || !/^[^\s@<>]+@[^\s@<>]+$/.test(to))
+      ) {
+        return "channel.to must be an email address or a list of them";
+      }
+      if (channel.subject !== undefined && typeof channel.subject !== "string") {
+        return "channel.subject must be a string";
+      }
+      if (!getSmtpConfig()) {
+        return "SMTP_HOST must be set to send email notifications";
+      }
+      return undefined;
+    }
+    default:
+      return 'channel.type must be "webhook", "slack" or "email"';
+  }
+}
+
+// Served by /api/notifications and /api/notifications/{id}
+export const notificationResource: CrudResource<NotificationRule, NotificationRuleInput> = {
+  key: "notification",
+  listKey: "notifications",
+  label: "Notification rule",
+  list: getNotificationRules,
+  get: getNotificationRuleById,
+  create: createNotificationRule,
+  update: updateNotificationRule,
+  delete: deleteNotificationRule,
+  validate: validateNotificationRuleInput,
+  // A bin's traffic is only sent out with the bin's token
+  authorize(request, input, existing) {
+    for (const binId of [existing?.binId, input.binId]) {
+      if (!binId) continue;
+      const denied = requireBinAccess(request, binId);
+      if (denied) return denied;
+    }
+    return undefined;
+  },
+};
@@ -0,0 +1,280 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMockSpec,
+  generateExample,
+  respondFromSpec,
+  updateMockSpec,
+  validateMockSpecInput,
+  type MockRequest,
+} from "./openapi";
+
+// OpenAPI 3.0 fixture: nullable fields, boolean exclusive bounds and a server base path
+const OPENAPI_30_SPEC = {
+  openapi: "3.0.3",
+  info: { title: "Payments 3.0", version: "1.0.0" },
+  servers: [{ url: "https://{region}.api.example.com/{version}", variables: { region: { default: "eu" }, version: { default: "v1" } } }],
+  paths: {
+    "/payments": {
+      post: {
+        operationId: "createPayment",
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Payment" } } },
+        },
+        responses: { "201": { description: "Created", content: { "application/json": { example: { id: "pay_1" } } } } },
+      },
+    },
+    "/payments/{paymentId}": {
+      get: {
+        operationId: "getPayment",
+        parameters: [{ name: "paymentId", in: "path", required: true, schema: { type: "string" } }],
+        responses: { "200": { description: "OK" } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Payment: {
+        type: "object",
+        required: ["amount", "note"],
+        properties: {
+          amount: { type: "number", minimum: 0, exclusiveMinimum: true, maximum: 100, exclusiveMaximum: false },
+          note: { type: "string", nullable: true },
+          status: { type: "string", enum: ["pending", "paid"], nullable: true },
+          customer: { nullable: true, allOf: [{ $ref: "#/components/schemas/Customer" }] },
+        },
+      },
+      Customer: { type: "object", required: ["id"], properties: { id: { type: "string" } } },
+    },
+  },
+};
+
+// OpenAPI 3.1 fixture with a relative server URL
+const OPENAPI_31_SPEC = {
+  openapi: "3.1.0",
+  info: { title: "Payments 3.1", version: "1.0.0" },
+  servers: [{ url: "/api/v2" }],
+  paths: {
+    "/payments": {
+      post: {
+        operationId: "createPayment",
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { amount: { type: "number", exclusiveMinimum: 0 } } },
+            },
+          },
+        },
+        responses: { "202": { description: "Accepted" } },
+      },
+    },
+  },
+};
+
+// Fixture with declared examples, generated responses and query parameters
+const ORDERS_SPEC = {
+  openapi: "3.1.0",
+  info: { title: "Orders", version: "1.0.0" },
+  paths: {
+    "/orders": {
+      get: {
+        operationId: "listOrders",
+        parameters: [{ name: "limit", in: "query", required: true, schema: { type: "integer", maximum: 50 } }],
+        responses: {
+          "200": {
+            description: "OK",
+            headers: { "X-Total": { schema: { type: "integer", minimum: 1 } } },
+            content: {
+              "application/json": {
+                examples: { empty: { value: [] }, one: { value: [{ id: "ord_1" }] } },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        operationId: "createOrder",
+        responses: {
+          "201": {
+            description: "Created",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } },
+          },
+          "409": { description: "Conflict", content: { "application/json": { example: { error: "exists" } } } },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Order: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          status: { type: "string", enum: ["open", "paid"] },
+          total: { type: "number", exclusiveMinimum: 0 },
+          items: { type: "array", items: { type: "string", default: "sku" } },
+        },
+      },
+    },
+  },
+};
+
+// Helper function to build a request to a mock spec
+function mockRequest(specId: string, method: string, path: string, body?: any): MockRequest {
+  const rawBody = body === undefined ? null : Buffer.from(JSON.stringify(body));
+  return {
+    method,
+    slug: ["mock", specId, ...path.split("/").filter(Boolean)],
+    headers: body === undefined ? {} : { "content-type": "application/json" },
+    queryParams: {},
+    body,
+    rawBody,
+    contentType: body === undefined ? "" : "application/json",
+  };
+}
+
+describe("respondFromSpec with OpenAPI 3.0 documents", () => {
+  const spec = createMockSpec({ spec: OPENAPI_30_SPEC });
+
+  it("accepts null for nullable fields", () => {
+    const response = respondFromSpec(
+      mockRequest(spec.id, "POST", "/payments", { amount: 10, note: null, status: null, customer: null }),
+    );
+    expect(response?.result.errors).toEqual([]);
+    expect(response?.statusCode).toBe(201);
+  });
+
+  it("still validates nullable fields that are not null", () => {
+    const response = respondFromSpec(
+      mockRequest(spec.id, "POST", "/payments", { amount: 10, note: 5, status: "lost", customer: {} }),
+    );
+    expect(response?.statusCode).toBe(422);
+    expect(response?.result.errors.map((error) => `${error.pointer}:${error.keyword}`)).toEqual([
+      "/body/note:type",
+      "/body/status:enum",
+      "/body/customer:anyOf",
+    ]);
+  });
+
+  it("enforces boolean exclusiveMinimum and ignores a false exclusiveMaximum", () => {
+    const atMinimum = respondFromSpec(mockRequest(spec.id, "POST", "/payments", { amount: 0, note: "x" }));
+    expect(atMinimum?.result.errors.map((error) => `${error.pointer}:${error.keyword}`)).toEqual([
+      "/body/amount:exclusiveMinimum",
+    ]);
+    const atMaximum = respondFromSpec(mockRequest(spec.id, "POST", "/payments", { amount: 100, note: "x" }));
+    expect(atMaximum?.result.valid).toBe(true);
+  });
+
+  it("strips the server base path, with variables set to their defaults", () => {
+    const response = respondFromSpec(mockRequest(spec.id, "GET", "/v1/payments/pay_1"));
+    expect(response?.result).toMatchObject({ operationId: "getPayment", pathTemplate: "/payments/{paymentId}" });
+  });
+
+  it("still matches paths without the base path", () => {
+    const response = respondFromSpec(mockRequest(spec.id, "GET", "/payments/pay_1"));
+    expect(response?.result.operationId).toBe("getPayment");
+  });
+
+  it("keeps the uploaded document unchanged", () => {
+    expect(spec.spec.components.schemas.Payment.properties.note).toEqual({ type: "string", nullable: true });
+  });
+});
+
+describe("respondFromSpec with OpenAPI 3.1 documents", () => {
+  const spec = createMockSpec({ spec: OPENAPI_31_SPEC });
+
+  it("strips a relative server base path", () => {
+    const response = respondFromSpec(mockRequest(spec.id, "POST", "/api/v2/payments", { amount: 1 }));
+    expect(response?.result).toMatchObject({ operationId: "createPayment", valid: true });
+    expect(response?.statusCode).toBe(202);
+  });
+
+  it("uses numeric exclusive bounds as they are", () => {
+    const response = respondFromSpec(mockRequest(spec.id, "POST", "/api/v2/payments", { amount: 0 }));
+    expect(response?.statusCode).toBe(422);
+  });
+
+  it("does not match other prefixes", () => {
+    const response = respondFromSpec(mockRequest(spec.id, "POST", "/api/v3/payments", { amount: 1 }));
+    expect(response?.statusCode).toBe(404);
+  });
+});
+
+describe("respondFromSpec", () => {
+  const spec = createMockSpec({ spec: ORDERS_SPEC });
+
+  it("ignores webhooks outside the mock prefix and reports unknown specs and paths", () => {
+    expect(respondFromSpec({ ...mockRequest(spec.id, "GET", "/orders"), slug: ["orders"] })).toBeUndefined();
+    expect(respondFromSpec(mockRequest("missing", "GET", "/orders"))).toMatchObject({
+      statusCode: 404,
+      failure: "Mock spec not found",
+    });
+    expect(respondFromSpec(mockRequest(spec.id, "GET", "/customers"))).toMatchObject({
+      statusCode: 404,
+      failure: "Operation not found",
+    });
+  });
+
+  it("answers undeclared methods with 405 and the allowed methods", () => {
+    const response = respondFromSpec(mockRequest(spec.id, "DELETE", "/orders"));
+    expect(response).toMatchObject({ statusCode: 405, headers: { Allow: "GET, POST" } });
+  });
+
+  it("validates parameters", () => {
+    const missing = respondFromSpec(mockRequest(spec.id, "GET", "/orders"));
+    expect(missing).toMatchObject({ statusCode: 400, failure: "Request parameters do not match operation" });
+
+    const valid = respondFromSpec({ ...mockRequest(spec.id, "GET", "/orders"), queryParams: { limit: "10" } });
+    expect(valid?.result).toMatchObject({ operationId: "listOrders", valid: true });
+  });
+
+  it("serves the first declared example, or the one chosen with Prefer", () => {
+    const request = { ...mockRequest(spec.id, "GET", "/orders"), queryParams: { limit: "10" } };
+    const first = respondFromSpec(request);
+    expect(first).toMatchObject({ statusCode: 200, body: "[]", headers: { "X-Total": "1" } });
+
+    const chosen = respondFromSpec({ ...request, headers: { prefer: 'example="one"' } });
+    expect(chosen?.body).toBe('[{"id":"ord_1"}]');
+  });
+
+  it("generates bodies from the response schema, and serves other codes with Prefer", () => {
+    const created = respondFromSpec(mockRequest(spec.id, "POST", "/orders"));
+    expect(created?.statusCode).toBe(201);
+    expect(JSON.parse(created!.body!)).toEqual({
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      status: "open",
+      total: 1,
+      items: ["sku"],
+    });
+
+    const conflict = respondFromSpec({ ...mockRequest(spec.id, "POST", "/orders"), headers: { prefer: "code=409" } });
+    expect(conflict).toMatchObject({ statusCode: 409, body: '{"error":"exists"}' });
+  });
+
+  it("reports disabled specs as not found", () => {
+    updateMockSpec(spec.id, { spec: ORDERS_SPEC, enabled: false });
+    expect(respondFromSpec(mockRequest(spec.id, "POST", "/orders"))?.statusCode).toBe(404);
+    updateMockSpec(spec.id, { spec: ORDERS_SPEC, enabled: true });
+  });
+});
+
+describe("generateExample", () => {
+  it("prefers examples, defaults and enums over placeholders", () => {
+    expect(generateExample({ type: "string", example: "x", default: "y" }, {})).toBe("x");
+    expect(generateExample({ type: "integer", default: 3 }, {})).toBe(3);
+    const allOf = { allOf: [{ properties: { a: { const: 1 } } }, { properties: { b: { type: "boolean" } } }] };
+    expect(generateExample(allOf, {})).toEqual({ a: 1, b: true });
+    expect(generateExample({ type: ["null", "string"], minLength: 8 }, {})).toBe("stringxx");
+  });
+});
+
+describe("validateMockSpecInput", () => {
+  it("requires an OpenAPI 3 document with paths", () => {
+    expect(validateMockSpecInput({})).toBe("spec is required");
+    expect(validateMockSpecInput({ spec: { swagger: "2.0", paths: {} } })).toBe(
+      "spec must be an OpenAPI 3 document (openapi: 3.x)",
+    );
+    expect(validateMockSpecInput({ spec: { openapi: "3.0.0" } })).toBe("spec.paths must be an object");
+    expect(validateMockSpecInput({ spec: ORDERS_SPEC })).toBeUndefined();
+  });
+});
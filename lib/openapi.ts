@@ -0,0 +1,604 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { getBinIdFromSlug } from "./bins";
+import { getHeaderValue } from "./match";
+import {
+  escapePointer,
+  resolveRef,
+  validateJsonSchema,
+  type SchemaError,
+} from "./json-schema";
+import type { CrudResource } from "./crud";
+
+// Constants
+const MOCK_PATH_SEGMENT = "mock"; // /webhooks/mock/{specId}/...
+const MAX_EXAMPLE_DEPTH = 8; // Guards against recursive schemas
+const OPERATION_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const LITERAL_KEYWORDS = ["example", "examples", "default", "enum", "const"]; // Values, not schemas
+const FORMAT_EXAMPLES: Record<string, string> = {
+  "date-time": "2024-01-01T00:00:00Z",
+  date: "2024-01-01",
+  time: "00:00:00Z",
+  email: "user@example.com",
+  uri: "https://example.com",
+  uuid: "00000000-0000-4000-8000-000000000000",
+  ipv4: "192.0.2.1",
+  ipv6: "2001:db8::1",
+  hostname: "example.com",
+  byte: "c3RyaW5n",
+};
+
+// An uploaded OpenAPI 3 document whose operations are served under
+// /webhooks/mock/{id}/...
+export interface MockSpec {
+  id: string;
+  name: string;
+  enabled: boolean;
+  spec: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MockSpecInput = Pick<MockSpec, "spec"> & Partial<Pick<MockSpec, "name" | "enabled">>;
+
+// Mock outcome recorded on the webhook log
+export interface MockResult {
+  specId: string;
+  operationId?: string;
+  pathTemplate?: string; // Matched OpenAPI path, e.g. /pets/{petId}
+  valid: boolean; // False when the request does not match the operation
+  errors: SchemaError[]; // Pointers start with /path, /query, /header, /cookie or /body
+  error?: string; // Why no operation was matched
+}
+
+// The incoming request served from a spec
+export interface MockRequest {
+  method: string;
+  slug?: string[];
+  headers: Record<string, string>;
+  queryParams: Record<string, string>;
+  body: any;
+  rawBody: Buffer | null;
+  contentType: string;
+}
+
+export interface MockResponse {
+  result: MockResult;
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string | null;
+  failure?: string; // Set when the request could not be served as declared
+}
+
+const mockSpecs = createCollection<MockSpec>("specs");
+
+export function getMockSpecs(): MockSpec[] {
+  return mockSpecs.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getMockSpecById(id: string): MockSpec | undefined {
+  return mockSpecs.get(id);
+}
+
+export function createMockSpec(input: MockSpecInput): MockSpec {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return mockSpecs.set({
+    id,
+    name: input.name?.trim() || input.spec.info?.title || `spec-${id}`,
+    enabled: input.enabled ?? true,
+    spec: input.spec,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateMockSpec(id: string, input: MockSpecInput): MockSpec | undefined {
+  const existing = mockSpecs.get(id);
+  if (!existing) return undefined;
+  return mockSpecs.set({
+    ...existing,
+    name: input.name?.trim() || input.spec.info?.title || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    spec: input.spec,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteMockSpec(id: string): boolean {
+  return mockSpecs.delete(id);
+}
+
+// Accept either { name, enabled, spec } or a bare OpenAPI document
+export function toMockSpecInput(input: any): MockSpecInput {
+  return typeof input.openapi === "string" ? { spec: input } : input;
+}
+
+// Spec id and operation path of a /webhooks/[b/{binId}/]mock/{specId}/... URL
+export function getMockTarget(slug?: string[]): { specId: string; path: string } | undefined {
+  if (!slug) return undefined;
+  const start = getBinIdFromSlug(slug) ? 2 : 0;
+  if (slug[start] !== MOCK_PATH_SEGMENT || !slug[start + 1]) return undefined;
+  return { specId: slug[start + 1], path: `/${slug.slice(start + 2).join("/")}` };
+}
+
+// OpenAPI 3.0 documents as 2020-12 schemas, cached per uploaded document
+const normalizedDocs = new WeakMap<object, any>();
+
+// Helper function to convert OpenAPI 3.0 schema keywords to their JSON Schema
+// 2020-12 form: `nullable: true` adds "null" to the type, and boolean
+// exclusiveMinimum/exclusiveMaximum turn minimum/maximum into exclusive bounds
+function normalizeSchemaKeywords(node: any): any {
+  if (Array.isArray(node)) return node.map(normalizeSchemaKeywords);
+  if (typeof node !== "object" || node === null) return node;
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(node)) {
+    result[key] = LITERAL_KEYWORDS.includes(key) ? value : normalizeSchemaKeywords(value);
+  }
+  const nullable = result.nullable;
+  if (typeof nullable === "boolean") delete result.nullable;
+  for (const [flag, bound] of [
+    ["exclusiveMinimum", "minimum"],
+    ["exclusiveMaximum", "maximum"],
+  ]) {
+    if (typeof result[flag] !== "boolean") continue;
+    if (result[flag] && typeof result[bound] === "number") {
+      result[flag] = result[bound];
+      delete result[bound];
+    } else {
+      delete result[flag];
+    }
+  }
+  if (nullable === true) {
+    // Without a type, e.g. next to allOf: [{ $ref }], null is allowed as an alternative
+    if (result.type === undefined) return { anyOf: [result, { type: "null" }] };
+    const types = Array.isArray(result.type) ? result.type : [result.type];
+    if (!types.includes("null")) result.type = [...types, "null"];
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) result.enum = [...result.enum, null];
+  }
+  return result;
+}
+
+// The document used for matching and validation. OpenAPI 3.0 documents are
+// normalized once; 3.1 documents already use JSON Schema 2020-12.
+function getValidationDoc(spec: Record<string, any>): any {
+  if (!String(spec.openapi).startsWith("3.0")) return spec;
+  let doc = normalizedDocs.get(spec);
+  if (!doc) {
+    doc = normalizeSchemaKeywords(spec);
+    normalizedDocs.set(spec, doc);
+  }
+  return doc;
+}
+
+// Helper function to read the base paths of the document's servers, e.g.
+// "/v1" for https://api.example.com/v1. Variables use their default values.
+function getServerBasePaths(doc: any): string[] {
+  const basePaths = new Set<string>();
+  for (const server of Array.isArray(doc.servers) ? doc.servers : []) {
+    if (typeof server?.url !== "string") continue;
+    const url = server.url.replace(
+      /\{([^}]+)\}/g,
+      (_: string, name: string) => server.variables?.[name]?.default ?? "",
+    );
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      pathname = new URL(url, "http://localhost").pathname; // Relative server URL
+    }
+    const basePath = pathname.replace(/\/+$/, "");
+    if (basePath) basePaths.add(basePath);
+  }
+  // Longest first, so /v1/admin is stripped before /v1
+  return [...basePaths].sort((a, b) => b.length - a.length);
+}
+
+// Helper function to follow a $ref within the document
+function deref(doc: any, value: any): any {
+  for (let i = 0; i < MAX_EXAMPLE_DEPTH && typeof value?.$ref === "string"; i++) {
+    value = resolveRef(doc, value.$ref);
+  }
+  return value;
+}
+
+// Helper function to match a concrete path against an OpenAPI path template
+function matchPathTemplate(template: string, path: string): Record<string, string> | undefined {
+  const names: string[] = [];
+  const source = template
+    .split(/(\{[^}]+\})/)
+    .map((part) => {
+      const param = part.match(/^\{([^}]+)\}$/);
+      if (!param) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      names.push(param[1]);
+      return "([^/]+)";
+    })
+    .join("");
+  const match = path.match(new RegExp(`^${source}/?$`));
+  if (!match) return undefined;
+  return Object.fromEntries(
+    names.map((name, i) => {
+      try {
+        return [name, decodeURIComponent(match[i + 1])];
+      } catch {
+        return [name, match[i + 1]];
+      }
+    }),
+  );
+}
+
+// Helper function to find the path item for a path. Templates with fewer
+// parameters win, so /pets/mine is preferred over /pets/{petId}. The base
+// path of a declared server is stripped first; the bare path is tried last.
+function findPathItem(
+  doc: any,
+  path: string,
+): { template: string; pathItem: any; pathParams: Record<string, string> } | undefined {
+  const candidates = getServerBasePaths(doc)
+    .filter((basePath) => path === basePath || path.startsWith(`${basePath}/`))
+    .map((basePath) => path.slice(basePath.length) || "/");
+  for (const candidate of [...candidates, path]) {
+    let best: { template: string; pathItem: any; pathParams: Record<string, string> } | undefined;
+    for (const [template, pathItem] of Object.entries<any>(doc.paths || {})) {
+      const pathParams = matchPathTemplate(template, candidate);
+      if (
+        pathParams &&
+        (!best || Object.keys(pathParams).length < Object.keys(best.pathParams).length)
+      ) {
+        best = { template, pathItem: deref(doc, pathItem), pathParams };
+      }
+    }
+    if (best) return best;
+  }
+  return undefined;
+}
+
+// Helper function to convert a string parameter to the type its schema declares
+function coerceParameter(value: string, schema: any, doc: any): any {
+  schema = deref(doc, schema);
+  const type = Array.isArray(schema?.type)
+    ? schema.type.find((t: string) => t !== "null")
+    : schema?.type;
+  switch (type) {
+    case "integer":
+    case "number":
+      return value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "array":
+      return value.split(",").map((item) => coerceParameter(item, schema.items, doc));
+    default:
+      return value;
+  }
+}
+
+// Helper function to read cookies from the Cookie header
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header || "").split(";")) {
+    const index = pair.indexOf("=");
+    if (index > 0) cookies[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+  }
+  return cookies;
+}
+
+// Helper function to validate path, query, header and cookie parameters
+function validateParameters(
+  doc: any,
+  pathItem: any,
+  operation: any,
+  pathParams: Record<string, string>,
+  request: MockRequest,
+): SchemaError[] {
+  // Operation parameters override path-level parameters with the same name and location
+  const parameters = new Map<string, any>();
+  for (const parameter of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const resolved = deref(doc, parameter);
+    if (resolved?.name && resolved?.in) parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+  }
+
+  const cookies = parseCookies(getHeaderValue(request.headers, "cookie"));
+  const errors: SchemaError[] = [];
+  for (const parameter of parameters.values()) {
+    const values: Record<string, string | undefined> = {
+      path: pathParams[parameter.name],
+      query: request.queryParams[parameter.name],
+      header: getHeaderValue(request.headers, parameter.name),
+      cookie: cookies[parameter.name],
+    };
+    const value = values[parameter.in];
+    const pointer = `/${parameter.in}/${escapePointer(parameter.name)}`;
+    if (value === undefined) {
+      if (parameter.required || parameter.in === "path") {
+        errors.push({ pointer, keyword: "required", message: "is required" });
+      }
+    } else if (parameter.schema) {
+      errors.push(
+        ...validateJsonSchema(
+          parameter.schema,
+          coerceParameter(value, parameter.schema, doc),
+          doc,
+          pointer,
+        ),
+      );
+    }
+  }
+  return errors;
+}
+
+// Helper function to pick the content entry for a media type, honouring wildcards
+function findMediaType(content: Record<string, any>, contentType: string): string | undefined {
+  const mime = contentType.split(";")[0].trim().toLowerCase();
+  const keys = Object.keys(content);
+  return (
+    keys.find((key) => key.toLowerCase() === mime) ||
+    keys.find((key) => key.endsWith("/*") && mime.startsWith(key.slice(0, -1).toLowerCase())) ||
+    keys.find((key) => key === "*/*")
+  );
+}
+
+function isJsonMediaType(mime: string): boolean {
+  return /^application\/(.+\+)?json$/i.test(mime.split(";")[0].trim());
+}
+
+// Helper function to validate the request body against the operation's requestBody
+function validateRequestBody(doc: any, operation: any, request: MockRequest): SchemaError[] {
+  const requestBody = deref(doc, operation.requestBody);
+  if (!requestBody) return [];
+  if (!request.rawBody || request.rawBody.length === 0) {
+    return requestBody.required
+      ? [{ pointer: "/body", keyword: "required", message: "is required" }]
+      : [];
+  }
+
+  const content = requestBody.content || {};
+  const mediaType = findMediaType(content, request.contentType);
+  if (!mediaType) {
+    return [
+      {
+        pointer: "/body",
+        keyword: "contentType",
+        message: `content type "${request.contentType || "none"}" is not accepted (expected ${Object.keys(content).join(", ")})`,
+      },
+    ];
+  }
+  // Only JSON bodies are validated; form fields arrive as strings
+  const schema = content[mediaType]?.schema;
+  if (!schema || !isJsonMediaType(request.contentType)) return [];
+  return validateJsonSchema(schema, request.body, doc, "/body");
+}
+
+// Generate a value for a schema: its example, default, first enum value,
+// or a placeholder built from its type and format
+export function generateExample(schema: any, doc: any, depth: number = 0): any {
+  if (typeof schema !== "object" || schema === null || depth > MAX_EXAMPLE_DEPTH) return null;
+  if (typeof schema.$ref === "string") {
+    return generateExample(resolveRef(doc, schema.$ref), doc, depth + 1);
+  }
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    const parts = schema.allOf.map((part: any) => generateExample(part, doc, depth + 1));
+    return parts.every((part: any) => typeof part === "object" && part !== null && !Array.isArray(part))
+      ? Object.assign({}, ...parts)
+      : parts[parts.length - 1];
+  }
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return generateExample(variants[0], doc, depth + 1);
+  }
+
+  let type = Array.isArray(schema.type)
+    ? schema.type.find((t: string) => t !== "null") ?? "null"
+    : schema.type;
+  if (!type) {
+    type = schema.properties ? "object" : schema.items ? "array" : undefined;
+  }
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries<any>(schema.properties || {}).map(([name, sub]) => [
+          name,
+          generateExample(sub, doc, depth + 1),
+        ]),
+      );
+    case "array":
+      return schema.items ? [generateExample(schema.items, doc, depth + 1)] : [];
+    case "string":
+      return FORMAT_EXAMPLES[schema.format] ?? "string".padEnd(schema.minLength ?? 0, "x");
+    case "integer":
+    case "number":
+      if (typeof schema.minimum === "number") return schema.minimum;
+      if (typeof schema.exclusiveMinimum === "number") return schema.exclusiveMinimum + 1;
+      return 0;
+    case "boolean":
+      return true;
+    default:
+      return null;
+  }
+}
+
+// Helper function to read `Prefer: code=404, example=notFound`
+function parsePrefer(header: string | undefined): { code?: string; example?: string } {
+  const prefer: Record<string, string> = {};
+  for (const part of (header || "").split(/[,;]/)) {
+    const [key, value] = part.split("=").map((item) => item.trim());
+    if (key && value) prefer[key] = value.replace(/^"|"$/g, "");
+  }
+  return { code: prefer.code, example: prefer.example };
+}
+
+// Helper function to choose the declared response: the requested code, else
+// the lowest 2xx, else "default", else the first one declared
+function selectResponse(
+  responses: Record<string, any>,
+  preferredCode?: string,
+): { key?: string; statusCode: number } {
+  const keys = Object.keys(responses);
+  if (preferredCode && /^[1-5]\d\d$/.test(preferredCode)) {
+    const key = [preferredCode, `${preferredCode[0]}XX`, "default"].find((k) => k in responses);
+    if (key) return { key, statusCode: parseInt(preferredCode, 10) };
+  }
+  const success = keys.filter((key) => /^2\d\d$/.test(key)).sort()[0];
+  if (success) return { key: success, statusCode: parseInt(success, 10) };
+  if ("2XX" in responses) return { key: "2XX", statusCode: 200 };
+  if ("default" in responses) return { key: "default", statusCode: 200 };
+  const first = keys.find((key) => /^[1-5]\d\d$/.test(key));
+  return first ? { key: first, statusCode: parseInt(first, 10) } : { statusCode: 200 };
+}
+
+// Helper function to build the declared response with its example or a generated body
+function buildResponse(
+  doc: any,
+  operation: any,
+  request: MockRequest,
+): { statusCode: number; headers: Record<string, string>; body: string | null } {
+  const prefer = parsePrefer(getHeaderValue(request.headers, "prefer"));
+  const responses = operation.responses || {};
+  const { key, statusCode } = selectResponse(responses, prefer.code);
+  const response = key ? deref(doc, responses[key]) : undefined;
+
+  const headers: Record<string, string> = {};
+  for (const [name, header] of Object.entries<any>(response?.headers || {})) {
+    if (name.toLowerCase() === "content-type") continue;
+    const resolved = deref(doc, header);
+    const value = resolved?.example ?? generateExample(resolved?.schema, doc);
+    if (value !== null && value !== undefined) {
+      headers[name] = typeof value === "object" ? JSON.stringify(value) : String(value);
+    }
+  }
+
+  const content: Record<string, any> = response?.content || {};
+  const mediaType =
+    Object.keys(content).find((mime) => isJsonMediaType(mime)) || Object.keys(content)[0];
+  if (!mediaType) return { statusCode, headers, body: null };
+
+  const media = content[mediaType] || {};
+  const examples: Record<string, any> = media.examples || {};
+  const named = prefer.example ? examples[prefer.example] : undefined;
+  let value: any;
+  if (named) {
+    value = deref(doc, named)?.value;
+  } else if (media.example !== undefined) {
+    value = media.example;
+  } else if (Object.keys(examples).length > 0) {
+    value = deref(doc, Object.values(examples)[0])?.value;
+  } else {
+    value = generateExample(media.schema, doc);
+  }
+
+  headers["Content-Type"] = mediaType.includes("*") ? "application/octet-stream" : mediaType;
+  const body =
+    typeof value === "string" && !isJsonMediaType(mediaType) ? value : JSON.stringify(value ?? null);
+  return { statusCode, headers, body };
+}
+
+// Serve a request under /webhooks/mock/{specId}/... from its OpenAPI document.
+// Returns undefined for webhooks outside the mock prefix.
+export function respondFromSpec(request: MockRequest): MockResponse | undefined {
+  const target = getMockTarget(request.slug);
+  if (!target) return undefined;
+
+  const fail = (
+    statusCode: number,
+    failure: string,
+    result: Partial<MockResult> = {},
+  ): MockResponse => ({
+    result: { specId: target.specId, valid: false, errors: [], ...result },
+    statusCode,
+    headers: {},
+    body: null,
+    failure,
+  });
+
+  const mockSpec = getMockSpecById(target.specId);
+  if (!mockSpec || !mockSpec.enabled) {
+    return fail(404, "Mock spec not found", {
+      error: `No enabled mock spec exists with id "${target.specId}"`,
+    });
+  }
+  const doc = getValidationDoc(mockSpec.spec);
+
+  const match = findPathItem(doc, target.path);
+  if (!match) {
+    return fail(404, "Operation not found", {
+      error: `No path in the spec matches ${target.path}`,
+    });
+  }
+  const { template, pathItem, pathParams } = match;
+  const operation = pathItem[request.method.toLowerCase()];
+  if (!operation) {
+    const allowed = OPERATION_METHODS.filter((method) => pathItem[method]);
+    const response = fail(405, "Method not allowed", {
+      pathTemplate: template,
+      error: `${template} supports ${allowed.map((method) => method.toUpperCase()).join(", ")}`,
+    });
+    return {
+      ...response,
+      headers: { Allow: allowed.map((method) => method.toUpperCase()).join(", ") },
+    };
+  }
+
+  const parameterErrors = validateParameters(doc, pathItem, operation, pathParams, request);
+  const bodyErrors = validateRequestBody(doc, operation, request);
+  const errors = [...parameterErrors, ...bodyErrors];
+  const result: MockResult = {
+    specId: mockSpec.id,
+    operationId: operation.operationId,
+    pathTemplate: template,
+    valid: errors.length === 0,
+    errors,
+  };
+  if (parameterErrors.length > 0) {
+    return fail(400, "Request parameters do not match operation", result);
+  }
+  if (bodyErrors.length > 0) {
+    return fail(422, "Request body does not match operation", result);
+  }
+
+  return { result, ...buildResponse(doc, operation, request) };
+}
+
+// Helper function to validate a mock spec received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateMockSpecInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Mock spec must be a JSON object";
+  }
+  const { spec, name, enabled } = toMockSpecInput(input);
+  if (typeof spec !== "object" || spec === null || Array.isArray(spec)) {
+    return "spec is required";
+  }
+  if (typeof spec.openapi !== "string" || !spec.openapi.startsWith("3.")) {
+    return "spec must be an OpenAPI 3 document (openapi: 3.x)";
+  }
+  if (typeof spec.paths !== "object" || spec.paths === null) {
+    return "spec.paths must be an object";
+  }
+  if (name !== undefined && typeof name !== "string") {
+    return "name must be a string";
+  }
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  return undefined;
+}
+
+// Served by /api/specs and /api/specs/{id}
+export const mockSpecResource: CrudResource<MockSpec, MockSpecInput> = {
+  key: "spec",
+  listKey: "specs",
+  label: "Mock spec",
+  list: getMockSpecs,
+  get: getMockSpecById,
+  create: createMockSpec,
+  update: updateMockSpec,
+  delete: deleteMockSpec,
+  validate: validateMockSpecInput,
+  toInput: toMockSpecInput,
+};
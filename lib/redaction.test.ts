@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createRedactionRule,
+  deleteRedactionRule,
+  getRedactionRules,
+  maskValue,
+  redactWebhookLog,
+  validateRedactionRuleInput,
+} from "./redaction";
+import { createIdempotencyConfig, deleteIdempotencyConfig, getIdempotencyConfigs } from "./idempotency";
+import type { WebhookLog } from "./store";
+
+// Helper function to build a captured log
+function makeLog(overrides: Partial<WebhookLog> = {}): WebhookLog {
+  return {
+    id: "log-1",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    method: "POST",
+    path: "/webhooks/payments",
+    url: "http://localhost/webhooks/payments?token=abc&page=2",
+    statusCode: 200,
+    headers: { authorization: "Bearer secret-token", "content-type": "application/json" },
+    queryParams: { token: "abc", page: "2" },
+    body: { card: { number: "4242424242424242" }, email: "jane@example.com", note: "ok" },
+    rawBodyBlob: "raw",
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  getRedactionRules().forEach((rule) => deleteRedactionRule(rule.id));
+  getIdempotencyConfigs().forEach((config) => deleteIdempotencyConfig(config.id));
+});
+
+describe("maskValue", () => {
+  it("masks values fully, partially or as a hash", () => {
+    expect(maskValue("4242424242424242", "full")).toBe("[REDACTED]");
+    expect(maskValue("4242424242424242", "partial")).toBe("************4242");
+    expect(maskValue("short", "partial")).toBe("*****");
+    expect(maskValue("4242424242424242", "hash")).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(maskValue("a", "hash")).toBe(maskValue("a", "hash"));
+  });
+});
+
+describe("redactWebhookLog", () => {
+  it("returns the log unchanged without a matching rule", () => {
+    createRedactionRule({ path: "/webhooks/other/**", headers: ["authorization"] });
+    const log = makeLog();
+    expect(redactWebhookLog(log)).toBe(log);
+  });
+
+  it("masks headers, query parameters, the URL and body paths", () => {
+    const rule = createRedactionRule({ headers: ["AUTHORIZATION"], query: ["token"], paths: ["card.number"] });
+    const blobs = { raw: Buffer.from("{}") };
+    const redacted = redactWebhookLog(makeLog(), blobs);
+
+    expect(redacted.headers.authorization).toBe("[REDACTED]");
+    expect(redacted.headers["content-type"]).toBe("application/json");
+    expect(redacted.queryParams).toEqual({ token: "[REDACTED]", page: "2" });
+    expect(redacted.url).not.toContain("abc");
+    expect(new URL(redacted.url).searchParams.get("page")).toBe("2");
+    expect(redacted.body.card.number).toBe("[REDACTED]");
+    expect(redacted.redaction).toEqual({
+      ruleIds: [rule.id],
+      fields: ["query.token", "headers.authorization", "body.card.number"],
+    });
+  });
+
+  it("drops the raw body when the body was redacted", () => {
+    createRedactionRule({ paths: ["card.number"] });
+    const blobs = { raw: Buffer.from("{}"), "file-0": Buffer.from("x") };
+    const redacted = redactWebhookLog(makeLog(), blobs);
+    expect(redacted.rawBodyBlob).toBeUndefined();
+    expect(Object.keys(blobs)).toEqual(["file-0"]);
+  });
+
+  it("masks pattern matches inside values, checking card numbers with Luhn", () => {
+    createRedactionRule({ patterns: ["email", "pan"] });
+    const redacted = redactWebhookLog(
+      makeLog({ body: { text: "from jane@example.com", card: "4242 4242 4242 4242", order: "1234567890123" } }),
+    );
+    expect(redacted.body).toEqual({ text: "from [REDACTED]", card: "[REDACTED]", order: "1234567890123" });
+  });
+
+  it("matches body paths with wildcards", () => {
+    createRedactionRule({ paths: ["**.password", "items.*.cvv"] });
+    const redacted = redactWebhookLog(
+      makeLog({ body: { user: { password: "p" }, items: [{ cvv: "123", sku: "a" }] } }),
+    );
+    expect(redacted.body).toEqual({ user: { password: "[REDACTED]" }, items: [{ cvv: "[REDACTED]", sku: "a" }] });
+  });
+
+  it("applies every matching rule with its own mask", () => {
+    const first = createRedactionRule({ headers: ["authorization"], mask: "partial" });
+    const second = createRedactionRule({ paths: ["email"], mask: "hash" });
+    const redacted = redactWebhookLog(makeLog());
+    expect(redacted.headers.authorization).toBe("***************oken");
+    expect(redacted.body.email).toMatch(/^sha256:/);
+    expect(redacted.redaction?.ruleIds).toEqual([first.id, second.id]);
+  });
+
+  it("masks the forwarded URL and the upstream response", () => {
+    createRedactionRule({ headers: ["set-cookie"], query: ["token"], paths: ["**.secret"], patterns: ["email"] });
+    const redacted = redactWebhookLog(
+      makeLog({
+        forward: {
+          configId: "f1",
+          url: "https://upstream.example.com/hook?token=abc&page=2",
+          response: {
+            statusCode: 200,
+            headers: { "set-cookie": "session=1", "content-type": "application/json" },
+            body: JSON.stringify({ secret: "s3cr3t", contact: "ops@example.com" }),
+            durationMs: 5,
+          },
+        },
+      }),
+    );
+
+    const forward = redacted.forward!;
+    expect(forward.url).not.toContain("abc");
+    expect(forward.response.headers["set-cookie"]).toBe("[REDACTED]");
+    expect(JSON.parse(forward.response.body!)).toEqual({ secret: "[REDACTED]", contact: "[REDACTED]" });
+    expect(redacted.redaction?.fields).toEqual(
+      expect.arrayContaining([
+        "forward.query.token",
+        "forward.response.headers.set-cookie",
+        "forward.response.body.secret",
+        "forward.response.body.contact",
+      ]),
+    );
+  });
+
+  it("masks patterns in non-JSON upstream bodies", () => {
+    createRedactionRule({ patterns: ["email"] });
+    const redacted = redactWebhookLog(
+      makeLog({
+        forward: {
+          configId: "f1",
+          url: "https://upstream.example.com/hook",
+          response: { statusCode: 200, headers: {}, body: "sent to ops@example.com", durationMs: 5 },
+        },
+      }),
+    );
+    expect(redacted.forward?.response.body).toBe("sent to [REDACTED]");
+  });
+
+  it("masks the idempotency key when its header was redacted", () => {
+    createIdempotencyConfig({ path: "/webhooks/**", keySource: "header", keyName: "Authorization" });
+    createRedactionRule({ headers: ["authorization"] });
+    const redacted = redactWebhookLog(makeLog({ idempotencyKey: "Bearer secret-token" }));
+    expect(redacted.idempotencyKey).toBe("[REDACTED]");
+    expect(redacted.redaction?.fields).toContain("idempotencyKey");
+  });
+
+  it("masks the idempotency key when its body field or a parent was redacted", () => {
+    createIdempotencyConfig({ path: "/webhooks/**", keySource: "body", keyName: "card.number" });
+    createRedactionRule({ paths: ["card"], mask: "hash" });
+    const redacted = redactWebhookLog(makeLog({ idempotencyKey: "4242424242424242" }));
+    expect(redacted.idempotencyKey).toBe(maskValue("4242424242424242", "hash"));
+  });
+
+  it("keeps the idempotency key when its source was not redacted", () => {
+    createIdempotencyConfig({ path: "/webhooks/**", keySource: "body", keyName: "note" });
+    createRedactionRule({ paths: ["card.number"] });
+    expect(redactWebhookLog(makeLog({ idempotencyKey: "ok" })).idempotencyKey).toBe("ok");
+  });
+});
+
+describe("validateRedactionRuleInput", () => {
+  it("requires at least one target", () => {
+    expect(validateRedactionRuleInput({ name: "empty" })).toBe(
+      "At least one of headers, query, paths or patterns is required",
+    );
+  });
+
+  it("rejects invalid patterns and masks", () => {
+    expect(validateRedactionRuleInput({ patterns: ["("] })).toMatch(/invalid regular expression/);
+    expect(validateRedactionRuleInput({ headers: ["x"], mask: "blur" })).toBe(
+      'mask must be "full", "partial" or "hash"',
+    );
+    expect(validateRedactionRuleInput({ patterns: ["email"], mask: "hash" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,399 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import { createCollection, type LogBlobs } from "./storage";
+import { matchPathGlob } from "./match";
+import { findIdempotencyConfig, getIdempotencyKeyField } from "./idempotency";
+import type { ForwardResult } from "./forwarding";
+import type { WebhookLog } from "./store";
+import type { CrudResource } from "./crud";
+
+// Constants
+const DEFAULT_REDACTION_PATH = "/webhooks/**";
+const FULL_MASK = "[REDACTED]";
+const PARTIAL_VISIBLE_CHARS = 4; // Trailing characters kept by partial masking
+const MIN_PARTIAL_LENGTH = 12; // Shorter values are masked completely
+const HASH_LENGTH = 16; // Hex characters of the hash kept
+
+export type MaskStyle = "full" | "partial" | "hash";
+
+// Built-in patterns, usable by name in `patterns`
+export const REDACTION_PRESETS: Record<string, string> = {
+  email: "[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}",
+  pan: "\\b\\d(?:[ -]?\\d){12,18}\\b", // Card numbers, confirmed with the Luhn check
+  jwt: "\\beyJ[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]*",
+};
+
+// Masks sensitive values of the logs whose path matches `path` before they are
+// stored. Every enabled matching rule is applied, in creation order.
+export interface RedactionRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  path: string; // Path glob, e.g. /webhooks/stripe/**
+  headers: string[]; // Header names (case-insensitive, "*" wildcards), e.g. authorization or x-*-key
+  query: string[]; // Query parameter names ("*" wildcards)
+  paths: string[]; // Dotted body paths (path globs), e.g. card.number or **.password
+  patterns: string[]; // Preset names or regular expressions, searched in every value
+  mask: MaskStyle;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RedactionRuleInput = Partial<
+  Pick<RedactionRule, "name" | "enabled" | "path" | "headers" | "query" | "paths" | "patterns" | "mask">
+>;
+
+// Marker stored on a redacted log
+export interface RedactionResult {
+  ruleIds: string[];
+  fields: string[]; // Dotted fields, e.g. headers.authorization, query.token or forward.response.body.token
+}
+
+const redactionRules = createCollection<RedactionRule>("redactions");
+
+export function getRedactionRules(): RedactionRule[] {
+  return redactionRules.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getRedactionRuleById(id: string): RedactionRule | undefined {
+  return redactionRules.get(id);
+}
+
+export function createRedactionRule(input: RedactionRuleInput): RedactionRule {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return redactionRules.set({
+    id,
+    name: input.name?.trim() || `redaction-${id}`,
+    enabled: input.enabled ?? true,
+    path: input.path?.trim() || DEFAULT_REDACTION_PATH,
+    headers: input.headers ?? [],
+    query: input.query ?? [],
+    paths: input.paths ?? [],
+    patterns: input.patterns ?? [],
+    mask: input.mask ?? "full",
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateRedactionRule(id: string, input: RedactionRuleInput): RedactionRule | undefined {
+  const existing = redactionRules.get(id);
+  if (!existing) return undefined;
+  return redactionRules.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    path: input.path?.trim() || DEFAULT_REDACTION_PATH,
+    headers: input.headers ?? [],
+    query: input.query ?? [],
+    paths: input.paths ?? [],
+    patterns: input.patterns ?? [],
+    mask: input.mask ?? "full",
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteRedactionRule(id: string): boolean {
+  return redactionRules.delete(id);
+}
+
+// Helper function to match a name against a case-insensitive "*" wildcard pattern
+function matchesName(pattern: string, name: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(name);
+}
+
+// Helper function to match a dotted body path against a dotted path glob
+function matchesBodyPath(pattern: string, path: string): boolean {
+  return matchPathGlob(`/${pattern.split(".").join("/")}`, `/${path.split(".").join("/")}`);
+}
+
+// Luhn checksum, so order numbers and timestamps are not taken for card numbers
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Mask a value in the given style. Hashes are keyed with
+// REDACTION_HASH_SECRET when set, so equal values can still be correlated.
+export function maskValue(value: string, style: MaskStyle): string {
+  switch (style) {
+    case "partial":
+      return value.length < MIN_PARTIAL_LENGTH
+        ? "*".repeat(value.length)
+        : `${"*".repeat(value.length - PARTIAL_VISIBLE_CHARS)}${value.slice(-PARTIAL_VISIBLE_CHARS)}`;
+    case "hash": {
+      const secret = process.env.REDACTION_HASH_SECRET;
+      const hash = secret
+        ? createHmac("sha256", secret).update(value).digest("hex")
+        : createHash("sha256").update(value).digest("hex");
+      return `sha256:${hash.slice(0, HASH_LENGTH)}`;
+    }
+    default:
+      return FULL_MASK;
+  }
+}
+
+// Helper function to mask a whole value, whatever its type
+function maskAny(value: any, style: MaskStyle): string {
+  return maskValue(typeof value === "string" ? value : JSON.stringify(value) ?? "", style);
+}
+
+// Helper function to mask the pattern matches inside a string.
+// Returns undefined when nothing matched.
+function maskMatches(value: string, rule: RedactionRule): string | undefined {
+  let result = value;
+  for (const pattern of rule.patterns) {
+    const isPan = pattern === "pan";
+    const regex = new RegExp(REDACTION_PRESETS[pattern] ?? pattern, "g");
+    result = result.replace(regex, (match) =>
+      match && (!isPan || passesLuhn(match)) ? maskValue(match, rule.mask) : match,
+    );
+  }
+  return result === value ? undefined : result;
+}
+
+// Helper function to redact a body recursively, recording the redacted fields
+function redactBody(value: any, path: string, rule: RedactionRule, fields: Set<string>): any {
+  if (path && rule.paths.some((pattern) => matchesBodyPath(pattern, path))) {
+    if (value === undefined || value === null) return value;
+    fields.add(`body.${path}`);
+    return maskAny(value, rule.mask);
+  }
+  if (typeof value === "string") {
+    const masked = maskMatches(value, rule);
+    if (masked === undefined) return value;
+    fields.add(path ? `body.${path}` : "body");
+    return masked;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => redactBody(item, path ? `${path}.${index}` : String(index), rule, fields));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactBody(item, path ? `${path}.${key}` : key, rule, fields),
+      ]),
+    );
+  }
+  return value;
+}
+
+// Helper function to redact one header or query parameter value
+function redactEntry(
+  name: string,
+  value: string,
+  names: string[],
+  prefix: string,
+  rule: RedactionRule,
+  fields: Set<string>,
+): string {
+  if (names.some((pattern) => matchesName(pattern, name))) {
+    fields.add(`${prefix}.${name}`);
+    return maskValue(value, rule.mask);
+  }
+  const masked = maskMatches(value, rule);
+  if (masked === undefined) return value;
+  fields.add(`${prefix}.${name}`);
+  return masked;
+}
+
+// Helper function to redact a map of headers or query parameters
+function redactEntries(
+  entries: Record<string, string>,
+  names: string[],
+  prefix: string,
+  rule: RedactionRule,
+  fields: Set<string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(entries).map(([name, value]) => [
+      name,
+      redactEntry(name, value, names, prefix, rule, fields),
+    ]),
+  );
+}
+
+// Helper function to redact the query string of a URL
+function redactUrl(url: string, prefix: string, rule: RedactionRule, fields: Set<string>): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  let changed = false;
+  const params = [...parsed.searchParams].map(([name, value]) => {
+    const masked = redactEntry(name, value, rule.query, prefix, rule, fields);
+    changed ||= masked !== value;
+    return [name, masked];
+  });
+  if (!changed) return url;
+  parsed.search = new URLSearchParams(params).toString();
+  return parsed.toString();
+}
+
+// Helper function to redact a text body: JSON is redacted like request
+// bodies, other text only by pattern
+function redactText(text: string, prefix: string, rule: RedactionRule, fields: Set<string>): string {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const masked = maskMatches(text, rule);
+    if (masked === undefined) return text;
+    fields.add(prefix);
+    return masked;
+  }
+  const bodyFields = new Set<string>();
+  const redacted = redactBody(parsed, "", rule, bodyFields);
+  if (bodyFields.size === 0) return text;
+  bodyFields.forEach((field) => fields.add(field.replace(/^body/, prefix)));
+  return JSON.stringify(redacted);
+}
+
+// Helper function to redact the upstream URL and response of a forwarded request
+function redactForward(forward: ForwardResult, rule: RedactionRule, fields: Set<string>): ForwardResult {
+  const { response } = forward;
+  return {
+    ...forward,
+    url: redactUrl(forward.url, "forward.query", rule, fields),
+    response: {
+      ...response,
+      headers: redactEntries(response.headers, rule.headers, "forward.response.headers", rule, fields),
+      body:
+        response.body === null
+          ? null
+          : redactText(response.body, "forward.response.body", rule, fields),
+    },
+  };
+}
+
+// Helper function to check whether a redacted field covers the field an
+// idempotency key was read from, or a part of it
+function coversField(redactedField: string, keyField: string): boolean {
+  const field = redactedField.startsWith("headers.") ? redactedField.toLowerCase() : redactedField;
+  return field === keyField || keyField.startsWith(`${field}.`) || field.startsWith(`${keyField}.`);
+}
+
+// Apply the redaction rules covering the log's path to a copy of the log.
+// Besides the request itself, this covers the upstream URL and response of
+// forwarded requests, and the idempotency key when its header or body field
+// was masked. When the body changed, its raw bytes are removed from `blobs`
+// so the original payload is not kept; uploaded files are stored as received.
+export function redactWebhookLog(log: WebhookLog, blobs?: LogBlobs): WebhookLog {
+  const rules = getRedactionRules().filter(
+    (rule) => rule.enabled && matchPathGlob(rule.path, log.path),
+  );
+  if (rules.length === 0) return log;
+
+  const idempotencyConfig = log.idempotencyKey ? findIdempotencyConfig(log.path) : undefined;
+  const keyField = idempotencyConfig ? getIdempotencyKeyField(idempotencyConfig) : undefined;
+
+  const ruleIds: string[] = [];
+  const fields = new Set<string>();
+  let redacted = log;
+  for (const rule of rules) {
+    const ruleFields = new Set<string>();
+    redacted = {
+      ...redacted,
+      url: redactUrl(redacted.url, "query", rule, ruleFields),
+      headers: redactEntries(redacted.headers, rule.headers, "headers", rule, ruleFields),
+      queryParams: redactEntries(redacted.queryParams, rule.query, "query", rule, ruleFields),
+      body: redactBody(redacted.body, "", rule, ruleFields),
+      forward: redacted.forward && redactForward(redacted.forward, rule, ruleFields),
+    };
+    if (
+      keyField &&
+      !fields.has("idempotencyKey") &&
+      [...ruleFields].some((field) => coversField(field, keyField))
+    ) {
+      redacted.idempotencyKey = maskValue(redacted.idempotencyKey!, rule.mask);
+      ruleFields.add("idempotencyKey");
+    }
+    if (ruleFields.size > 0) {
+      ruleIds.push(rule.id);
+      ruleFields.forEach((field) => fields.add(field));
+    }
+  }
+  if (fields.size === 0) return log;
+
+  const bodyRedacted = [...fields].some((field) => field === "body" || field.startsWith("body."));
+  if (bodyRedacted && blobs && log.rawBodyBlob) {
+    delete blobs[log.rawBodyBlob];
+  }
+
+  return {
+    ...redacted,
+    rawBodyBlob: bodyRedacted ? undefined : log.rawBodyBlob,
+    redaction: { ruleIds, fields: [...fields] },
+  };
+}
+
+// Helper function to check a list of strings received through the API
+function isStringList(value: any): boolean {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string" && entry.trim());
+}
+
+// Helper function to validate a redaction rule received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateRedactionRuleInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Redaction rule must be a JSON object";
+  }
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  if (input.path !== undefined && typeof input.path !== "string") {
+    return "path must be a string";
+  }
+  for (const field of ["headers", "query", "paths", "patterns"]) {
+    if (input[field] !== undefined && !isStringList(input[field])) {
+      return `${field} must be a list of non-empty strings`;
+    }
+  }
+  if (!["headers", "query", "paths", "patterns"].some((field) => input[field]?.length > 0)) {
+    return "At least one of headers, query, paths or patterns is required";
+  }
+  for (const pattern of input.patterns ?? []) {
+    if (REDACTION_PRESETS[pattern]) continue;
+    try {
+      new RegExp(pattern, "g");
+    } catch {
+      return `patterns contains an invalid regular expression: ${pattern}`;
+    }
+  }
+  if (input.mask !== undefined && !["full", "partial", "hash"].includes(input.mask)) {
+    return 'mask must be "full", "partial" or "hash"';
+  }
+  return undefined;
+}
+
+// Served by /api/redactions and /api/redactions/{id}
+export const redactionResource: CrudResource<RedactionRule, RedactionRuleInput> = {
+  key: "redaction",
+  listKey: "redactions",
+  label: "Redaction rule",
+  list: getRedactionRules,
+  get: getRedactionRuleById,
+  create: createRedactionRule,
+  update: updateRedactionRule,
+  delete: deleteRedactionRule,
+  validate: validateRedactionRuleInput,
+};
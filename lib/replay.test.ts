@@ -0,0 +1,112 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { buildRequestFromLog, getReplaysForLog, replayWebhookLog, validateReplayInput } from "./replay";
+import { addWebhookLog, clearWebhookLogs, type WebhookLog } from "./store";
+
+// Request received by the test server
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+let server: http.Server;
+let targetUrl: string;
+const received: ReceivedRequest[] = [];
+
+// Helper function to build a captured log
+function makeLog(overrides: Partial<WebhookLog> = {}): WebhookLog {
+  return {
+    id: "log-1",
+    timestamp: new Date().toISOString(),
+    method: "POST",
+    path: "/webhooks/orders",
+    url: "http://localhost/webhooks/orders?source=shop",
+    statusCode: 200,
+    headers: { host: "localhost", "content-type": "application/json", "x-event": "order.created" },
+    queryParams: { source: "shop" },
+    body: { id: 1 },
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => {
+      received.push({ method: request.method!, url: request.url!, headers: request.headers, body: Buffer.concat(chunks) });
+      response.statusCode = 202;
+      response.end("accepted");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  targetUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+afterEach(() => {
+  received.length = 0;
+  clearWebhookLogs();
+});
+
+describe("buildRequestFromLog", () => {
+  it("re-issues the captured method, headers, query and body", () => {
+    const request = buildRequestFromLog(makeLog(), "http://target/hook?source=replay");
+    expect(request).toEqual({
+      method: "POST",
+      url: "http://target/hook?source=replay",
+      headers: { "content-type": "application/json", "x-event": "order.created" },
+      body: '{"id":1}',
+    });
+  });
+
+  it("applies overrides", () => {
+    const request = buildRequestFromLog(makeLog(), "http://target/hook", {
+      method: "put",
+      headers: { "X-Event": null, "x-replay": "1" },
+      body: { id: 2 },
+      includeQuery: false,
+    });
+    expect(request).toEqual({
+      method: "PUT",
+      url: "http://target/hook",
+      headers: { "content-type": "application/json", "x-replay": "1" },
+      body: '{"id":2}',
+    });
+  });
+
+  it("serializes form bodies when the raw bytes were not kept", () => {
+    const log = makeLog({ headers: { "content-type": "application/x-www-form-urlencoded" }, body: { a: "1", b: "x y" } });
+    expect(buildRequestFromLog(log, "http://target/").body).toBe("a=1&b=x+y");
+  });
+});
+
+describe("replayWebhookLog", () => {
+  it("sends the exact raw bytes and records the outcome", async () => {
+    const bytes = Buffer.from([0xff, 0x00, 0x01]);
+    const log = makeLog({ body: null, rawBodyBlob: "raw" });
+    addWebhookLog(log, { raw: bytes });
+
+    const record = await replayWebhookLog(log, targetUrl);
+    expect(received[0]).toMatchObject({ method: "POST", url: "/hook?source=shop", body: bytes });
+    expect(record).toMatchObject({ logId: "log-1", response: { statusCode: 202, body: "accepted" } });
+    expect(getReplaysForLog("log-1")[0].id).toBe(record.id);
+  });
+});
+
+describe("validateReplayInput", () => {
+  it("requires an absolute http(s) URL", () => {
+    expect(validateReplayInput({})).toBe("url is required");
+    expect(validateReplayInput({ url: "/relative" })).toBe("url must be an absolute URL");
+    expect(validateReplayInput({ url: "ftp://host/file" })).toBe("url must use http or https");
+    expect(validateReplayInput({ url: targetUrl, headers: { a: 1 } })).toBe(
+      "headers must be an object of string (or null) values",
+    );
+  });
+});
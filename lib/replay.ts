@@ -0,0 +1,180 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { getHeaderValue } from "./match";
+import {
+  filterRequestHeaders,
+  sendHttpRequest,
+  type OutgoingRequest,
+  type OutgoingResponse,
+} from "./http-client";
+import { getWebhookLogBlob, type WebhookLog } from "./store";
+
+// Constants
+const MAX_REPLAYS = 100; // Oldest replay records are removed beyond this
+
+// Changes applied to the captured request before it is re-sent
+export interface ReplayOverrides {
+  method?: string;
+  headers?: Record<string, string | null>; // null removes a captured header
+  body?: any; // String bodies are sent as-is, anything else as JSON
+  includeQuery?: boolean; // Append the captured query parameters. Default: true
+}
+
+export interface ReplayRecord {
+  id: string;
+  logId: string;
+  binId?: string;
+  timestamp: string;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+  };
+  response: OutgoingResponse;
+}
+
+// Records carry response bodies of up to 256KB, so changes are appended
+// rather than rewriting every record
+const replays = createCollection<ReplayRecord>("replays", { appendOnly: true });
+
+// Helper function to serialize a parsed log body when the raw bytes are not available
+function serializeBody(log: WebhookLog): string | null {
+  if (log.body === null || log.body === undefined) return null;
+  if (typeof log.body === "string") return log.body;
+
+  const contentType = getHeaderValue(log.headers, "content-type") || "";
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return new URLSearchParams(log.body).toString();
+  }
+  return JSON.stringify(log.body);
+}
+
+// The request body of a captured webhook: the exact raw bytes when they were
+// kept, otherwise the parsed body serialized back
+export function getLogRequestBody(log: WebhookLog): Buffer | string | null {
+  return (log.rawBodyBlob && getWebhookLogBlob(log.id, log.rawBodyBlob)) || serializeBody(log);
+}
+
+// Build a request that re-issues a captured webhook: same method, headers,
+// query parameters and body (the exact raw bytes when they were kept)
+export function buildRequestFromLog(
+  log: WebhookLog,
+  targetUrl: string,
+  overrides: ReplayOverrides = {},
+): OutgoingRequest {
+  const url = new URL(targetUrl);
+  if (overrides.includeQuery !== false) {
+    for (const [key, value] of Object.entries(log.queryParams)) {
+      if (!url.searchParams.has(key)) {
+        url.searchParams.set(key, value);
+      }
+    }
+  }
+
+  const headers = filterRequestHeaders(log.headers);
+  let body: Buffer | string | null = getLogRequestBody(log);
+
+  if (overrides.body !== undefined) {
+    if (typeof overrides.body === "string") {
+      body = overrides.body;
+    } else {
+      body = JSON.stringify(overrides.body);
+      // The captured Content-Type may not describe a JSON override
+      for (const name of Object.keys(headers)) {
+        if (name.toLowerCase() === "content-type") delete headers[name];
+      }
+      headers["content-type"] = "application/json";
+    }
+  }
+
+  for (const [name, value] of Object.entries(overrides.headers || {})) {
+    for (const existing of Object.keys(headers)) {
+      if (existing.toLowerCase() === name.toLowerCase()) delete headers[existing];
+    }
+    if (value !== null) headers[name] = value;
+  }
+
+  return {
+    method: (overrides.method || log.method).toUpperCase(),
+    url: url.toString(),
+    headers,
+    body,
+  };
+}
+
+// Re-send a captured webhook to a target URL and record the outcome
+export async function replayWebhookLog(
+  log: WebhookLog,
+  targetUrl: string,
+  overrides: ReplayOverrides = {},
+): Promise<ReplayRecord> {
+  const request = buildRequestFromLog(log, targetUrl, overrides);
+  const response = await sendHttpRequest(request);
+
+  const record: ReplayRecord = {
+    id: `${Date.now()}-${randomBytes(4).toString("hex")}`,
+    logId: log.id,
+    binId: log.binId,
+    timestamp: new Date().toISOString(),
+    request: {
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+    },
+    response,
+  };
+  replays.set(record);
+
+  // Keep only the most recent replay records
+  const all = replays.list();
+  if (all.length > MAX_REPLAYS) {
+    all
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(0, all.length - MAX_REPLAYS)
+      .forEach((old) => replays.delete(old.id));
+  }
+
+  return record;
+}
+
+// Replays of a log, newest first
+export function getReplaysForLog(logId: string): ReplayRecord[] {
+  return replays
+    .list()
+    .filter((record) => record.logId === logId)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+// Helper function to validate a replay request received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateReplayInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Request body must be a JSON object";
+  }
+  if (typeof input.url !== "string") {
+    return "url is required";
+  }
+  try {
+    const url = new URL(input.url);
+    if (!["http:", "https:"].includes(url.protocol)) {
+      return "url must use http or https";
+    }
+  } catch {
+    return "url must be an absolute URL";
+  }
+  if (input.method !== undefined && typeof input.method !== "string") {
+    return "method must be a string";
+  }
+  if (
+    input.headers !== undefined &&
+    (typeof input.headers !== "object" ||
+      input.headers === null ||
+      Object.values(input.headers).some((v) => v !== null && typeof v !== "string"))
+  ) {
+    return "headers must be an object of string (or null) values";
+  }
+  if (input.includeQuery !== undefined && typeof input.includeQuery !== "boolean") {
+    return "includeQuery must be a boolean";
+  }
+  return undefined;
+}
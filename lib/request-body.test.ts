@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { decodeUtf8, parseBodyBytes } from "./request-body";
+
+describe("parseBodyBytes", () => {
+  it("parses JSON and keeps invalid JSON as text with an error", async () => {
+    expect(await parseBodyBytes(Buffer.from('{"a":1}'), "application/json; charset=utf-8")).toEqual({ body: { a: 1 } });
+    const invalid = await parseBodyBytes(Buffer.from("{a"), "application/json");
+    expect(invalid.body).toBe("{a");
+    expect(invalid.error).toMatch(/^Failed to parse JSON: /);
+  });
+
+  it("does not decode binary payloads", async () => {
+    const bytes = Buffer.from([0xff, 0xfe, 0x00]);
+    expect(decodeUtf8(bytes)).toBeUndefined();
+    expect(await parseBodyBytes(bytes, "application/json")).toEqual({ body: null });
+    expect(await parseBodyBytes(Buffer.from("plain"), "text/plain")).toEqual({ body: "plain" });
+  });
+
+  it("reads form fields and uploaded files", async () => {
+    const form = new FormData();
+    form.append("name", "invoice");
+    form.append("doc", new Blob([new Uint8Array([1, 2, 3])], { type: "application/pdf" }), "a.pdf");
+    const request = new Request("http://localhost", { method: "POST", body: form });
+    const raw = Buffer.from(await request.arrayBuffer());
+
+    const { body, files } = await parseBodyBytes(raw, request.headers.get("content-type")!);
+    expect(body).toEqual({ name: "invoice", doc: "a.pdf" });
+    expect(files).toEqual([
+      { field: "doc", filename: "a.pdf", contentType: "application/pdf", data: Buffer.from([1, 2, 3]) },
+    ]);
+    expect(await parseBodyBytes(Buffer.from("a=1&b=two"), "application/x-www-form-urlencoded")).toEqual({
+      body: { a: "1", b: "two" },
+      files: [],
+    });
+  });
+});
@@ -0,0 +1,90 @@
+// Parsing of captured request bodies, shared by the webhook endpoint and log imports
+
+// Name of the blob holding a log's exact raw body
+export const RAW_BODY_BLOB = "raw";
+
+// File uploaded in a multipart request, with its content
+export interface UploadedFile {
+  field: string;
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface ParsedBody {
+  body: any;
+  files?: UploadedFile[];
+  error?: string; // Why the body could not be parsed as its content type declares
+}
+
+// Helper function to decode UTF-8 text; returns undefined for binary data
+export function decodeUtf8(data: Buffer): string | undefined {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return undefined;
+  }
+}
+
+// Parse raw body bytes based on the content type: form fields (with uploaded
+// files) for form data, a value for JSON, and text otherwise. Binary payloads
+// are not decoded and parse to null.
+export async function parseBodyBytes(rawBody: Buffer, contentType: string): Promise<ParsedBody> {
+  // Handle form data (parsed from the raw bytes so they stay available)
+  if (
+    contentType.includes("application/x-www-form-urlencoded") ||
+    contentType.includes("multipart/form-data")
+  ) {
+    try {
+      const formData = await new Response(new Uint8Array(rawBody), {
+        headers: { "content-type": contentType },
+      }).formData();
+      const entries: Record<string, string | File> = {};
+      const files: UploadedFile[] = [];
+      for (const [key, value] of formData.entries()) {
+        if (value instanceof File) {
+          entries[key] = value.name;
+          files.push({
+            field: key,
+            filename: value.name,
+            contentType: value.type || "application/octet-stream",
+            data: Buffer.from(await value.arrayBuffer()),
+          });
+        } else {
+          entries[key] = value;
+        }
+      }
+      return { body: entries, files };
+    } catch (error) {
+      return {
+        body: null,
+        error: `Failed to parse form data: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  // For JSON and other content types, decode as text first.
+  // Binary payloads are not decoded; their bytes are kept as the raw body.
+  const text = decodeUtf8(rawBody);
+  if (text === undefined) {
+    return { body: null };
+  }
+
+  // Parse JSON if content type indicates JSON
+  if (contentType.includes("application/json")) {
+    if (!text) {
+      return { body: null };
+    }
+    try {
+      return { body: JSON.parse(text) };
+    } catch (parseError) {
+      return {
+        body: text,
+        error: `Failed to parse JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`,
+      };
+    }
+  }
+
+  // Default: return as text
+  return { body: text || null };
+}
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createRule,
+  deleteRule,
+  findMatchingRule,
+  getRules,
+  updateRule,
+  validateRuleInput,
+  type RuleResponse,
+} from "./rules";
+import type { MatchableRequest } from "./match";
+
+// Helper function to build a text response with a status code
+const respond = (statusCode: number): RuleResponse => ({ statusCode, bodyType: "text", body: String(statusCode) });
+
+// Helper function to build a request to match
+function makeRequest(overrides: Partial<MatchableRequest> = {}): MatchableRequest {
+  return {
+    method: "POST",
+    path: "/webhooks/orders/1",
+    headers: { "X-Event": "order.created" },
+    queryParams: { source: "shop" },
+    body: { data: { amount: 42, paid: true } },
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  getRules().forEach((rule) => deleteRule(rule.id));
+});
+
+describe("findMatchingRule", () => {
+  it("returns the first enabled match by priority, then creation order", () => {
+    createRule({ name: "late", match: {}, response: respond(204), priority: 10 });
+    const first = createRule({ name: "first", match: {}, response: respond(201) });
+    createRule({ name: "second", match: {}, response: respond(202) });
+    createRule({ name: "disabled", match: {}, response: respond(500), priority: -1, enabled: false });
+
+    expect(getRules().map((rule) => rule.name)).toEqual(["disabled", "first", "second", "late"]);
+    expect(findMatchingRule(makeRequest())?.id).toBe(first.id);
+
+    updateRule(first.id, { match: { method: "GET" }, response: respond(201) });
+    expect(findMatchingRule(makeRequest())?.name).toBe("second");
+  });
+
+  it("requires every criterion of the matcher to match", () => {
+    const rule = createRule({
+      match: {
+        method: "post",
+        path: "orders/*",
+        headers: { "x-event": "order.created" },
+        query: { source: "shop" },
+        body: { "data.amount": "42", "data.paid": true },
+      },
+      response: respond(201),
+    });
+
+    expect(findMatchingRule(makeRequest())?.id).toBe(rule.id);
+    expect(findMatchingRule(makeRequest({ path: "/webhooks/orders/1/items" }))).toBeUndefined();
+    expect(findMatchingRule(makeRequest({ headers: { "x-event": "order.paid" } }))).toBeUndefined();
+    expect(findMatchingRule(makeRequest({ queryParams: {} }))).toBeUndefined();
+    expect(findMatchingRule(makeRequest({ body: { data: { amount: 41, paid: true } } }))).toBeUndefined();
+  });
+});
+
+describe("validateRuleInput", () => {
+  it("checks the matcher and the response", () => {
+    expect(validateRuleInput({ response: respond(200) })).toBeUndefined();
+    expect(validateRuleInput({ match: [], response: respond(200) })).toBe("match must be an object");
+    expect(validateRuleInput({ match: {} })).toBe("response is required");
+    expect(validateRuleInput({ response: respond(600) })).toBe(
+      "response.statusCode must be an integer between 100 and 599",
+    );
+    expect(validateRuleInput({ response: { statusCode: 200, bodyType: "xml", body: {} } })).toBe(
+      'response.body must be a string for bodyType "xml"',
+    );
+  });
+});
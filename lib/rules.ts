@@ -0,0 +1,207 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import {
+  matchesRequest,
+  validateRequestMatcher,
+  type MatchableRequest,
+  type RequestMatcher,
+} from "./match";
+import {
+  renderJsonTemplate,
+  renderTemplate,
+  type TemplateContext,
+} from "./template";
+import type { CrudResource } from "./crud";
+
+// Constants
+const MIN_STATUS_CODE = 100;
+const MAX_STATUS_CODE = 599;
+
+export type RuleBodyType = "json" | "text" | "xml";
+
+export interface RuleResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  bodyType: RuleBodyType;
+  body: any; // Any JSON value for "json", a string for "text" and "xml"
+}
+
+// A mock response rule: when an incoming webhook matches, the rule's
+// response is returned instead of the default JSON envelope
+export interface ResponseRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number; // Lower numbers are evaluated first
+  match: RequestMatcher;
+  response: RuleResponse;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields accepted when creating or updating a rule
+export type ResponseRuleInput = Pick<ResponseRule, "match" | "response"> &
+  Partial<Pick<ResponseRule, "name" | "enabled" | "priority">>;
+
+const rules = createCollection<ResponseRule>("rules");
+
+const CONTENT_TYPES: Record<RuleBodyType, string> = {
+  json: "application/json",
+  text: "text/plain; charset=utf-8",
+  xml: "application/xml; charset=utf-8",
+};
+
+// Rules in evaluation order
+export function getRules(): ResponseRule[] {
+  return rules
+    .list()
+    .sort(
+      (a, b) =>
+        a.priority - b.priority || a.createdAt.localeCompare(b.createdAt),
+    );
+}
+
+export function getRuleById(id: string): ResponseRule | undefined {
+  return rules.get(id);
+}
+
+export function createRule(input: ResponseRuleInput): ResponseRule {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return rules.set({
+    id,
+    name: input.name?.trim() || `rule-${id}`,
+    enabled: input.enabled ?? true,
+    priority: input.priority ?? 0,
+    match: input.match,
+    response: input.response,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateRule(
+  id: string,
+  input: ResponseRuleInput,
+): ResponseRule | undefined {
+  const existing = rules.get(id);
+  if (!existing) return undefined;
+  return rules.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    priority: input.priority ?? existing.priority,
+    match: input.match,
+    response: input.response,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteRule(id: string): boolean {
+  return rules.delete(id);
+}
+
+// Find the first enabled rule matching the request
+export function findMatchingRule(
+  request: MatchableRequest,
+): ResponseRule | undefined {
+  return getRules().find(
+    (rule) => rule.enabled && matchesRequest(rule.match, request),
+  );
+}
+
+// Render a rule response for a request. The body and header values are
+// templates that can reference the request (see lib/template.ts).
+export function renderRuleResponse(
+  response: RuleResponse,
+  context: TemplateContext,
+): { body: string; headers: Record<string, string> } {
+  const body =
+    response.bodyType === "json"
+      ? JSON.stringify(renderJsonTemplate(response.body ?? null, context))
+      : renderTemplate(String(response.body ?? ""), context);
+
+  const headers: Record<string, string> = {
+    "Content-Type": CONTENT_TYPES[response.bodyType],
+  };
+  for (const [name, value] of Object.entries(response.headers || {})) {
+    // A configured Content-Type replaces the default one
+    if (name.toLowerCase() === "content-type") delete headers["Content-Type"];
+    headers[name] = renderTemplate(value, context);
+  }
+
+  return { body, headers };
+}
+
+// Helper function to validate a rule received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateRuleInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Rule must be a JSON object";
+  }
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  if (input.priority !== undefined && typeof input.priority !== "number") {
+    return "priority must be a number";
+  }
+
+  const matchError = validateRequestMatcher(input.match ?? {});
+  if (matchError) return matchError;
+
+  return validateRuleResponse(input.response);
+}
+
+// Helper function to validate a rule response (also used for scenario steps).
+// `field` is the name used in error messages.
+export function validateRuleResponse(
+  response: any,
+  field: string = "response",
+): string | undefined {
+  if (typeof response !== "object" || response === null) {
+    return `${field} is required`;
+  }
+  if (
+    !Number.isInteger(response.statusCode) ||
+    response.statusCode < MIN_STATUS_CODE ||
+    response.statusCode > MAX_STATUS_CODE
+  ) {
+    return `${field}.statusCode must be an integer between ${MIN_STATUS_CODE} and ${MAX_STATUS_CODE}`;
+  }
+  if (!["json", "text", "xml"].includes(response.bodyType)) {
+    return `${field}.bodyType must be "json", "text" or "xml"`;
+  }
+  if (
+    response.bodyType !== "json" &&
+    response.body !== undefined &&
+    typeof response.body !== "string"
+  ) {
+    return `${field}.body must be a string for bodyType "${response.bodyType}"`;
+  }
+  if (
+    response.headers !== undefined &&
+    (typeof response.headers !== "object" ||
+      response.headers === null ||
+      Object.values(response.headers).some((v) => typeof v !== "string"))
+  ) {
+    return `${field}.headers must be an object of string values`;
+  }
+  return undefined;
+}
+
+// Served by /api/rules and /api/rules/{id}
+export const ruleResource: CrudResource<ResponseRule, ResponseRuleInput> = {
+  key: "rule",
+  listKey: "rules",
+  label: "Rule",
+  list: getRules,
+  get: getRuleById,
+  create: createRule,
+  update: updateRule,
+  delete: deleteRule,
+  validate: validateRuleInput,
+  toInput: (input) => ({ ...input, match: input.match ?? {} }),
+};
@@ -0,0 +1,69 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RuleResponse } from "./rules";
+
+const STEPS: RuleResponse[] = [500, 500, 200].map((statusCode) => ({
+  statusCode,
+  bodyType: "json",
+  body: { statusCode },
+}));
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-webhooks-"));
+  vi.stubEnv("LOG_STORAGE_DRIVER", "file");
+  vi.stubEnv("LOG_STORAGE_FILE", path.join(dir, "webhook-logs.jsonl"));
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.resetModules();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("advanceScenario", () => {
+  it("returns the steps in order per path and keeps the last one", async () => {
+    const { advanceScenario, createScenario } = await import("./scenarios");
+    createScenario({ path: "/webhooks/flaky/**", steps: STEPS });
+    const statuses = (webhookPath: string) => advanceScenario("POST", webhookPath)?.response.statusCode;
+
+    expect([1, 2, 3, 4].map(() => statuses("/webhooks/flaky/a"))).toEqual([500, 500, 200, 200]);
+    expect(statuses("/webhooks/flaky/b")).toBe(500);
+    expect(advanceScenario("POST", "/webhooks/other")).toBeUndefined();
+  });
+
+  it("counts calls in memory and saves them in a batch, without rewriting the scenarios file", async () => {
+    const { advanceScenario, createScenario, getScenarioById } = await import("./scenarios");
+    const scenario = createScenario({ path: "/webhooks/**", steps: STEPS, repeat: "loop" });
+    const definition = fs.readFileSync(path.join(dir, "scenarios.json"), "utf8");
+
+    for (let i = 0; i < 4; i++) advanceScenario("POST", "/webhooks/a");
+    expect(getScenarioById(scenario.id)?.counters).toEqual({ "/webhooks/a": 4 });
+    expect(fs.existsSync(path.join(dir, "scenario-counters.jsonl"))).toBe(false);
+
+    vi.runAllTimers();
+    expect(fs.readFileSync(path.join(dir, "scenarios.json"), "utf8")).toBe(definition);
+    expect(fs.readFileSync(path.join(dir, "scenario-counters.jsonl"), "utf8").trim().split("\n")).toHaveLength(1);
+
+    // Saved counters are picked up after a restart
+    vi.resetModules();
+    const reloaded = await import("./scenarios");
+    expect(reloaded.getScenarioById(scenario.id)?.counters).toEqual({ "/webhooks/a": 4 });
+    expect(reloaded.advanceScenario("POST", "/webhooks/a")?.result).toMatchObject({ call: 5, step: 2 });
+  });
+
+  it("starts over after a reset", async () => {
+    const { advanceScenario, createScenario, resetScenario } = await import("./scenarios");
+    const scenario = createScenario({ path: "/webhooks/**", steps: STEPS });
+    advanceScenario("POST", "/webhooks/a");
+    advanceScenario("POST", "/webhooks/a");
+
+    expect(resetScenario(scenario.id)?.counters).toEqual({});
+    expect(advanceScenario("POST", "/webhooks/a")?.result).toMatchObject({ call: 1, step: 1 });
+  });
+});
@@ -0,0 +1,234 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { matchPathGlob } from "./match";
+import { validateRuleResponse, type RuleResponse } from "./rules";
+import type { CrudResource } from "./crud";
+
+// Constants
+const MAX_STEPS = 100;
+const COUNTER_SAVE_DELAY_MS = 1000;
+
+// What happens after the last step: keep returning it, or start over
+export type ScenarioRepeat = "last" | "loop";
+
+// A stateful response sequence: successive calls to a path matching `path`
+// get the responses in `steps` in order (e.g. 500, 500, then 200)
+export interface Scenario {
+  id: string;
+  name: string;
+  enabled: boolean;
+  path: string; // Path glob, e.g. /webhooks/flaky/**
+  method?: string; // Only count calls with this method
+  steps: RuleResponse[];
+  repeat: ScenarioRepeat;
+  counters: Record<string, number>; // Calls so far per webhook path
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScenarioInput = Pick<Scenario, "path" | "steps"> &
+  Partial<Pick<Scenario, "name" | "enabled" | "method" | "repeat">>;
+
+// Scenario step recorded on the webhook log
+export interface ScenarioStepResult {
+  scenarioId: string;
+  call: number; // Calls to the path so far, including this one
+  step: number; // 1-based index of the step that was returned
+  totalSteps: number;
+}
+
+// Stored scenario definition; its counters are kept apart
+type StoredScenario = Omit<Scenario, "counters">;
+
+// Saved counters of a scenario
+interface ScenarioCounters {
+  id: string; // Scenario id
+  counters: Record<string, number>;
+}
+
+const scenarios = createCollection<StoredScenario>("scenarios");
+const savedCounters = createCollection<ScenarioCounters>("scenario-counters", { appendOnly: true });
+
+// Counters change on every call, so they are kept in memory and the changed
+// ones are saved together shortly after
+const counters = new Map<string, Record<string, number>>(
+  savedCounters.list().map((entry) => [entry.id, entry.counters]),
+);
+const changedCounters = new Set<string>();
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Helper function to save the counters changed since the last save
+function saveCounters(): void {
+  saveTimer = undefined;
+  for (const id of changedCounters) {
+    const scenarioCounters = counters.get(id);
+    if (scenarioCounters) {
+      savedCounters.set({ id, counters: scenarioCounters });
+    } else {
+      savedCounters.delete(id);
+    }
+  }
+  changedCounters.clear();
+}
+
+// Helper function to replace (or with undefined, drop) a scenario's counters
+function setCounters(id: string, scenarioCounters: Record<string, number> | undefined): void {
+  if (scenarioCounters) {
+    counters.set(id, scenarioCounters);
+  } else {
+    counters.delete(id);
+  }
+  changedCounters.add(id);
+  if (!saveTimer) {
+    saveTimer = setTimeout(saveCounters, COUNTER_SAVE_DELAY_MS);
+    saveTimer.unref?.();
+  }
+}
+
+// Helper function to attach the current counters to a stored scenario
+function withCounters(scenario: StoredScenario): Scenario {
+  return { ...scenario, counters: counters.get(scenario.id) ?? {} };
+}
+
+export function getScenarios(): Scenario[] {
+  return scenarios
+    .list()
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(withCounters);
+}
+
+export function getScenarioById(id: string): Scenario | undefined {
+  const scenario = scenarios.get(id);
+  return scenario && withCounters(scenario);
+}
+
+export function createScenario(input: ScenarioInput): Scenario {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  const scenario = scenarios.set({
+    id,
+    name: input.name?.trim() || `scenario-${id}`,
+    enabled: input.enabled ?? true,
+    path: input.path.trim(),
+    method: input.method?.toUpperCase() || undefined,
+    steps: input.steps,
+    repeat: input.repeat ?? "last",
+    createdAt: now,
+    updatedAt: now,
+  });
+  return withCounters(scenario);
+}
+
+// Replace a scenario's definition. Its counters are kept; use resetScenario to start over.
+export function updateScenario(id: string, input: ScenarioInput): Scenario | undefined {
+  const existing = scenarios.get(id);
+  if (!existing) return undefined;
+  const scenario = scenarios.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    path: input.path.trim(),
+    method: input.method?.toUpperCase() || undefined,
+    steps: input.steps,
+    repeat: input.repeat ?? existing.repeat,
+    updatedAt: new Date().toISOString(),
+  });
+  return withCounters(scenario);
+}
+
+export function deleteScenario(id: string): boolean {
+  const deleted = scenarios.delete(id);
+  if (deleted) setCounters(id, undefined);
+  return deleted;
+}
+
+// Start the sequence over for every path
+export function resetScenario(id: string): Scenario | undefined {
+  const existing = scenarios.get(id);
+  if (!existing) return undefined;
+  setCounters(id, undefined);
+  return withCounters(scenarios.set({ ...existing, updatedAt: new Date().toISOString() }));
+}
+
+// Helper function to pick the step for the n-th call (1-based)
+function getStepIndex(call: number, scenario: Scenario): number {
+  const count = scenario.steps.length;
+  if (call <= count) return call - 1;
+  return scenario.repeat === "loop" ? (call - 1) % count : count - 1;
+}
+
+// Count a call to the first enabled scenario covering the request and
+// return the response for the current step
+export function advanceScenario(
+  method: string,
+  path: string,
+): { response: RuleResponse; result: ScenarioStepResult } | undefined {
+  const scenario = getScenarios().find(
+    (candidate) =>
+      candidate.enabled &&
+      (!candidate.method || candidate.method === method) &&
+      matchPathGlob(candidate.path, path),
+  );
+  if (!scenario) return undefined;
+
+  const call = (scenario.counters[path] ?? 0) + 1;
+  setCounters(scenario.id, { ...scenario.counters, [path]: call });
+
+  const index = getStepIndex(call, scenario);
+  return {
+    response: scenario.steps[index],
+    result: {
+      scenarioId: scenario.id,
+      call,
+      step: index + 1,
+      totalSteps: scenario.steps.length,
+    },
+  };
+}
+
+// Helper function to validate a scenario received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateScenarioInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Scenario must be a JSON object";
+  }
+  if (typeof input.path !== "string" || !input.path.trim()) {
+    return "path is required";
+  }
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  if (input.method !== undefined && typeof input.method !== "string") {
+    return "method must be a string";
+  }
+  if (input.repeat !== undefined && !["last", "loop"].includes(input.repeat)) {
+    return 'repeat must be "last" or "loop"';
+  }
+  if (!Array.isArray(input.steps) || input.steps.length === 0) {
+    return "steps must be a non-empty array";
+  }
+  if (input.steps.length > MAX_STEPS) {
+    return `steps can have at most ${MAX_STEPS} entries`;
+  }
+  for (let i = 0; i < input.steps.length; i++) {
+    const stepError = validateRuleResponse(input.steps[i], `steps[${i}]`);
+    if (stepError) return stepError;
+  }
+  return undefined;
+}
+
+// Served by /api/scenarios and /api/scenarios/{id}
+export const scenarioResource: CrudResource<Scenario, ScenarioInput> = {
+  key: "scenario",
+  listKey: "scenarios",
+  label: "Scenario",
+  list: getScenarios,
+  get: getScenarioById,
+  create: createScenario,
+  update: updateScenario,
+  delete: deleteScenario,
+  validate: validateScenarioInput,
+};
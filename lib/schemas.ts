@@ -0,0 +1,131 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { matchPathGlob } from "./match";
+import { checkJsonSchema, validateJsonSchema, type SchemaError } from "./json-schema";
+import type { CrudResource } from "./crud";
+
+// Constants
+const MAX_LOGGED_ERRORS = 50;
+
+// Payload contract: bodies of webhooks whose path matches `path` are
+// validated against `schema` (JSON Schema draft 2020-12)
+export interface SchemaConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  path: string; // Path glob, e.g. /webhooks/orders/**
+  schema: Record<string, any> | boolean;
+  rejectInvalid: boolean; // Answer invalid payloads with 422
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SchemaConfigInput = Pick<SchemaConfig, "path" | "schema"> &
+  Partial<Pick<SchemaConfig, "name" | "enabled" | "rejectInvalid">>;
+
+// Validation outcome recorded on the webhook log
+export interface ValidationResult {
+  schemaId: string;
+  valid: boolean;
+  errors: SchemaError[]; // At most MAX_LOGGED_ERRORS entries
+}
+
+const schemaConfigs = createCollection<SchemaConfig>("schemas");
+
+export function getSchemaConfigs(): SchemaConfig[] {
+  return schemaConfigs.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getSchemaConfigById(id: string): SchemaConfig | undefined {
+  return schemaConfigs.get(id);
+}
+
+export function createSchemaConfig(input: SchemaConfigInput): SchemaConfig {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return schemaConfigs.set({
+    id,
+    name: input.name?.trim() || `schema-${id}`,
+    enabled: input.enabled ?? true,
+    path: input.path.trim(),
+    schema: input.schema,
+    rejectInvalid: input.rejectInvalid ?? false,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateSchemaConfig(id: string, input: SchemaConfigInput): SchemaConfig | undefined {
+  const existing = schemaConfigs.get(id);
+  if (!existing) return undefined;
+  return schemaConfigs.set({
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    path: input.path.trim(),
+    schema: input.schema,
+    rejectInvalid: input.rejectInvalid ?? existing.rejectInvalid,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteSchemaConfig(id: string): boolean {
+  return schemaConfigs.delete(id);
+}
+
+// First enabled configuration whose path glob matches the webhook path
+export function findSchemaConfig(path: string): SchemaConfig | undefined {
+  return getSchemaConfigs().find(
+    (config) => config.enabled && matchPathGlob(config.path, path),
+  );
+}
+
+// Validate a parsed webhook body. Bodies that were not JSON are validated as
+// parsed (form fields as an object, text as a string, an empty body as null).
+export function validatePayload(config: SchemaConfig, body: any): ValidationResult {
+  const errors = validateJsonSchema(config.schema, body === undefined ? null : body);
+  return {
+    schemaId: config.id,
+    valid: errors.length === 0,
+    errors: errors.slice(0, MAX_LOGGED_ERRORS),
+  };
+}
+
+// Helper function to validate a schema configuration received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateSchemaConfigInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Schema configuration must be a JSON object";
+  }
+  if (typeof input.path !== "string" || !input.path.trim()) {
+    return "path is required";
+  }
+  if (input.schema === undefined) {
+    return "schema is required";
+  }
+  const schemaError = checkJsonSchema(input.schema);
+  if (schemaError) return schemaError;
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "name must be a string";
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  if (input.rejectInvalid !== undefined && typeof input.rejectInvalid !== "boolean") {
+    return "rejectInvalid must be a boolean";
+  }
+  return undefined;
+}
+
+// Served by /api/schemas and /api/schemas/{id}
+export const schemaResource: CrudResource<SchemaConfig, SchemaConfigInput> = {
+  key: "schema",
+  listKey: "schemas",
+  label: "Schema configuration",
+  list: getSchemaConfigs,
+  get: getSchemaConfigById,
+  create: createSchemaConfig,
+  update: updateSchemaConfig,
+  delete: deleteSchemaConfig,
+  validate: validateSchemaConfigInput,
+};
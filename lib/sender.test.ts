@@ -0,0 +1,118 @@
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Delivery } from "./sender";
+
+// Request received by the test server
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+let server: http.Server;
+let targetUrl: string;
+const received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk) => chunks.push(chunk));
+    request.on("end", () => {
+      received.push({ headers: request.headers, body: Buffer.concat(chunks) });
+      response.end("ok");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  targetUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+afterEach(() => {
+  received.length = 0;
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe("sendWebhook", () => {
+  it("sends the raw bytes of a binary template log", async () => {
+    const { addWebhookLog } = await import("./store");
+    const { sendWebhook } = await import("./sender");
+    const bytes = Buffer.from([0xff, 0x00, 0x80, 0x7f]);
+    addWebhookLog(
+      {
+        id: "binary",
+        timestamp: new Date().toISOString(),
+        method: "POST",
+        path: "/webhooks/upload",
+        url: "http://localhost/webhooks/upload",
+        statusCode: 200,
+        headers: { "content-type": "application/octet-stream" },
+        queryParams: {},
+        body: null,
+        rawBodyBlob: "raw",
+      },
+      { raw: bytes },
+    );
+
+    const { delivery, completion } = sendWebhook({ url: targetUrl, fromLogId: "binary" });
+    expect(delivery.request).toMatchObject({ body: bytes.toString("base64"), bodyEncoding: "base64" });
+    expect((await completion).status).toBe("succeeded");
+    expect(received[0].body).toEqual(bytes);
+  });
+});
+
+describe("resuming deliveries", () => {
+  it("continues retrying deliveries left over from a previous run, signed", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-webhooks-"));
+    try {
+      vi.stubEnv("LOG_STORAGE_DRIVER", "file");
+      vi.stubEnv("LOG_STORAGE_FILE", path.join(dir, "webhook-logs.jsonl"));
+      const delivery: Delivery = {
+        id: "interrupted",
+        createdAt: new Date().toISOString(),
+        status: "retrying",
+        request: { method: "POST", url: targetUrl, headers: {}, body: '{"ok":true}' },
+        signingScheme: "hmac-sha256",
+        retry: {
+          maxAttempts: 3,
+          initialDelayMs: 10,
+          backoffFactor: 1,
+          maxDelayMs: 10,
+          retryOn: ["5xx"],
+          retryOnNetworkError: true,
+        },
+        timeoutSeconds: 5,
+        attempts: [
+          {
+            number: 1,
+            timestamp: new Date().toISOString(),
+            response: { statusCode: 503, headers: {}, body: "", durationMs: 1 },
+          },
+        ],
+        nextAttemptAt: new Date().toISOString(),
+      };
+      fs.writeFileSync(path.join(dir, "deliveries.jsonl"), JSON.stringify({ op: "set", item: delivery }) + "\n");
+      fs.writeFileSync(
+        path.join(dir, "delivery-signing.json"),
+        JSON.stringify([{ id: "interrupted", signing: { scheme: "hmac-sha256", secret: "s3cret" } }]),
+      );
+
+      const { getDeliveryById } = await import("./sender");
+      await vi.waitFor(() => expect(getDeliveryById("interrupted")?.status).toBe("succeeded"));
+
+      expect(getDeliveryById("interrupted")?.attempts.map((attempt) => attempt.number)).toEqual([1, 2]);
+      expect(received).toHaveLength(1);
+      expect(received[0].headers["x-signature"]).toBeTruthy();
+      // The signing options are dropped once the delivery is finished
+      expect(JSON.parse(fs.readFileSync(path.join(dir, "delivery-signing.json"), "utf8"))).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
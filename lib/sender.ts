@@ -0,0 +1,412 @@
+import { randomBytes } from "crypto";
+import { createCollection } from "./storage";
+import { getHeaderValue } from "./match";
+import { matchesStatusCode, sendHttpRequest, type OutgoingResponse } from "./http-client";
+import { buildRequestFromLog } from "./replay";
+import {
+  signPayload,
+  validateSigningOptions,
+  type SigningOptions,
+} from "./signatures";
+import { getWebhookLogById } from "./store";
+import { decodeUtf8 } from "./request-body";
+
+// Constants
+const MAX_DELIVERIES = 500; // Oldest deliveries are removed beyond this
+const MAX_ATTEMPTS = 20;
+const MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+const MIN_SEND_TIMEOUT_SECONDS = 1;
+const MAX_SEND_TIMEOUT_SECONDS = 300; // 5 minutes
+const DEFAULT_SEND_TIMEOUT_SECONDS = 30;
+
+// Retry policy with exponential backoff: attempt n waits
+// min(initialDelayMs * backoffFactor^(n-1), maxDelayMs) before the next one
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first attempt
+  initialDelayMs: number;
+  backoffFactor: number;
+  maxDelayMs: number;
+  retryOn: (number | string)[]; // Status codes or classes such as "5xx"
+  retryOnNetworkError: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffFactor: 2,
+  maxDelayMs: 60000,
+  retryOn: [408, 429, "5xx"],
+  retryOnNetworkError: true,
+};
+
+// Request to deliver. Headers and body use the same shapes as WebhookLog,
+// and `fromLogId` uses a captured request as the template.
+export interface SendInput {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: any; // Strings are sent as-is, anything else as JSON
+  fromLogId?: string;
+  signing?: SigningOptions;
+  retry?: Partial<RetryPolicy>;
+  timeoutSeconds?: number;
+}
+
+export interface DeliveryAttempt {
+  number: number;
+  timestamp: string;
+  response: OutgoingResponse;
+}
+
+export type DeliveryStatus = "pending" | "retrying" | "succeeded" | "failed";
+
+export interface Delivery {
+  id: string;
+  createdAt: string;
+  status: DeliveryStatus;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>; // Without signature headers (recomputed per attempt)
+    body: string | null;
+    bodyEncoding?: "base64"; // Set when the body is binary and stored base64-encoded
+  };
+  signingScheme?: string;
+  fromLogId?: string;
+  retry: RetryPolicy;
+  timeoutSeconds?: number;
+  attempts: DeliveryAttempt[];
+  nextAttemptAt?: string;
+  completedAt?: string;
+}
+
+// Signing options of unfinished deliveries, kept apart so secrets are never
+// part of a delivery returned by the API
+interface DeliverySigning {
+  id: string; // Delivery id
+  signing: SigningOptions;
+}
+
+// Every attempt updates its delivery, so changes are appended rather than
+// rewriting the whole history
+const deliveries = createCollection<Delivery>("deliveries", { appendOnly: true });
+const deliverySigning = createCollection<DeliverySigning>("delivery-signing");
+
+// Helper function to decide whether a failed attempt should be retried
+function shouldRetry(response: OutgoingResponse, policy: RetryPolicy): boolean {
+  if (response.statusCode === null) return policy.retryOnNetworkError;
+  return matchesStatusCode(response.statusCode, policy.retryOn);
+}
+
+// Delay before the attempt following attempt number `attempt`
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1),
+    policy.maxDelayMs,
+  );
+}
+
+function isSuccess(response: OutgoingResponse): boolean {
+  return response.statusCode !== null && response.statusCode >= 200 && response.statusCode < 300;
+}
+
+// Helper function to keep only the most recent deliveries
+function pruneDeliveries(): void {
+  const all = deliveries.list();
+  if (all.length <= MAX_DELIVERIES) return;
+  all
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(0, all.length - MAX_DELIVERIES)
+    .forEach((old) => {
+      deliveries.delete(old.id);
+      deliverySigning.delete(old.id);
+    });
+}
+
+// Helper function to overlay headers, replacing existing ones regardless of case
+function mergeHeaders(
+  base: Record<string, string>,
+  overrides: Record<string, string>,
+): Record<string, string> {
+  const names = new Set(Object.keys(overrides).map((name) => name.toLowerCase()));
+  const merged = Object.fromEntries(
+    Object.entries(base).filter(([name]) => !names.has(name.toLowerCase())),
+  );
+  return { ...merged, ...overrides };
+}
+
+// Helper function to build the request from the input (and template log)
+function buildDeliveryRequest(input: SendInput): Delivery["request"] {
+  if (input.fromLogId) {
+    const log = getWebhookLogById(input.fromLogId);
+    if (!log) throw new Error(`Log "${input.fromLogId}" not found`);
+    const request = buildRequestFromLog(log, input.url, {
+      method: input.method,
+      headers: input.headers,
+      body: input.body,
+    });
+    if (request.body === null || request.body === undefined || typeof request.body === "string") {
+      return { method: request.method, url: request.url, headers: request.headers, body: request.body ?? null };
+    }
+    // Binary bodies are kept byte for byte
+    const text = decodeUtf8(request.body);
+    return {
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: text ?? request.body.toString("base64"),
+      bodyEncoding: text === undefined ? "base64" : undefined,
+    };
+  }
+
+  const headers: Record<string, string> = { ...input.headers };
+  let body: string | null = null;
+  if (typeof input.body === "string") {
+    body = input.body;
+  } else if (input.body !== undefined && input.body !== null) {
+    body = JSON.stringify(input.body);
+    if (!getHeaderValue(headers, "content-type")) {
+      headers["Content-Type"] = "application/json";
+    }
+  }
+  return {
+    method: (input.method || "POST").toUpperCase(),
+    url: input.url,
+    headers,
+    body,
+  };
+}
+
+// Helper function to get the bytes to send of a delivery request
+function getRequestBody(request: Delivery["request"]): Buffer | string | null {
+  if (request.body !== null && request.bodyEncoding === "base64") {
+    return Buffer.from(request.body, "base64");
+  }
+  return request.body;
+}
+
+// Helper function to record the outcome of a finished delivery
+function completeDelivery(delivery: Delivery, status: DeliveryStatus): void {
+  deliveries.set({
+    ...delivery,
+    status,
+    nextAttemptAt: undefined,
+    completedAt: new Date().toISOString(),
+  });
+  deliverySigning.delete(delivery.id);
+}
+
+// Run the attempts of a delivery until it succeeds or runs out of retries.
+// A delivery resumed after a restart continues with its next attempt.
+async function runDelivery(id: string): Promise<void> {
+  let delivery = deliveries.get(id);
+  if (!delivery) return;
+  const signing = deliverySigning.get(id)?.signing;
+  const timeoutMs = (delivery.timeoutSeconds ?? DEFAULT_SEND_TIMEOUT_SECONDS) * 1000;
+  const body = getRequestBody(delivery.request);
+
+  if (delivery.signingScheme && !signing) {
+    // The signing options of deliveries created before this version were not kept
+    completeDelivery(delivery, "failed");
+    return;
+  }
+  if (delivery.nextAttemptAt) {
+    const delay = new Date(delivery.nextAttemptAt).getTime() - Date.now();
+    await new Promise((resolve) => setTimeout(resolve, Math.max(delay, 0)));
+  }
+
+  for (let attempt = delivery.attempts.length + 1; attempt <= delivery.retry.maxAttempts; attempt++) {
+    const { request } = delivery;
+    // Signatures are recomputed per attempt so timestamped schemes stay fresh
+    const headers = signing
+      ? mergeHeaders(request.headers, signPayload(signing, body ?? ""))
+      : request.headers;
+
+    const response = await sendHttpRequest({
+      method: request.method,
+      url: request.url,
+      headers,
+      body,
+      timeoutMs,
+    });
+
+    delivery = deliveries.get(id);
+    if (!delivery) return; // Removed while in flight
+
+    const attempts = [
+      ...delivery.attempts,
+      { number: attempt, timestamp: new Date().toISOString(), response },
+    ];
+    console.log(
+      `[Sender] ${request.method} ${request.url} attempt ${attempt}/${delivery.retry.maxAttempts} -> ${
+        response.statusCode ?? response.error
+      }`,
+    );
+
+    const done =
+      isSuccess(response) ||
+      attempt === delivery.retry.maxAttempts ||
+      !shouldRetry(response, delivery.retry);
+    if (done) {
+      completeDelivery({ ...delivery, attempts }, isSuccess(response) ? "succeeded" : "failed");
+      return;
+    }
+
+    const delay = getRetryDelay(attempt, delivery.retry);
+    delivery = deliveries.set({
+      ...delivery,
+      attempts,
+      status: "retrying",
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+    });
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  // Only reached by a resumed delivery that had no attempts left
+  completeDelivery(delivery, "failed");
+}
+
+// Helper function to run a delivery in the background, resolving with its final state
+function startDelivery(delivery: Delivery): Promise<Delivery> {
+  return runDelivery(delivery.id)
+    .catch((error) => {
+      console.error("[Sender] Delivery failed unexpectedly:", error);
+    })
+    .then(() => deliveries.get(delivery.id) || delivery);
+}
+
+// Create a delivery and start sending it in the background. The returned
+// promise resolves once the delivery has finished (succeeded or failed).
+export function sendWebhook(input: SendInput): {
+  delivery: Delivery;
+  completion: Promise<Delivery>;
+} {
+  const request = buildDeliveryRequest(input);
+  const delivery = deliveries.set({
+    id: `${Date.now()}-${randomBytes(4).toString("hex")}`,
+    createdAt: new Date().toISOString(),
+    status: "pending",
+    request,
+    signingScheme: input.signing?.scheme,
+    fromLogId: input.fromLogId,
+    retry: { ...DEFAULT_RETRY_POLICY, ...input.retry },
+    timeoutSeconds: input.timeoutSeconds ?? DEFAULT_SEND_TIMEOUT_SECONDS,
+    attempts: [],
+  });
+  if (input.signing) {
+    deliverySigning.set({ id: delivery.id, signing: input.signing });
+  }
+  pruneDeliveries();
+
+  return { delivery, completion: startDelivery(delivery) };
+}
+
+// Resume the deliveries that were pending or retrying when the server stopped.
+// Runs once when this module is loaded.
+function resumeDeliveries(): void {
+  for (const delivery of deliveries.list()) {
+    if (delivery.status === "pending" || delivery.status === "retrying") {
+      console.log(`[Sender] Resuming delivery ${delivery.id} to ${delivery.request.url}`);
+      startDelivery(delivery);
+    }
+  }
+}
+
+// Deliveries, newest first
+export function getDeliveries(): Delivery[] {
+  return deliveries.list().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getDeliveryById(id: string): Delivery | undefined {
+  return deliveries.get(id);
+}
+
+export function clearDeliveries(): void {
+  deliveries.clear();
+  deliverySigning.clear();
+}
+
+// Helper function to validate a send request received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateSendInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Request body must be a JSON object";
+  }
+  if (typeof input.url !== "string") {
+    return "url is required";
+  }
+  try {
+    const url = new URL(input.url);
+    if (!["http:", "https:"].includes(url.protocol)) {
+      return "url must use http or https";
+    }
+  } catch {
+    return "url must be an absolute URL";
+  }
+  if (input.method !== undefined && typeof input.method !== "string") {
+    return "method must be a string";
+  }
+  if (
+    input.headers !== undefined &&
+    (typeof input.headers !== "object" ||
+      input.headers === null ||
+      Object.values(input.headers).some((v) => typeof v !== "string"))
+  ) {
+    return "headers must be an object of string values";
+  }
+  if (input.fromLogId !== undefined && typeof input.fromLogId !== "string") {
+    return "fromLogId must be a string";
+  }
+  if (input.signing !== undefined) {
+    const signingError = validateSigningOptions(input.signing);
+    if (signingError) return signingError;
+  }
+  if (
+    input.timeoutSeconds !== undefined &&
+    (!Number.isInteger(input.timeoutSeconds) ||
+      input.timeoutSeconds < MIN_SEND_TIMEOUT_SECONDS ||
+      input.timeoutSeconds > MAX_SEND_TIMEOUT_SECONDS)
+  ) {
+    return `timeoutSeconds must be an integer between ${MIN_SEND_TIMEOUT_SECONDS} and ${MAX_SEND_TIMEOUT_SECONDS}`;
+  }
+
+  const retry = input.retry;
+  if (retry === undefined) return undefined;
+  if (typeof retry !== "object" || retry === null) {
+    return "retry must be an object";
+  }
+  if (
+    retry.maxAttempts !== undefined &&
+    (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1 || retry.maxAttempts > MAX_ATTEMPTS)
+  ) {
+    return `retry.maxAttempts must be an integer between 1 and ${MAX_ATTEMPTS}`;
+  }
+  for (const field of ["initialDelayMs", "maxDelayMs"]) {
+    const value = retry[field];
+    if (value !== undefined && (typeof value !== "number" || value < 0 || value > MAX_DELAY_MS)) {
+      return `retry.${field} must be between 0 and ${MAX_DELAY_MS}`;
+    }
+  }
+  if (
+    retry.backoffFactor !== undefined &&
+    (typeof retry.backoffFactor !== "number" || retry.backoffFactor < 1)
+  ) {
+    return "retry.backoffFactor must be a number of at least 1";
+  }
+  if (
+    retry.retryOn !== undefined &&
+    (!Array.isArray(retry.retryOn) ||
+      retry.retryOn.some(
+        (entry: any) =>
+          !(Number.isInteger(entry) || (typeof entry === "string" && /^([1-5]xx|\d{3})$/i.test(entry))),
+      ))
+  ) {
+    return 'retry.retryOn must be a list of status codes or classes such as "5xx"';
+  }
+  if (retry.retryOnNetworkError !== undefined && typeof retry.retryOnNetworkError !== "boolean") {
+    return "retry.retryOnNetworkError must be a boolean";
+  }
+  return undefined;
+}
+
+resumeDeliveries();
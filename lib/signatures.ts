@@ -0,0 +1,354 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { createCollection } from "./storage";
+import { getHeaderValue, matchPathGlob } from "./match";
+import type { CrudResource } from "./crud";
+
+// Constants
+const DEFAULT_TOLERANCE_SECONDS = 300; // 5 minutes, as used by Stripe and Slack
+const DEFAULT_GENERIC_HEADER = "x-signature";
+const SECRET_VISIBLE_CHARS = 4; // Trailing characters of a secret shown by the API
+const MIN_VISIBLE_SECRET_LENGTH = 12; // Shorter secrets are hidden completely
+
+export type SignatureScheme =
+  | "github" // X-Hub-Signature-256: sha256=<hex>
+  | "stripe" // Stripe-Signature: t=<ts>,v1=<hex> over "<ts>.<body>"
+  | "shopify" // X-Shopify-Hmac-Sha256: <base64>
+  | "slack" // X-Slack-Signature: v0=<hex> over "v0:<ts>:<body>"
+  | "hmac-sha256" // Generic HMAC over the raw body
+  | "hmac-sha1";
+
+export const SIGNATURE_SCHEMES: SignatureScheme[] = [
+  "github",
+  "stripe",
+  "shopify",
+  "slack",
+  "hmac-sha256",
+  "hmac-sha1",
+];
+
+// Signature verification settings for webhooks whose path matches `path`
+export interface SignatureConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  path: string; // Path glob, e.g. /webhooks/stripe/**
+  scheme: SignatureScheme;
+  secret: string;
+  header?: string; // Generic schemes only. Default: x-signature
+  encoding?: "hex" | "base64"; // Generic schemes only. Default: hex
+  prefix?: string; // Generic schemes only, e.g. "sha256="
+  toleranceSeconds?: number; // Stripe and Slack timestamp tolerance. Default: 300
+  rejectInvalid: boolean; // Respond with 401 when the signature is invalid
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SignatureConfigInput = Pick<SignatureConfig, "path" | "scheme" | "secret"> &
+  Partial<
+    Pick<
+      SignatureConfig,
+      "name" | "enabled" | "header" | "encoding" | "prefix" | "toleranceSeconds" | "rejectInvalid"
+    >
+  >;
+
+// Verification outcome recorded on the webhook log
+export interface SignatureResult {
+  scheme: SignatureScheme;
+  valid: boolean;
+  reason?: string; // Why the signature is invalid
+}
+
+const signatureConfigs = createCollection<SignatureConfig>("signatures");
+
+// Helper function to copy the verification settings from API input
+function pickVerificationFields(input: SignatureConfigInput) {
+  return {
+    path: input.path.trim(),
+    scheme: input.scheme,
+    secret: input.secret,
+    header: input.header,
+    encoding: input.encoding,
+    prefix: input.prefix,
+    toleranceSeconds: input.toleranceSeconds,
+  };
+}
+
+export function getSignatureConfigs(): SignatureConfig[] {
+  return signatureConfigs.list().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getSignatureConfigById(id: string): SignatureConfig | undefined {
+  return signatureConfigs.get(id);
+}
+
+export function createSignatureConfig(input: SignatureConfigInput): SignatureConfig {
+  const now = new Date().toISOString();
+  const id = randomBytes(6).toString("hex");
+  return signatureConfigs.set({
+    ...pickVerificationFields(input),
+    id,
+    name: input.name?.trim() || `${input.scheme}-${id}`,
+    enabled: input.enabled ?? true,
+    rejectInvalid: input.rejectInvalid ?? false,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateSignatureConfig(
+  id: string,
+  input: SignatureConfigInput,
+): SignatureConfig | undefined {
+  const existing = signatureConfigs.get(id);
+  if (!existing) return undefined;
+  return signatureConfigs.set({
+    ...pickVerificationFields(input),
+    id,
+    name: input.name?.trim() || existing.name,
+    enabled: input.enabled ?? existing.enabled,
+    rejectInvalid: input.rejectInvalid ?? existing.rejectInvalid,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export function deleteSignatureConfig(id: string): boolean {
+  return signatureConfigs.delete(id);
+}
+
+// Copy of a configuration for API responses. Secrets are write-only: only
+// their last characters are shown, so configurations can be told apart.
+export function maskSignatureConfig(config: SignatureConfig): SignatureConfig {
+  const { secret } = config;
+  const visible = secret.length >= MIN_VISIBLE_SECRET_LENGTH ? secret.slice(-SECRET_VISIBLE_CHARS) : "";
+  return { ...config, secret: `${"*".repeat(secret.length - visible.length)}${visible}` };
+}
+
+// First enabled configuration whose path glob matches the webhook path
+export function findSignatureConfig(path: string): SignatureConfig | undefined {
+  return getSignatureConfigs().find(
+    (config) => config.enabled && matchPathGlob(config.path, path),
+  );
+}
+
+// Helper function to compute an HMAC digest
+function hmac(
+  algorithm: "sha1" | "sha256",
+  secret: string,
+  payload: Buffer | string,
+  encoding: "hex" | "base64",
+): string {
+  return createHmac(algorithm, secret).update(payload).digest(encoding);
+}
+
+// Helper function for constant-time string comparison
+function safeEqual(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Helper function to check a signed timestamp (in seconds) against the tolerance
+function checkTimestamp(
+  timestamp: string,
+  toleranceSeconds: number,
+  now: number,
+): string | undefined {
+  const seconds = parseInt(timestamp, 10);
+  if (isNaN(seconds)) return "Invalid timestamp";
+  if (Math.abs(now / 1000 - seconds) > toleranceSeconds) {
+    return `Timestamp outside the tolerance of ${toleranceSeconds} seconds`;
+  }
+  return undefined;
+}
+
+function invalid(scheme: SignatureScheme, reason: string): SignatureResult {
+  return { scheme, valid: false, reason };
+}
+
+// Verify the signature of a webhook request against its raw body
+export function verifySignature(
+  config: SignatureConfig,
+  rawBody: Buffer,
+  headers: Record<string, string>,
+  now: number = Date.now(),
+): SignatureResult {
+  const { scheme, secret } = config;
+  const tolerance = config.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+
+  switch (scheme) {
+    case "github": {
+      const header = getHeaderValue(headers, "x-hub-signature-256");
+      if (!header) return invalid(scheme, "Missing X-Hub-Signature-256 header");
+      const expected = `sha256=${hmac("sha256", secret, rawBody, "hex")}`;
+      return safeEqual(expected, header)
+        ? { scheme, valid: true }
+        : invalid(scheme, "Signature mismatch");
+    }
+
+    case "stripe": {
+      const header = getHeaderValue(headers, "stripe-signature");
+      if (!header) return invalid(scheme, "Missing Stripe-Signature header");
+      const parts = header.split(",").map((part) => part.trim().split("="));
+      const timestamp = parts.find(([key]) => key === "t")?.[1];
+      const signatures = parts.filter(([key]) => key === "v1").map(([, value]) => value);
+      if (!timestamp || signatures.length === 0) {
+        return invalid(scheme, "Malformed Stripe-Signature header");
+      }
+      const expected = hmac("sha256", secret, `${timestamp}.${rawBody.toString("utf8")}`, "hex");
+      if (!signatures.some((signature) => safeEqual(expected, signature))) {
+        return invalid(scheme, "Signature mismatch");
+      }
+      const timestampError = checkTimestamp(timestamp, tolerance, now);
+      return timestampError ? invalid(scheme, timestampError) : { scheme, valid: true };
+    }
+
+    case "shopify": {
+      const header = getHeaderValue(headers, "x-shopify-hmac-sha256");
+      if (!header) return invalid(scheme, "Missing X-Shopify-Hmac-Sha256 header");
+      return safeEqual(hmac("sha256", secret, rawBody, "base64"), header)
+        ? { scheme, valid: true }
+        : invalid(scheme, "Signature mismatch");
+    }
+
+    case "slack": {
+      const header = getHeaderValue(headers, "x-slack-signature");
+      const timestamp = getHeaderValue(headers, "x-slack-request-timestamp");
+      if (!header) return invalid(scheme, "Missing X-Slack-Signature header");
+      if (!timestamp) return invalid(scheme, "Missing X-Slack-Request-Timestamp header");
+      const expected = `v0=${hmac("sha256", secret, `v0:${timestamp}:${rawBody.toString("utf8")}`, "hex")}`;
+      if (!safeEqual(expected, header)) return invalid(scheme, "Signature mismatch");
+      const timestampError = checkTimestamp(timestamp, tolerance, now);
+      return timestampError ? invalid(scheme, timestampError) : { scheme, valid: true };
+    }
+
+    case "hmac-sha256":
+    case "hmac-sha1": {
+      const headerName = config.header || DEFAULT_GENERIC_HEADER;
+      const header = getHeaderValue(headers, headerName);
+      if (!header) return invalid(scheme, `Missing ${headerName} header`);
+      const algorithm = scheme === "hmac-sha1" ? "sha1" : "sha256";
+      const expected = `${config.prefix || ""}${hmac(algorithm, secret, rawBody, config.encoding || "hex")}`;
+      return safeEqual(expected, header)
+        ? { scheme, valid: true }
+        : invalid(scheme, "Signature mismatch");
+    }
+  }
+}
+
+// Settings used to sign outgoing payloads (same fields as verification)
+export type SigningOptions = Pick<SignatureConfig, "scheme" | "secret"> &
+  Partial<Pick<SignatureConfig, "header" | "encoding" | "prefix">>;
+
+// Compute the signature headers a provider would send for a payload.
+// `timestamp` is in seconds and only used by the stripe and slack schemes.
+export function signPayload(
+  options: SigningOptions,
+  rawBody: Buffer | string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): Record<string, string> {
+  const { scheme, secret } = options;
+  const body = typeof rawBody === "string" ? rawBody : rawBody.toString("utf8");
+
+  switch (scheme) {
+    case "github":
+      return { "X-Hub-Signature-256": `sha256=${hmac("sha256", secret, rawBody, "hex")}` };
+    case "stripe":
+      return {
+        "Stripe-Signature": `t=${timestamp},v1=${hmac("sha256", secret, `${timestamp}.${body}`, "hex")}`,
+      };
+    case "shopify":
+      return { "X-Shopify-Hmac-Sha256": hmac("sha256", secret, rawBody, "base64") };
+    case "slack":
+      return {
+        "X-Slack-Request-Timestamp": String(timestamp),
+        "X-Slack-Signature": `v0=${hmac("sha256", secret, `v0:${timestamp}:${body}`, "hex")}`,
+      };
+    case "hmac-sha256":
+    case "hmac-sha1": {
+      const algorithm = scheme === "hmac-sha1" ? "sha1" : "sha256";
+      return {
+        [options.header || DEFAULT_GENERIC_HEADER]: `${options.prefix || ""}${hmac(
+          algorithm,
+          secret,
+          rawBody,
+          options.encoding || "hex",
+        )}`,
+      };
+    }
+  }
+}
+
+// Helper function to validate signing options received through the API.
+// Returns an error message, or undefined when the options are valid.
+export function validateSigningOptions(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "signing must be an object";
+  }
+  if (!SIGNATURE_SCHEMES.includes(input.scheme)) {
+    return `signing.scheme must be one of: ${SIGNATURE_SCHEMES.join(", ")}`;
+  }
+  if (typeof input.secret !== "string" || !input.secret) {
+    return "signing.secret is required";
+  }
+  for (const field of ["header", "prefix"]) {
+    if (input[field] !== undefined && typeof input[field] !== "string") {
+      return `signing.${field} must be a string`;
+    }
+  }
+  if (input.encoding !== undefined && !["hex", "base64"].includes(input.encoding)) {
+    return 'signing.encoding must be "hex" or "base64"';
+  }
+  return undefined;
+}
+
+// Helper function to validate a signature configuration received through the API.
+// Returns an error message, or undefined when the input is valid.
+export function validateSignatureConfigInput(input: any): string | undefined {
+  if (typeof input !== "object" || input === null) {
+    return "Signature configuration must be a JSON object";
+  }
+  if (typeof input.path !== "string" || !input.path.trim()) {
+    return "path is required";
+  }
+  if (!SIGNATURE_SCHEMES.includes(input.scheme)) {
+    return `scheme must be one of: ${SIGNATURE_SCHEMES.join(", ")}`;
+  }
+  if (typeof input.secret !== "string" || !input.secret) {
+    return "secret is required";
+  }
+  for (const field of ["name", "header", "prefix"]) {
+    if (input[field] !== undefined && typeof input[field] !== "string") {
+      return `${field} must be a string`;
+    }
+  }
+  if (input.encoding !== undefined && !["hex", "base64"].includes(input.encoding)) {
+    return 'encoding must be "hex" or "base64"';
+  }
+  if (
+    input.toleranceSeconds !== undefined &&
+    (typeof input.toleranceSeconds !== "number" || input.toleranceSeconds < 0)
+  ) {
+    return "toleranceSeconds must be a non-negative number";
+  }
+  for (const field of ["enabled", "rejectInvalid"]) {
+    if (input[field] !== undefined && typeof input[field] !== "boolean") {
+      return `${field} must be a boolean`;
+    }
+  }
+  return undefined;
+}
+
+// Served by /api/signatures and /api/signatures/{id}
+export const signatureResource: CrudResource<SignatureConfig, SignatureConfigInput> = {
+  key: "signature",
+  listKey: "signatures",
+  label: "Signature configuration",
+  list: getSignatureConfigs,
+  get: getSignatureConfigById,
+  create: createSignatureConfig,
+  update: updateSignatureConfig,
+  delete: deleteSignatureConfig,
+  validate: validateSignatureConfigInput,
+  present: maskSignatureConfig,
+};
@@ -0,0 +1,203 @@
+// Minimal SMTP client for notification emails (plain text, one message per connection)
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomBytes } from "crypto";
+
+// Constants
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_SMTP_TIMEOUT_MS = 15000;
+
+// SMTP relay settings, read from the SMTP_* environment variables
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+// SMTP settings, or undefined when SMTP_HOST is not set
+export function getSmtpConfig(): SmtpConfig | undefined {
+  const host = process.env.SMTP_HOST;
+  if (!host) return undefined;
+  const port = parseInt(process.env.SMTP_PORT || "", 10) || DEFAULT_SMTP_PORT;
+  const secure = process.env.SMTP_SECURE
+    ? ["1", "true"].includes(process.env.SMTP_SECURE.toLowerCase())
+    : port === 465;
+  return {
+    host,
+    port,
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.SMTP_FROM || `mock-webhooks@${os.hostname()}`,
+  };
+}
+
+// Helper function to read replies from a socket. Multi-line replies
+// ("250-...", "250 ...") are joined into one.
+function createReplyReader(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, index).replace(/\r$/, "");
+      buffer = buffer.slice(index + 1);
+      lines.push(line.slice(4));
+      if (line[3] === "-") continue;
+      const reply = { code: parseInt(line.slice(0, 3), 10), message: lines.join("\n") };
+      lines = [];
+      if (waiting) {
+        waiting.resolve(reply);
+        waiting = null;
+      } else {
+        replies.push(reply);
+      }
+    }
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    waiting?.reject(error);
+    waiting = null;
+  };
+  const onClose = () => onError(failure || new Error("SMTP connection closed"));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    read(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+      });
+    },
+    // Stop reading, e.g. before the socket is upgraded to TLS
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+// Helper function to open a connection, resolving once it is ready
+function connect(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.once("error", reject);
+  });
+}
+
+// Helper function to upgrade a plain connection after STARTTLS
+function upgradeToTls(socket: net.Socket, config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: config.host }, () => resolve(secureSocket));
+    secureSocket.setTimeout(timeoutMs, () => secureSocket.destroy(new Error("SMTP connection timed out")));
+    secureSocket.once("error", reject);
+  });
+}
+
+// Helper function to encode a header value with non-ASCII characters
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+// Helper function to build the message, base64-encoded so any text is safe to send
+function buildMessage(message: MailMessage): string {
+  const body = Buffer.from(message.text, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString("hex")}@${message.from.split("@")[1] || "localhost"}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+// Send a message through the configured relay. Resolves with the server's
+// reply to the message data; rejects with the failing command and reply.
+export async function sendMail(
+  config: SmtpConfig,
+  message: MailMessage,
+  timeoutMs: number = DEFAULT_SMTP_TIMEOUT_MS,
+): Promise<string> {
+  let socket = await connect(config, timeoutMs);
+  let reader = createReplyReader(socket);
+
+  const expect = async (command: string | null, codes: number[]): Promise<SmtpReply> => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await reader.read();
+    if (!codes.includes(reply.code)) {
+      // Only the verb is reported so credentials never end up in errors
+      const verb = command === null ? "greeting" : command.split(" ")[0];
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.message}`);
+    }
+    return reply;
+  };
+
+  try {
+    await expect(null, [220]);
+    let hello = await expect(`EHLO ${os.hostname()}`, [250]);
+
+    if (!config.secure && /^STARTTLS\b/im.test(hello.message)) {
+      await expect("STARTTLS", [220]);
+      reader.detach();
+      socket = await upgradeToTls(socket, config, timeoutMs);
+      reader = createReplyReader(socket);
+      hello = await expect(`EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`).toString("base64");
+      await expect(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await expect(`MAIL FROM:<${message.from}>`, [250]);
+    for (const recipient of message.to) {
+      await expect(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await expect("DATA", [354]);
+    // Lines starting with a dot are escaped by doubling it
+    const data = buildMessage(message).replace(/^\./gm, "..");
+    const accepted = await expect(`${data}\r\n.`, [250]);
+    await expect("QUIT", [221]).catch(() => undefined);
+    return `${accepted.code} ${accepted.message}`;
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
@@ -0,0 +1,79 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCollection } from "./collection";
+
+interface Item {
+  id: string;
+  value: number;
+}
+
+let dir: string;
+
+// Helper function to count the lines of a collection file
+function countLines(name: string): number {
+  return fs.readFileSync(path.join(dir, name), "utf8").split("\n").filter(Boolean).length;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-webhooks-"));
+  vi.stubEnv("LOG_STORAGE_DRIVER", "file");
+  vi.stubEnv("LOG_STORAGE_FILE", path.join(dir, "webhook-logs.jsonl"));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("createCollection", () => {
+  it("keeps items in memory without the file driver", () => {
+    vi.stubEnv("LOG_STORAGE_DRIVER", "memory");
+    const items = createCollection<Item>("items");
+    items.set({ id: "a", value: 1 });
+    expect(items.get("a")).toEqual({ id: "a", value: 1 });
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it("rewrites a JSON file by default", () => {
+    const items = createCollection<Item>("items");
+    items.set({ id: "a", value: 1 });
+    items.set({ id: "b", value: 2 });
+    items.delete("a");
+    expect(JSON.parse(fs.readFileSync(path.join(dir, "items.json"), "utf8"))).toEqual([{ id: "b", value: 2 }]);
+    expect(createCollection<Item>("items").list()).toEqual([{ id: "b", value: 2 }]);
+  });
+});
+
+describe("createCollection with appendOnly", () => {
+  it("appends one line per change and replays them on load", () => {
+    const items = createCollection<Item>("items", { appendOnly: true });
+    items.set({ id: "a", value: 1 });
+    items.set({ id: "b", value: 2 });
+    items.set({ id: "a", value: 3 });
+    items.delete("b");
+    expect(countLines("items.jsonl")).toBe(4);
+    expect(createCollection<Item>("items", { appendOnly: true }).list()).toEqual([{ id: "a", value: 3 }]);
+  });
+
+  it("compacts the file as changes accumulate", () => {
+    const items = createCollection<Item>("items", { appendOnly: true });
+    for (let value = 0; value < 500; value++) {
+      items.set({ id: "counter", value });
+    }
+    expect(countLines("items.jsonl")).toBeLessThan(250);
+    expect(createCollection<Item>("items", { appendOnly: true }).get("counter")?.value).toBe(499);
+  });
+
+  it("compacts on clear and skips unreadable lines", () => {
+    const items = createCollection<Item>("items", { appendOnly: true });
+    items.set({ id: "a", value: 1 });
+    items.clear();
+    expect(countLines("items.jsonl")).toBe(0);
+
+    items.set({ id: "b", value: 2 });
+    fs.appendFileSync(path.join(dir, "items.jsonl"), '{"op":"set","item":{"id":');
+    expect(createCollection<Item>("items", { appendOnly: true }).list()).toEqual([{ id: "b", value: 2 }]);
+  });
+});
@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+import { getLogStorageFile, isFileStorageEnabled } from "./config";
+
+// Keyed collection of configuration records (bins, rules, ...).
+// Kept in memory, and mirrored to a JSON file next to the log file
+// when the file storage driver is enabled.
+export interface Collection<T extends { id: string }> {
+  list(): T[];
+  get(id: string): T | undefined;
+  set(item: T): T;
+  delete(id: string): boolean;
+  clear(): void;
+}
+
+// Options of a collection
+export interface CollectionOptions {
+  // Persist changes by appending one line per change to a JSONL file instead
+  // of rewriting the whole file. Meant for large, frequently updated records
+  // such as delivery history.
+  appendOnly?: boolean;
+}
+
+// Each line of an append-only collection file is one operation, replayed in order
+type CollectionOperation<T> = { op: "set"; item: T } | { op: "delete"; id: string } | { op: "clear" };
+
+// Compact an append-only file once it holds this many more lines than items
+const COMPACTION_SLACK = 200;
+
+// Helper function to read a persisted collection file
+function loadItems<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn(
+      `[Storage] Ignoring unreadable collection file ${filePath}:`,
+      error instanceof Error ? error.message : error,
+    );
+    return [];
+  }
+}
+
+// Helper function to replay an append-only collection file into `items`.
+// Returns the number of lines read.
+function loadOperations<T extends { id: string }>(filePath: string, items: Map<string, T>): number {
+  if (!fs.existsSync(filePath)) return 0;
+
+  let lines = 0;
+  for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    lines++;
+    try {
+      const entry = JSON.parse(line) as CollectionOperation<T>;
+      if (entry.op === "set") {
+        items.set(entry.item.id, entry.item);
+      } else if (entry.op === "delete") {
+        items.delete(entry.id);
+      } else if (entry.op === "clear") {
+        items.clear();
+      }
+    } catch (error) {
+      // A partially written last line (e.g. after a crash) is skipped
+      console.warn(
+        `[Storage] Skipping unreadable line in collection file ${filePath}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+  return lines;
+}
+
+// Helper function to replace a file's content in one step
+function writeFileAtomic(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, content);
+  fs.renameSync(tempPath, filePath);
+}
+
+export function createCollection<T extends { id: string }>(
+  name: string,
+  options: CollectionOptions = {},
+): Collection<T> {
+  const extension = options.appendOnly ? "jsonl" : "json";
+  const filePath = isFileStorageEnabled()
+    ? path.join(path.dirname(getLogStorageFile()), `${name}.${extension}`)
+    : undefined;
+
+  const items = new Map<string, T>();
+  let lineCount = 0;
+  if (filePath && options.appendOnly) {
+    lineCount = loadOperations(filePath, items);
+  } else if (filePath) {
+    for (const item of loadItems<T>(filePath)) {
+      items.set(item.id, item);
+    }
+  }
+
+  // Rewrite an append-only file so it only contains the live items
+  const compact = () => {
+    if (!filePath) return;
+    const content = [...items.values()]
+      .map((item) => JSON.stringify({ op: "set", item }) + "\n")
+      .join("");
+    writeFileAtomic(filePath, content);
+    lineCount = items.size;
+  };
+
+  const persist = (entry: CollectionOperation<T>) => {
+    if (!filePath) return;
+    if (!options.appendOnly) {
+      writeFileAtomic(filePath, JSON.stringify([...items.values()], null, 2));
+      return;
+    }
+    if (entry.op === "clear" || lineCount - items.size >= COMPACTION_SLACK) {
+      compact();
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, JSON.stringify(entry) + "\n");
+    lineCount++;
+  };
+
+  return {
+    list() {
+      return [...items.values()];
+    },
+
+    get(id) {
+      return items.get(id);
+    },
+
+    set(item) {
+      items.set(item.id, item);
+      persist({ op: "set", item });
+      return item;
+    },
+
+    delete(id) {
+      const deleted = items.delete(id);
+      if (deleted) persist({ op: "delete", id });
+      return deleted;
+    },
+
+    clear() {
+      items.clear();
+      persist({ op: "clear" });
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import path from "path";
+import type { RetentionPolicy } from "./types";
+
+// Constants
+const DEFAULT_MAX_LOGS = 1000;
+const DEFAULT_LOG_FILE = ".data/webhook-logs.jsonl";
+const DEFAULT_RAW_BODY_LIMIT = 1024 * 1024; // 1MB
+
+// Helper function to parse a positive integer environment variable
+function parsePositiveInt(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return !isNaN(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+// Name of the configured storage driver (LOG_STORAGE_DRIVER)
+export function getStorageDriver(): string {
+  return (process.env.LOG_STORAGE_DRIVER || "memory").toLowerCase();
+}
+
+export function isFileStorageEnabled(): boolean {
+  return getStorageDriver() === "file";
+}
+
+// Absolute path of the JSONL file used by the file driver
+export function getLogStorageFile(): string {
+  return path.resolve(process.env.LOG_STORAGE_FILE || DEFAULT_LOG_FILE);
+}
+
+// Read retention limits from the environment
+export function getRetentionPolicy(): RetentionPolicy {
+  const maxAgeSeconds = parsePositiveInt(
+    process.env.LOG_RETENTION_MAX_AGE_SECONDS,
+  );
+  return {
+    maxCount:
+      parsePositiveInt(process.env.LOG_RETENTION_MAX_COUNT) ?? DEFAULT_MAX_LOGS,
+    maxAgeMs: maxAgeSeconds ? maxAgeSeconds * 1000 : undefined,
+  };
+}
+
+// Largest request body (in bytes) whose raw bytes are kept with the log
+export function getRawBodyLimit(): number {
+  return parsePositiveInt(process.env.LOG_RAW_BODY_MAX_BYTES) ?? DEFAULT_RAW_BODY_LIMIT;
+}
@@ -0,0 +1,153 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFileStorage } from "./file";
+import type { WebhookLog } from "../store";
+
+const POLICY = { maxCount: 100 };
+
+let dir: string;
+let filePath: string;
+
+// Helper function to build a log received `ageSeconds` ago
+function makeLog(id: string, ageSeconds: number = 0): WebhookLog {
+  return {
+    id,
+    timestamp: new Date(Date.now() - ageSeconds * 1000).toISOString(),
+    method: "POST",
+    path: "/webhooks/test",
+    url: "http://localhost/webhooks/test",
+    statusCode: 200,
+    headers: {},
+    queryParams: {},
+    body: { id },
+  };
+}
+
+function ids(logs: WebhookLog[]): string[] {
+  return logs.map((log) => log.id);
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-webhooks-"));
+  filePath = path.join(dir, "logs.jsonl");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Helper function to count the operation lines of the log file
+function countLines(): number {
+  return fs.readFileSync(filePath, "utf8").split("\n").filter(Boolean).length;
+}
+
+describe("createFileStorage", () => {
+  it("lists logs newest first and reloads them after a restart", () => {
+    const storage = createFileStorage(filePath, POLICY);
+    storage.add(makeLog("first"));
+    storage.add(makeLog("second"));
+    expect(ids(storage.list())).toEqual(["second", "first"]);
+    expect(storage.get("first")?.body).toEqual({ id: "first" });
+    expect(ids(createFileStorage(filePath, POLICY).list())).toEqual(["second", "first"]);
+  });
+
+  it("replays deletions and clears", () => {
+    const storage = createFileStorage(filePath, POLICY);
+    storage.add(makeLog("a"));
+    storage.add(makeLog("b"));
+    expect(storage.delete("a")).toBe(true);
+    expect(storage.delete("missing")).toBe(false);
+    expect(ids(createFileStorage(filePath, POLICY).list())).toEqual(["b"]);
+
+    storage.clear();
+    storage.add(makeLog("c"));
+    expect(ids(createFileStorage(filePath, POLICY).list())).toEqual(["c"]);
+  });
+
+  it("skips a partially written last line", () => {
+    const storage = createFileStorage(filePath, POLICY);
+    storage.add(makeLog("kept"));
+    fs.appendFileSync(filePath, '{"op":"add","log":{"id":');
+    expect(ids(createFileStorage(filePath, POLICY).list())).toEqual(["kept"]);
+  });
+
+  it("compacts the file once deleted logs pile up", () => {
+    const storage = createFileStorage(filePath, POLICY);
+    for (let i = 0; i < 300; i++) {
+      storage.add(makeLog(`log-${i}`));
+      storage.delete(`log-${i}`);
+    }
+    storage.add(makeLog("live"));
+    expect(countLines()).toBeLessThan(600);
+    expect(ids(createFileStorage(filePath, POLICY).list())).toEqual(["live"]);
+  });
+
+  it("evicts the oldest logs beyond the count limit, with their blobs", () => {
+    const storage = createFileStorage(filePath, { maxCount: 2 });
+    storage.add(makeLog("a"), { raw: Buffer.from("a") });
+    storage.add(makeLog("b"));
+    storage.add(makeLog("c"));
+    expect(ids(storage.list())).toEqual(["c", "b"]);
+    expect(storage.getBlob("a", "raw")).toBeUndefined();
+    expect(countLines()).toBe(2);
+  });
+
+  it("drops logs that expired while the server was down", () => {
+    createFileStorage(filePath, POLICY).add(makeLog("old", 3600));
+    const storage = createFileStorage(filePath, { maxCount: 100, maxAgeMs: 60_000 });
+    expect(storage.list()).toEqual([]);
+  });
+
+  it("keeps blob names inside the blobs directory and removes blobs with their log", () => {
+    const storage = createFileStorage(filePath, POLICY);
+    storage.add(makeLog("with-blob"), { "../escape": Buffer.from("x") });
+    expect(fs.existsSync(path.join(dir, "blobs", "with-blob", "escape"))).toBe(true);
+    expect(storage.getBlob("with-blob", "../escape")).toEqual(Buffer.from("x"));
+
+    storage.delete("with-blob");
+    expect(fs.existsSync(path.join(dir, "blobs", "with-blob"))).toBe(false);
+  });
+});
+
+describe("createFileStorage insert", () => {
+  it("places logs by timestamp among newer and older logs", () => {
+    const storage = createFileStorage(filePath, POLICY);
+    storage.add(makeLog("old", 300));
+    storage.add(makeLog("new", 10));
+    storage.insert(makeLog("middle", 100));
+    storage.insert(makeLog("oldest", 1000));
+    expect(ids(storage.list())).toEqual(["new", "middle", "old", "oldest"]);
+  });
+
+  it("keeps the order after a restart", () => {
+    const storage = createFileStorage(filePath, POLICY);
+    storage.add(makeLog("old", 300));
+    storage.add(makeLog("new", 10));
+    storage.insert(makeLog("middle", 100));
+    expect(ids(createFileStorage(filePath, POLICY).list())).toEqual(["new", "middle", "old"]);
+  });
+
+  it("evicts the oldest logs first when imports exceed the count limit", () => {
+    const storage = createFileStorage(filePath, { maxCount: 2 });
+    storage.add(makeLog("fresh", 1));
+    storage.insert(makeLog("archived-1", 5000));
+    storage.insert(makeLog("archived-2", 4000));
+    expect(ids(storage.list())).toEqual(["fresh", "archived-2"]);
+  });
+
+  it("drops imports older than the age limit without touching fresh logs", () => {
+    const storage = createFileStorage(filePath, { maxCount: 100, maxAgeMs: 60_000 });
+    storage.add(makeLog("fresh", 1));
+    storage.insert(makeLog("expired", 3600));
+    storage.add(makeLog("newest", 0));
+    expect(ids(storage.list())).toEqual(["newest", "fresh"]);
+  });
+
+  it("stores the blobs of inserted logs", () => {
+    const storage = createFileStorage(filePath, POLICY);
+    storage.insert(makeLog("imported", 100), { raw: Buffer.from([0xff, 0x00]) });
+    expect(storage.getBlob("imported", "raw")).toEqual(Buffer.from([0xff, 0x00]));
+  });
+});
@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import type { WebhookLog } from "../store";
+import type { LogBlobs, LogStorage, RetentionPolicy } from "./types";
+import { applyRetention, insertByTimestamp } from "./retention";
+
+// Each line of the file is one operation, replayed in order on startup.
+// "add" puts the log first; "insert" places it by its timestamp.
+type FileOperation =
+  | { op: "add"; log: WebhookLog }
+  | { op: "insert"; log: WebhookLog }
+  | { op: "delete"; id: string }
+  | { op: "clear" };
+
+// Compact the file once it holds this many more lines than live logs
+const COMPACTION_SLACK = 500;
+
+// Helper function to replay the operations file into a newest-first list
+function loadLogs(filePath: string): { logs: WebhookLog[]; lines: number } {
+  if (!fs.existsSync(filePath)) {
+    return { logs: [], lines: 0 };
+  }
+
+  const logs: WebhookLog[] = [];
+  let lines = 0;
+  const content = fs.readFileSync(filePath, "utf8");
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    lines++;
+    try {
+      const entry = JSON.parse(line) as FileOperation;
+      if (entry.op === "add") {
+        logs.unshift(entry.log);
+      } else if (entry.op === "insert") {
+        insertByTimestamp(logs, entry.log);
+      } else if (entry.op === "delete") {
+        const index = logs.findIndex((log) => log.id === entry.id);
+        if (index !== -1) logs.splice(index, 1);
+      } else if (entry.op === "clear") {
+        logs.length = 0;
+      }
+    } catch (error) {
+      // A partially written last line (e.g. after a crash) is skipped
+      console.warn(
+        "[Storage] Skipping unreadable line in log file:",
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  return { logs, lines };
+}
+
+// File-backed storage driver using an append-only JSONL operations file.
+// Logs survive restarts; the file is compacted as operations accumulate.
+// Blobs are written to blobs/{logId}/{name} next to the file.
+export function createFileStorage(
+  filePath: string,
+  policy: RetentionPolicy,
+): LogStorage {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const blobsDir = path.join(path.dirname(filePath), "blobs");
+
+  // Log ids and blob names are generated server-side, but never trust
+  // them to build paths outside the blobs directory
+  const getBlobDir = (id: string) => path.join(blobsDir, path.basename(id));
+  const removeBlobs = (id: string) => {
+    fs.rmSync(getBlobDir(id), { recursive: true, force: true });
+  };
+
+  const loaded = loadLogs(filePath);
+  const logs = loaded.logs;
+  let lineCount = loaded.lines;
+
+  const append = (entry: FileOperation) => {
+    fs.appendFileSync(filePath, JSON.stringify(entry) + "\n");
+    lineCount++;
+  };
+
+  // Rewrite the file so it only contains the live logs (oldest first)
+  const compact = () => {
+    const content = logs
+      .slice()
+      .reverse()
+      .map((log) => JSON.stringify({ op: "add", log }) + "\n")
+      .join("");
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+    lineCount = logs.length;
+  };
+
+  const enforceRetention = () => {
+    const removed = applyRetention(logs, policy);
+    for (const log of removed) {
+      removeBlobs(log.id);
+    }
+    if (removed.length > 0 || lineCount - logs.length > COMPACTION_SLACK) {
+      compact();
+    }
+  };
+
+  // Drop anything that expired while the server was down
+  enforceRetention();
+
+  const writeBlobs = (id: string, logBlobs?: LogBlobs) => {
+    for (const [name, data] of Object.entries(logBlobs || {})) {
+      const blobDir = getBlobDir(id);
+      fs.mkdirSync(blobDir, { recursive: true });
+      fs.writeFileSync(path.join(blobDir, path.basename(name)), data);
+    }
+  };
+
+  return {
+    add(log, logBlobs) {
+      writeBlobs(log.id, logBlobs);
+      logs.unshift(log);
+      append({ op: "add", log });
+      enforceRetention();
+    },
+
+    insert(log, logBlobs) {
+      writeBlobs(log.id, logBlobs);
+      insertByTimestamp(logs, log);
+      append({ op: "insert", log });
+      enforceRetention();
+    },
+
+    list() {
+      enforceRetention();
+      return logs;
+    },
+
+    get(id) {
+      return logs.find((log) => log.id === id);
+    },
+
+    getBlob(id, name) {
+      const blobPath = path.join(getBlobDir(id), path.basename(name));
+      return fs.existsSync(blobPath) ? fs.readFileSync(blobPath) : undefined;
+    },
+
+    delete(id) {
+      const index = logs.findIndex((log) => log.id === id);
+      if (index === -1) return false;
+      logs.splice(index, 1);
+      append({ op: "delete", id });
+      removeBlobs(id);
+      return true;
+    },
+
+    clear() {
+      logs.length = 0;
+      compact();
+      fs.rmSync(blobsDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import type { LogStorage } from "./types";
+import { createMemoryStorage } from "./memory";
+import { createFileStorage } from "./file";
+import { getLogStorageFile, getRetentionPolicy, getStorageDriver } from "./config";
+
+export type { LogBlobs, LogStorage, RetentionPolicy } from "./types";
+export { getRawBodyLimit } from "./config";
+export { createCollection } from "./collection";
+export type { Collection, CollectionOptions } from "./collection";
+
+// Create the storage driver selected by LOG_STORAGE_DRIVER ("memory" or "file")
+export function createLogStorage(): LogStorage {
+  const driver = getStorageDriver();
+  const policy = getRetentionPolicy();
+
+  switch (driver) {
+    case "file": {
+      const filePath = getLogStorageFile();
+      console.log(`[Storage] Using file storage at ${filePath}`);
+      return createFileStorage(filePath, policy);
+    }
+    case "memory":
+      return createMemoryStorage(policy);
+    default:
+      console.warn(
+        `[Storage] Unknown LOG_STORAGE_DRIVER "${driver}", falling back to memory`,
+      );
+      return createMemoryStorage(policy);
+  }
+}
@@ -0,0 +1,63 @@
+import type { WebhookLog } from "../store";
+import type { LogBlobs, LogStorage, RetentionPolicy } from "./types";
+import { applyRetention, insertByTimestamp } from "./retention";
+
+// In-memory storage driver. Logs are lost when the server restarts.
+export function createMemoryStorage(policy: RetentionPolicy): LogStorage {
+  const logs: WebhookLog[] = [];
+  const blobs = new Map<string, LogBlobs>();
+
+  const enforceRetention = () => {
+    for (const removed of applyRetention(logs, policy)) {
+      blobs.delete(removed.id);
+    }
+  };
+
+  const storeBlobs = (id: string, logBlobs?: LogBlobs) => {
+    if (logBlobs && Object.keys(logBlobs).length > 0) {
+      blobs.set(id, logBlobs);
+    }
+  };
+
+  return {
+    add(log, logBlobs) {
+      logs.unshift(log); // Add to beginning (newest first)
+      storeBlobs(log.id, logBlobs);
+      enforceRetention();
+    },
+
+    insert(log, logBlobs) {
+      insertByTimestamp(logs, log);
+      storeBlobs(log.id, logBlobs);
+      enforceRetention();
+    },
+
+    list() {
+      enforceRetention();
+      return logs;
+    },
+
+    get(id) {
+      return logs.find((log) => log.id === id);
+    },
+
+    getBlob(id, name) {
+      return blobs.get(id)?.[name];
+    },
+
+    delete(id) {
+      const index = logs.findIndex((log) => log.id === id);
+      if (index !== -1) {
+        logs.splice(index, 1);
+        blobs.delete(id);
+        return true;
+      }
+      return false;
+    },
+
+    clear() {
+      logs.length = 0;
+      blobs.clear();
+    },
+  };
+}
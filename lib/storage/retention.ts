@@ -0,0 +1,50 @@
+import type { WebhookLog } from "../store";
+import type { RetentionPolicy } from "./types";
+
+// Helper function to check whether a log is still within the age limit
+export function isWithinMaxAge(
+  log: WebhookLog,
+  policy: RetentionPolicy,
+  now: number = Date.now(),
+): boolean {
+  if (!policy.maxAgeMs) return true;
+  const time = new Date(log.timestamp).getTime();
+  return isNaN(time) || now - time <= policy.maxAgeMs;
+}
+
+// Insert a log into a newest-first list in place, after any logs with the
+// same timestamp. Returns the index it was inserted at.
+export function insertByTimestamp(logs: WebhookLog[], log: WebhookLog): number {
+  const time = new Date(log.timestamp).getTime();
+  let index = logs.findIndex((other) => new Date(other.timestamp).getTime() < time);
+  if (index === -1) index = logs.length;
+  logs.splice(index, 0, log);
+  return index;
+}
+
+// Apply retention to a newest-first list in place.
+// Returns the logs that were removed.
+export function applyRetention(
+  logs: WebhookLog[],
+  policy: RetentionPolicy,
+): WebhookLog[] {
+  const removed: WebhookLog[] = [];
+
+  if (logs.length > policy.maxCount) {
+    removed.push(...logs.splice(policy.maxCount));
+  }
+
+  if (policy.maxAgeMs) {
+    const now = Date.now();
+    // Logs are newest first, so expired logs are always at the end
+    let keep = logs.length;
+    while (keep > 0 && !isWithinMaxAge(logs[keep - 1], policy, now)) {
+      keep--;
+    }
+    if (keep < logs.length) {
+      removed.push(...logs.splice(keep));
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,24 @@
+import type { WebhookLog } from "../store";
+
+// Retention limits applied by every storage driver
+export interface RetentionPolicy {
+  maxCount: number; // Maximum number of logs kept (oldest are removed first)
+  maxAgeMs?: number; // Logs older than this are removed (undefined = no age limit)
+}
+
+// Binary attachments of a log (raw body, uploaded files), keyed by name
+export type LogBlobs = Record<string, Buffer>;
+
+// Contract implemented by every log storage driver.
+// Logs are always returned newest first. Blobs are stored next to their
+// log and removed together with it (delete, clear or retention).
+export interface LogStorage {
+  add(log: WebhookLog, blobs?: LogBlobs): void;
+  // Add a log at the position of its timestamp, e.g. an imported older log
+  insert(log: WebhookLog, blobs?: LogBlobs): void;
+  list(): WebhookLog[];
+  get(id: string): WebhookLog | undefined;
+  getBlob(id: string, name: string): Buffer | undefined;
+  delete(id: string): boolean;
+  clear(): void;
+}
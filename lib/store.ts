@@ -1,49 +1,107 @@
+import { createLogStorage, type LogBlobs } from "./storage";
+import { publishLogEvent } from "./events";
+import type { SignatureResult } from "./signatures";
+import type { ForwardResult } from "./forwarding";
+import type { HandshakeResult } from "./handshakes";
+import type { ChaosResult } from "./chaos";
+import type { ScenarioStepResult } from "./scenarios";
+import type { ValidationResult } from "./schemas";
+import type { MockResult } from "./openapi";
+import type { RedactionResult } from "./redaction";
+
+// File uploaded in a multipart request
+export interface WebhookFile {
+  field: string; // Form field name
+  filename: string;
+  contentType: string;
+  size: number; // Bytes
+  blob?: string; // Blob holding the file content (unset when it was too large to keep)
+}
+
 export interface WebhookLog {
   id: string;
+  binId?: string; // Set when the request was sent to /webhooks/b/{binId}/...
   timestamp: string;
   method: string;
   path: string;
   url: string;
-  statusCode: number;
+  statusCode?: number; // Unset when chaos dropped or reset the connection (see chaos.fail)
+  ruleId?: string; // Response rule that produced the response, if any
+  signature?: SignatureResult; // Set when a signature configuration covers the path
+  validation?: ValidationResult; // Set when a schema configuration covers the path
+  forward?: ForwardResult; // Upstream request and response in forwarding mode
+  handshake?: HandshakeResult; // Provider verification handshake that was answered
+  chaos?: ChaosResult; // Simulated latency, failure and response faults
+  scenario?: ScenarioStepResult; // Step of a response sequence that was returned
+  mock?: MockResult; // OpenAPI operation matched under /webhooks/mock/{specId}/...
+  idempotencyKey?: string; // Set when an idempotency configuration covers the path
+  idempotencyKeyHash?: string; // Hash of the key used to detect duplicates; never redacted
+  deliveryCount?: number; // Deliveries with the same key so far, including this one
+  duplicateOf?: string; // Id of the first delivery with the same key
   timeout?: number;
   startTime?: string;
   endTime?: string;
   headers: Record<string, string>;
   queryParams: Record<string, string>;
   body: any;
+  bodySize?: number; // Byte length of the raw request body
+  rawBodyBlob?: string; // Blob holding the exact raw bytes (unset when too large to keep)
+  files?: WebhookFile[];
+  redaction?: RedactionResult; // Fields masked by redaction rules before the log was stored
 }
 
-// In-memory store for webhook logs
-// In production, you might want to use a database or persistent storage
-const webhookLogs: WebhookLog[] = [];
-const MAX_LOGS = 1000; // Limit to prevent memory issues
+// Storage driver for webhook logs, selected via LOG_STORAGE_DRIVER
+// (see lib/storage for the available drivers and retention settings)
+const storage = createLogStorage();
 
-export function addWebhookLog(log: WebhookLog): void {
-  webhookLogs.unshift(log); // Add to beginning (newest first)
-  
-  // Keep only the most recent logs
-  if (webhookLogs.length > MAX_LOGS) {
-    webhookLogs.splice(MAX_LOGS);
-  }
+// Id of a new log, e.g. 1717171717171-k3j9x0a2b
+export function createLogId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+}
+
+export function addWebhookLog(log: WebhookLog, blobs?: LogBlobs): void {
+  storage.add(log, blobs);
+  publishLogEvent({ type: "added", log });
 }
 
-export function getWebhookLogs(): WebhookLog[] {
-  return webhookLogs;
+// Store a log captured earlier, e.g. from an import, in timestamp order.
+// Live subscribers and waiters are not notified since it is not new traffic.
+export function importWebhookLog(log: WebhookLog, blobs?: LogBlobs): void {
+  storage.insert(log, blobs);
 }
 
-export function clearWebhookLogs(): void {
-  webhookLogs.length = 0;
+// Logs are namespaced by bin: without a binId only the shared
+// (bin-less) logs are returned
+export function getWebhookLogs(binId?: string): WebhookLog[] {
+  return storage.list().filter((log) => log.binId === binId);
+}
+
+export function clearWebhookLogs(binId?: string): void {
+  const logs = getWebhookLogs(binId);
+  if (logs.length === storage.list().length) {
+    storage.clear();
+  } else {
+    for (const log of logs) {
+      storage.delete(log.id);
+    }
+  }
+  publishLogEvent({ type: "cleared", binId });
 }
 
 export function getWebhookLogById(id: string): WebhookLog | undefined {
-  return webhookLogs.find(log => log.id === id);
+  return storage.get(id);
+}
+
+// Binary content (raw body or uploaded file) stored with a log
+export function getWebhookLogBlob(id: string, name: string): Buffer | undefined {
+  return storage.getBlob(id, name);
 }
 
 export function deleteWebhookLog(id: string): boolean {
-  const index = webhookLogs.findIndex(log => log.id === id);
-  if (index !== -1) {
-    webhookLogs.splice(index, 1);
-    return true;
+  const log = storage.get(id);
+  const deleted = storage.delete(id);
+  if (deleted) {
+    publishLogEvent({ type: "deleted", id, binId: log?.binId });
   }
-  return false;
+  return deleted;
 }
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { renderJsonTemplate, renderTemplate, type TemplateContext } from "./template";
+import { renderRuleResponse } from "./rules";
+
+const context: TemplateContext = {
+  method: "POST",
+  path: "/webhooks/orders/123",
+  headers: { "X-Request-Id": "req-1" },
+  queryParams: { source: "shop" },
+  body: { eventId: "evt_1", amount: 42, items: [{ sku: "a" }], paid: true },
+};
+
+describe("renderTemplate", () => {
+  it("replaces placeholders with request data", () => {
+    expect(
+      renderTemplate(
+        "{{method}} {{ path }} {{path.1}} {{headers.x-request-id}} {{query.source}} {{body.items.0.sku}}",
+        context,
+      ),
+    ).toBe("POST /webhooks/orders/123 123 req-1 shop a");
+  });
+
+  it("renders objects as JSON and unknown or missing values as empty text", () => {
+    expect(renderTemplate("{{body.items}}", context)).toBe('[{"sku":"a"}]');
+    expect(renderTemplate("[{{body.missing}}{{nope}}]", context)).toBe("[]");
+  });
+
+  it("generates ids and times", () => {
+    expect(renderTemplate("{{uuid}}", context)).toMatch(/^[0-9a-f-]{36}$/);
+    expect(new Date(renderTemplate("{{now}}", context)).getTime()).not.toBeNaN();
+  });
+});
+
+describe("renderJsonTemplate", () => {
+  it("keeps the type of values that fill a whole string", () => {
+    expect(
+      renderJsonTemplate(
+        { id: "{{body.eventId}}", amount: "{{ body.amount }}", paid: "{{body.paid}}", note: "#{{body.amount}}" },
+        context,
+      ),
+    ).toEqual({ id: "evt_1", amount: 42, paid: true, note: "#42" });
+  });
+
+  it("renders arrays and turns missing values into null", () => {
+    expect(renderJsonTemplate(["{{body.missing}}", 1, { sku: "{{body.items.0.sku}}" }], context)).toEqual([
+      null,
+      1,
+      { sku: "a" },
+    ]);
+  });
+});
+
+describe("renderRuleResponse", () => {
+  it("renders the body and header values", () => {
+    const { body, headers } = renderRuleResponse(
+      {
+        statusCode: 200,
+        bodyType: "text",
+        body: "ack {{body.eventId}}",
+        headers: { "X-Echo": "{{headers.x-request-id}}", "content-type": "text/csv" },
+      },
+      context,
+    );
+    expect(body).toBe("ack evt_1");
+    expect(headers).toEqual({ "X-Echo": "req-1", "content-type": "text/csv" });
+  });
+});
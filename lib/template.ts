@@ -0,0 +1,88 @@
+import { randomUUID } from "crypto";
+import { getHeaderValue, getValueAtPath } from "./match";
+
+// Request data available to response templates
+export interface TemplateContext {
+  method: string;
+  path: string; // Full webhook path, e.g. /webhooks/orders/123
+  headers: Record<string, string>;
+  queryParams: Record<string, string>;
+  body: any;
+}
+
+// Matches {{ expression }} placeholders
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+// Helper function to split a path into the segments after /webhooks
+function getPathSegments(path: string): string[] {
+  return path.split("/").filter(Boolean).slice(1);
+}
+
+// Resolve a single template expression, e.g. "body.eventId" or "uuid".
+// Unknown expressions and missing values resolve to undefined.
+export function resolveExpression(
+  expression: string,
+  context: TemplateContext,
+): any {
+  const [root, ...rest] = expression.split(".");
+  const key = rest.join(".");
+
+  switch (root) {
+    case "uuid":
+      return randomUUID();
+    case "now":
+      return new Date().toISOString();
+    case "timestamp":
+      return Date.now();
+    case "method":
+      return context.method;
+    case "path":
+      return key ? getPathSegments(context.path)[parseInt(key, 10)] : context.path;
+    case "headers":
+      return getHeaderValue(context.headers, key);
+    case "query":
+      return context.queryParams[key];
+    case "body":
+      return getValueAtPath(context.body, key);
+    default:
+      return undefined;
+  }
+}
+
+// Helper function to convert a resolved value into template text
+function stringify(value: any): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Replace every {{ expression }} in a string
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, expression: string) =>
+    stringify(resolveExpression(expression, context)),
+  );
+}
+
+// Render templates inside a JSON value. A string that is a single placeholder
+// is replaced by the raw value so numbers, booleans and objects keep their type.
+export function renderJsonTemplate(value: any, context: TemplateContext): any {
+  if (typeof value === "string") {
+    const single = value.match(SINGLE_PLACEHOLDER_PATTERN);
+    if (single) {
+      const resolved = resolveExpression(single[1], context);
+      return resolved === undefined ? null : resolved;
+    }
+    return renderTemplate(value, context);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderJsonTemplate(item, context));
+  }
+  if (value && typeof value === "object") {
+    const rendered: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      rendered[key] = renderJsonTemplate(item, context);
+    }
+    return rendered;
+  }
+  return value;
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ROLE_HEADER,
+  authenticateRequest,
+  isAuthEnabled,
+  isIngestAllowed,
+  isReadOnlyMethod,
+  type AuthRole,
+} from "@/lib/auth";
+import { isBinTokenRequest } from "@/lib/bins";
+
+// Access control for the dashboard, the API and webhook ingestion (see lib/auth)
+export function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  if (pathname.startsWith("/webhooks")) {
+    if (!isIngestAllowed(request)) {
+      return NextResponse.json({ message: "Invalid or missing ingest token" }, { status: 401 });
+    }
+    return NextResponse.next();
+  }
+
+  // Login, logout and session checks must work without credentials
+  if (pathname.startsWith("/api/auth/")) {
+    return NextResponse.next();
+  }
+
+  const role = isAuthEnabled() ? authenticateRequest(request) : null;
+
+  if (pathname === "/") {
+    if (isAuthEnabled() && !role) {
+      return NextResponse.redirect(new URL("/login", request.url));
+    }
+    return NextResponse.next();
+  }
+
+  if (isAuthEnabled()) {
+    if (!role && !isBinTokenRequest(request)) {
+      return NextResponse.json({ message: "Invalid or missing API key" }, { status: 401 });
+    }
+    if (role === "read" && !isReadOnlyMethod(request.method)) {
+      return NextResponse.json({ message: "Read-only API key cannot modify data" }, { status: 403 });
+    }
+  }
+  return withRole(request, role);
+}
+
+// Helper function to pass the role to the route handlers, replacing any
+// value sent by the client
+function withRole(request: NextRequest, role: AuthRole | null): NextResponse {
+  const headers = new Headers(request.headers);
+  headers.delete(ROLE_HEADER);
+  if (role) headers.set(ROLE_HEADER, role);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: ["/", "/api/:path*", "/webhooks/:path*"],
+};
@@ -0,0 +1,18 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Unit tests live next to the code they cover (lib/**/*.test.ts, and route
+// tests next to their route.ts). "@/" resolves like in tsconfig.json.
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["lib/**/*.test.ts", "app/**/*.test.ts"],
+    // Each file gets fresh module state (stores and collections are module singletons)
+    isolate: true,
+    // Tests with file storage point LOG_STORAGE_FILE at a temporary directory
+    env: { LOG_STORAGE_DRIVER: "memory" },
+  },
+});